@@ -7,6 +7,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/contexts/ThemeContext";
 import { PageTransition } from "@/components/PageTransition";
 import { PageLoader } from "@/components/PageLoader";
+import { RequireAuth } from "@/components/RequireAuth";
 import { AnimatePresence } from "framer-motion";
 
 const Demo = lazy(() => import("@/pages/Demo"));
@@ -14,6 +15,7 @@ const DemoLogin = lazy(() => import("@/pages/DemoLogin"));
 const Admin = lazy(() => import("@/pages/Admin"));
 const Docs = lazy(() => import("@/pages/Docs"));
 const Keys = lazy(() => import("@/pages/Keys"));
+const Login = lazy(() => import("@/pages/Login"));
 const NotFound = lazy(() => import("@/pages/not-found"));
 
 function Router() {
@@ -26,10 +28,19 @@ function Router() {
           <Switch location={location}>
             <Route path="/" component={Demo} />
             <Route path="/demo-login" component={DemoLogin} />
-            <Route path="/admin" component={Admin} />
+            <Route path="/login" component={Login} />
+            <Route path="/admin">
+              <RequireAuth>
+                <Admin />
+              </RequireAuth>
+            </Route>
             <Route path="/docs" component={Docs} />
             <Route path="/api-reference" component={Docs} />
-            <Route path="/keys" component={Keys} />
+            <Route path="/keys">
+              <RequireAuth>
+                <Keys />
+              </RequireAuth>
+            </Route>
             <Route path="/pricing" component={Docs} />
             <Route path="/support" component={Docs} />
             <Route path="/faq" component={Docs} />
@@ -0,0 +1,77 @@
+import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+
+interface ApiClientWithUsage {
+  id: string;
+  apiKey: string;
+  name: string;
+  rateLimitPerHour: number;
+  usage: {
+    used: number;
+    remaining: number;
+    resetAt: string;
+  };
+  active: boolean;
+  lastUsedAt: string | null;
+}
+
+export function ApiClientUsage({ className }: { className?: string }) {
+  const { data: clients, isLoading } = useQuery<ApiClientWithUsage[]>({
+    queryKey: ['/api/clients'],
+    refetchInterval: 30000,
+  });
+
+  return (
+    <Card className={className}>
+      <div className="p-6 border-b border-border">
+        <h2 className="text-xl font-semibold text-foreground">API Client Quotas</h2>
+        <p className="text-sm text-muted-foreground mt-1">
+          Introspection and verification calls in the current hour
+        </p>
+      </div>
+
+      <div className="divide-y divide-border">
+        {isLoading ? (
+          <div className="p-8 text-center">
+            <p className="text-muted-foreground">Loading API clients...</p>
+          </div>
+        ) : !clients || clients.length === 0 ? (
+          <div className="p-8 text-center">
+            <p className="text-muted-foreground">No API clients yet</p>
+          </div>
+        ) : (
+          clients.map((client) => {
+            const percent = Math.min(100, (client.usage.used / Math.max(client.rateLimitPerHour, 1)) * 100);
+            const exhausted = client.usage.remaining === 0;
+
+            return (
+              <div key={client.id} className="p-4 space-y-2" data-testid={`client-usage-${client.id}`}>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-foreground">{client.name}</span>
+                      {!client.active && <Badge variant="outline">Disabled</Badge>}
+                      {exhausted && <Badge variant="destructive">Quota exhausted</Badge>}
+                    </div>
+                    <code className="text-xs text-muted-foreground font-mono truncate block">{client.apiKey}</code>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <span className="text-sm font-mono font-semibold text-foreground">
+                      {client.usage.used.toLocaleString()} / {client.rateLimitPerHour.toLocaleString()}
+                    </span>
+                    <p className="text-xs text-muted-foreground">
+                      Resets {new Date(client.usage.resetAt).toLocaleTimeString()}
+                    </p>
+                  </div>
+                </div>
+                <Progress value={percent} className="h-2" />
+              </div>
+            );
+          })
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,163 @@
+import { useMutation } from '@tanstack/react-query';
+import type { AttemptLabel, ReasonCode, ReasonComponent, TokenOutcome } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+export interface AttemptDetail {
+  id: string;
+  success: boolean;
+  score: number;
+  createdAt: string;
+  flaggedSuspicious: boolean;
+  challengeId: string;
+  siteKey: string | null;
+  behaviorScore: number | null;
+  semanticScore: number | null;
+  deviceTrustScore: number | null;
+  environmentScore: number | null;
+  replayHits: number;
+  reasonCodes: ReasonCode[];
+  reviewLabel: AttemptLabel | null;
+  tokenOutcome: TokenOutcome | null;
+}
+
+interface AttemptDetailDrawerProps {
+  attempt: AttemptDetail | null;
+  onOpenChange: (open: boolean) => void;
+  onReviewed: (label: AttemptLabel | null) => void;
+}
+
+const COMPONENT_LABELS: Record<ReasonComponent, string> = {
+  telemetry: 'Telemetry',
+  ai: 'AI model',
+  anomaly: 'Anomaly detection',
+  heuristics: 'Heuristics',
+  behavior: 'Behavior',
+  semantic: 'Challenge answer',
+  device: 'Device trust',
+  environment: 'Environment',
+};
+
+export function AttemptDetailDrawer({ attempt, onOpenChange, onReviewed }: AttemptDetailDrawerProps) {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+
+  // Reviewed attempts become training labels for the bot classifier
+  const reviewMutation = useMutation({
+    mutationFn: async (label: AttemptLabel | null) => {
+      return apiRequest<{ reviewLabel: AttemptLabel | null }>('PUT', `/api/admin/attempts/${attempt!.id}/review`, { label });
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/stats'] });
+      onReviewed(data.reviewLabel);
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to review attempt',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const components = (Object.keys(COMPONENT_LABELS) as ReasonComponent[])
+    .map(component => ({
+      component,
+      reasons: attempt?.reasonCodes.filter(r => r.component === component) ?? [],
+    }))
+    .filter(group => group.reasons.length > 0);
+
+  return (
+    <Sheet open={attempt !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        {attempt && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{attempt.success ? 'Successful' : 'Failed'} verification</SheetTitle>
+              <SheetDescription>
+                {new Date(attempt.createdAt).toLocaleString()} · score {attempt.score}%
+              </SheetDescription>
+            </SheetHeader>
+
+            <dl className="mt-6 grid grid-cols-2 gap-y-2 text-sm">
+              <dt className="text-muted-foreground">Challenge</dt>
+              <dd className="font-mono text-xs break-all" data-testid="attempt-detail-challenge">{attempt.challengeId}</dd>
+              <dt className="text-muted-foreground">Site key</dt>
+              <dd className="font-mono text-xs break-all">{attempt.siteKey ?? '—'}</dd>
+              <dt className="text-muted-foreground">Behavior</dt>
+              <dd>{attempt.behaviorScore ?? '—'}</dd>
+              <dt className="text-muted-foreground">Challenge answer</dt>
+              <dd>{attempt.semanticScore ?? '—'}</dd>
+              <dt className="text-muted-foreground">Device trust</dt>
+              <dd>{attempt.deviceTrustScore ?? '—'}</dd>
+              <dt className="text-muted-foreground">Environment</dt>
+              <dd>{attempt.environmentScore ?? '—'}</dd>
+              <dt className="text-muted-foreground">Trajectory replays</dt>
+              <dd>{attempt.replayHits}</dd>
+              <dt className="text-muted-foreground">Token</dt>
+              <dd>{attempt.tokenOutcome ?? '—'}</dd>
+              <dt className="text-muted-foreground">Review</dt>
+              <dd data-testid="attempt-detail-review">{attempt.reviewLabel ?? 'Not reviewed'}</dd>
+            </dl>
+
+            <div className="mt-4 flex gap-2">
+              {(['human', 'bot'] as const).map(label => (
+                <Button
+                  key={label}
+                  size="sm"
+                  variant={attempt.reviewLabel === label ? 'default' : 'outline'}
+                  disabled={!hasRole('admin') || reviewMutation.isPending}
+                  onClick={() => reviewMutation.mutate(attempt.reviewLabel === label ? null : label)}
+                  data-testid={`button-review-${label}`}
+                >
+                  {attempt.reviewLabel === label ? `Marked ${label}` : `Mark ${label}`}
+                </Button>
+              ))}
+            </div>
+
+            <div className="mt-8 space-y-6">
+              {components.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No reason codes were recorded for this attempt.</p>
+              ) : (
+                components.map(({ component, reasons }) => (
+                  <div key={component}>
+                    <h3 className="text-sm font-semibold text-foreground mb-2">{COMPONENT_LABELS[component]}</h3>
+                    <ul className="divide-y divide-border rounded-md border border-border">
+                      {reasons.map((reason, index) => (
+                        <li
+                          key={`${reason.code}-${index}`}
+                          className="flex items-center justify-between px-3 py-2"
+                          data-testid={`reason-${component}-${reason.code}`}
+                        >
+                          <span className="font-mono text-xs text-foreground">{reason.code}</span>
+                          <span className={`font-mono text-xs font-semibold ${
+                            reason.points > 0
+                              ? 'text-primary'
+                              : reason.points < 0
+                                ? 'text-destructive'
+                                : 'text-muted-foreground'
+                          }`}>
+                            {reason.points > 0 ? `+${reason.points}` : reason.points}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
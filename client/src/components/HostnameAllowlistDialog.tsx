@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+interface HostnameAllowlistDialogProps {
+  siteKey: string;
+  siteName: string;
+  allowedHostnames: string[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function HostnameAllowlistDialog({
+  siteKey,
+  siteName,
+  allowedHostnames,
+  open,
+  onOpenChange,
+}: HostnameAllowlistDialogProps) {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const [text, setText] = useState(allowedHostnames.join('\n'));
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const hostnames = text.split(/[\s,]+/).map(h => h.trim()).filter(Boolean);
+      return apiRequest<{ allowedHostnames: string[] }>('PUT', `/api/keys/${siteKey}/hostnames`, {
+        allowedHostnames: hostnames,
+      });
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/keys'] });
+      setText(data.allowedHostnames.join('\n'));
+      toast({
+        title: 'Hostnames Saved',
+        description: data.allowedHostnames.length > 0
+          ? `${siteName} now only works on ${data.allowedHostnames.length} hostname(s).`
+          : `${siteName} now works on any hostname.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save hostnames',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Allowed Hostnames</DialogTitle>
+          <DialogDescription>
+            {siteName} · the widget only loads on these hostnames. Use *.example.com for subdomains; leave empty to allow any.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div>
+          <Label htmlFor="allowed-hostnames" className="text-sm font-semibold text-foreground mb-2 block">
+            One hostname per line
+          </Label>
+          <Textarea
+            id="allowed-hostnames"
+            rows={6}
+            placeholder={'example.com\n*.example.com'}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            disabled={!hasRole('admin')}
+            className="font-mono text-sm"
+            data-testid="input-allowed-hostnames"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!hasRole('admin') || saveMutation.isPending}
+            data-testid="button-save-hostnames"
+          >
+            Save Hostnames
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
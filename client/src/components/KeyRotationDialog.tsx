@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+interface SiteKeyVersion {
+  id: string;
+  version: number;
+  kid: string;
+  status: 'active' | 'retired';
+  verifying: boolean;
+  createdAt: string;
+  retiredAt: string | null;
+  validUntil: string | null;
+}
+
+interface RotateResult {
+  kid: string;
+  version: number;
+  previousKid: string | null;
+  previousValidUntil: string | null;
+}
+
+interface KeyRotationDialogProps {
+  siteKey: string;
+  siteName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function KeyRotationDialog({ siteKey, siteName, open, onOpenChange }: KeyRotationDialogProps) {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const [graceMinutes, setGraceMinutes] = useState(60);
+
+  const { data: versions, isLoading } = useQuery<SiteKeyVersion[]>({
+    queryKey: ['/api/keys', siteKey, 'versions'],
+    enabled: open,
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest<RotateResult>('POST', `/api/keys/${siteKey}/rotate`, {
+        gracePeriodSeconds: Math.round(graceMinutes * 60),
+      });
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/keys'] });
+      toast({
+        title: 'Key Rotated',
+        description: data.previousValidUntil
+          ? `Version ${data.version} is now signing. The previous key verifies until ${new Date(data.previousValidUntil).toLocaleString()}.`
+          : `Version ${data.version} is now signing.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to rotate key',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Signing Key Rotation</DialogTitle>
+          <DialogDescription>
+            {siteName} · tokens are signed with the active key; retired keys keep verifying until their grace period ends.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <section>
+            <Label htmlFor="grace-minutes" className="text-sm font-semibold text-foreground mb-2 block">
+              Grace period for the current key (minutes)
+            </Label>
+            <Input
+              id="grace-minutes"
+              type="number"
+              min="0"
+              max={7 * 24 * 60}
+              value={graceMinutes}
+              onChange={(e) => setGraceMinutes(Number(e.target.value))}
+              data-testid="input-grace-minutes"
+            />
+          </section>
+
+          <section>
+            <h4 className="text-sm font-semibold text-foreground mb-3">History</h4>
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Loading versions...</p>
+            ) : versions && versions.length > 0 ? (
+              <div className="space-y-2">
+                {versions.map(v => (
+                  <div
+                    key={v.id}
+                    className="flex items-center justify-between gap-4 bg-muted/50 p-3 rounded-md"
+                    data-testid={`row-key-version-${v.version}`}
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium text-foreground">v{v.version}</span>
+                        <Badge variant={v.status === 'active' ? 'default' : v.verifying ? 'secondary' : 'outline'}>
+                          {v.status === 'active' ? 'Active' : v.verifying ? 'Grace period' : 'Retired'}
+                        </Badge>
+                      </div>
+                      <code className="text-xs text-muted-foreground font-mono truncate block">{v.kid}</code>
+                    </div>
+                    <div className="text-xs text-muted-foreground text-right shrink-0">
+                      <div>Created {new Date(v.createdAt).toLocaleString()}</div>
+                      {v.validUntil && <div>Verifies until {new Date(v.validUntil).toLocaleString()}</div>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No rotation history yet.</p>
+            )}
+          </section>
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={() => rotateMutation.mutate()}
+            disabled={!hasRole('admin') || rotateMutation.isPending || graceMinutes < 0}
+            data-testid="button-rotate-key"
+          >
+            Rotate Signing Key
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,26 @@
+import { LogOut } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/use-auth';
+
+export function OperatorMenu() {
+  const { operator, organization, logout } = useAuth();
+
+  if (!operator) return null;
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-sm text-muted-foreground hidden sm:inline" data-testid="text-operator-name">
+        {operator.name}
+      </span>
+      {organization && (
+        <Badge variant="outline" className="capitalize" data-testid="badge-operator-role">
+          {organization.role}
+        </Badge>
+      )}
+      <Button variant="ghost" size="sm" onClick={logout} data-testid="button-logout">
+        <LogOut className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Building2, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { applySessionState, useAuth, type AuthState } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+export function OrganizationSwitcher() {
+  const { operator, organization, organizations, switchOrganization } = useAuth();
+  const { toast } = useToast();
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState('');
+
+  const createMutation = useMutation({
+    mutationFn: async (orgName: string) => {
+      return apiRequest<AuthState>('POST', '/api/organizations', { name: orgName });
+    },
+    onSuccess: (state) => {
+      applySessionState(state);
+      setCreating(false);
+      setName('');
+      toast({ title: 'Organization Created', description: `Switched to ${state.organization?.name}.` });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to create organization',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (!operator) return null;
+
+  // Only instance owners can create organizations
+  const canCreate = operator.role === 'owner';
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select value={organization?.id ?? ''} onValueChange={switchOrganization}>
+        <SelectTrigger className="h-9 w-[180px]" data-testid="select-organization">
+          <Building2 className="w-4 h-4 mr-2 shrink-0" />
+          <SelectValue placeholder="No organization" />
+        </SelectTrigger>
+        <SelectContent>
+          {organizations.map(org => (
+            <SelectItem key={org.id} value={org.id} data-testid={`option-organization-${org.id}`}>
+              {org.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {canCreate && (
+        <Button variant="ghost" size="sm" onClick={() => setCreating(true)} data-testid="button-new-organization">
+          <Plus className="w-4 h-4" />
+        </Button>
+      )}
+
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>New Organization</DialogTitle>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="organization-name" className="text-sm font-medium mb-2 block">
+              Name
+            </Label>
+            <Input
+              id="organization-name"
+              placeholder="Checkout Team"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              data-testid="input-organization-name"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => name.trim() && createMutation.mutate(name.trim())}
+              disabled={!name.trim() || createMutation.isPending}
+              data-testid="button-create-organization"
+            >
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
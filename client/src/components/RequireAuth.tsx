@@ -0,0 +1,33 @@
+import type { ReactNode } from 'react';
+import { Redirect, useLocation } from 'wouter';
+import type { OperatorRole } from '@shared/schema';
+import { PageLoader } from '@/components/PageLoader';
+import { useAuth } from '@/hooks/use-auth';
+
+interface RequireAuthProps {
+  minRole?: OperatorRole;
+  children: ReactNode;
+}
+
+export function RequireAuth({ minRole = 'viewer', children }: RequireAuthProps) {
+  const [location] = useLocation();
+  const { operator, isLoading, hasRole } = useAuth();
+
+  if (isLoading) {
+    return <PageLoader />;
+  }
+
+  if (!operator) {
+    return <Redirect to={`/login?next=${encodeURIComponent(location)}`} />;
+  }
+
+  if (!hasRole(minRole)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <p className="text-muted-foreground">You don't have permission to view this page.</p>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
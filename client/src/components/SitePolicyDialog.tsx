@@ -0,0 +1,346 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import type {
+  ChallengeType,
+  RateLimitAlgorithm,
+  RateLimitRule,
+  SitePolicyThresholds,
+  SitePolicyWeights,
+  SiteRateLimits,
+} from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+export interface SitePolicy {
+  siteKey: string;
+  weights: SitePolicyWeights;
+  thresholds: SitePolicyThresholds;
+  allowedChallengeTypes: ChallengeType[];
+  tokenTtlSeconds: number;
+  rateLimits: SiteRateLimits;
+  isDefault: boolean;
+}
+
+interface SitePolicyDialogProps {
+  siteKey: string;
+  siteName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const WEIGHT_LABELS: Record<keyof SitePolicyWeights, string> = {
+  images: 'Image challenge',
+  jigsaw: 'Jigsaw challenge',
+  turnstile: 'Checkbox risk (Turnstile)',
+  checkbox: 'Checkbox session',
+};
+
+const THRESHOLD_LABELS: Record<keyof SitePolicyThresholds, string> = {
+  pass: 'Pass without challenge',
+  escalate: 'Escalate to challenge',
+  images: 'Image challenge pass',
+  jigsaw: 'Jigsaw challenge pass',
+  checkbox: 'Checkbox session pass',
+};
+
+const CHALLENGE_LABELS: Record<ChallengeType, string> = {
+  images: 'Image selection',
+  jigsaw: 'Jigsaw puzzle',
+  pow: 'Proof of work (no interaction)',
+};
+
+const RATE_LIMIT_LABELS: Record<keyof SiteRateLimits, string> = {
+  start: 'Challenge start / checkbox init',
+  solve: 'Challenge solve / checkbox verify',
+  turnstile: 'Checkbox risk check',
+  verify: 'Token verification',
+};
+
+const NEW_RATE_LIMIT_RULE: RateLimitRule = { algorithm: 'sliding-window', limit: 10, windowMs: 60000 };
+
+export function SitePolicyDialog({ siteKey, siteName, open, onOpenChange }: SitePolicyDialogProps) {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canEdit = hasRole('admin');
+  const [draft, setDraft] = useState<SitePolicy | null>(null);
+
+  const { data: policy, isLoading } = useQuery<SitePolicy>({
+    queryKey: ['/api/keys', siteKey, 'policy'],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (policy) setDraft(policy);
+  }, [policy]);
+
+  const onSaved = (data: SitePolicy, title: string) => {
+    queryClient.setQueryData(['/api/keys', siteKey, 'policy'], data);
+    setDraft(data);
+    toast({ title, description: `Scoring policy for ${siteName} updated.` });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: 'Error',
+      description: error.message || 'Failed to update policy',
+      variant: 'destructive',
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: SitePolicy) => {
+      const { weights, thresholds, allowedChallengeTypes, tokenTtlSeconds, rateLimits } = next;
+      return apiRequest<SitePolicy>('PUT', `/api/keys/${siteKey}/policy`, {
+        weights,
+        thresholds,
+        allowedChallengeTypes,
+        tokenTtlSeconds,
+        rateLimits,
+      });
+    },
+    onSuccess: (data) => onSaved(data, 'Policy Saved'),
+    onError,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => apiRequest<SitePolicy>('DELETE', `/api/keys/${siteKey}/policy`),
+    onSuccess: (data) => onSaved(data, 'Policy Reset'),
+    onError,
+  });
+
+  const setWeight = (flow: keyof SitePolicyWeights, signal: string, value: string) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      weights: {
+        ...draft.weights,
+        [flow]: { ...draft.weights[flow], [signal]: Number(value) },
+      },
+    });
+  };
+
+  const setThreshold = (name: keyof SitePolicyThresholds, value: string) => {
+    if (!draft) return;
+    setDraft({ ...draft, thresholds: { ...draft.thresholds, [name]: Number(value) } });
+  };
+
+  const toggleChallengeType = (type: ChallengeType, enabled: boolean) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      allowedChallengeTypes: enabled
+        ? Array.from(new Set([...draft.allowedChallengeTypes, type]))
+        : draft.allowedChallengeTypes.filter(t => t !== type),
+    });
+  };
+
+  // Undefined removes the site's override so the instance-wide rule applies
+  const setRateLimit = (action: keyof SiteRateLimits, rule: RateLimitRule | undefined) => {
+    if (!draft) return;
+    const { [action]: _previous, ...rest } = draft.rateLimits;
+    setDraft({ ...draft, rateLimits: rule ? { ...rest, [action]: rule } : rest });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Scoring Policy</DialogTitle>
+          <DialogDescription>
+            {siteName} {draft?.isDefault && '· using default policy'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !draft ? (
+          <p className="text-sm text-muted-foreground">Loading policy...</p>
+        ) : (
+          <div className="space-y-6">
+            <section>
+              <h4 className="text-sm font-semibold text-foreground mb-2">Fusion Weights</h4>
+              <p className="text-xs text-muted-foreground mb-3">Each row must add up to 1.</p>
+              <div className="space-y-3">
+                {(Object.keys(WEIGHT_LABELS) as (keyof SitePolicyWeights)[]).map(flow => (
+                  <div key={flow}>
+                    <Label className="text-xs font-medium text-muted-foreground mb-1 block">
+                      {WEIGHT_LABELS[flow]}
+                    </Label>
+                    <div className="flex gap-2">
+                      {Object.entries(draft.weights[flow]).map(([signal, value]) => (
+                        <div key={signal} className="flex-1">
+                          <Input
+                            type="number"
+                            step="0.05"
+                            min="0"
+                            max="1"
+                            value={value}
+                            onChange={(e) => setWeight(flow, signal, e.target.value)}
+                            data-testid={`input-weight-${flow}-${signal}`}
+                          />
+                          <span className="text-xs text-muted-foreground">{signal}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <section>
+              <h4 className="text-sm font-semibold text-foreground mb-3">Thresholds</h4>
+              <div className="grid grid-cols-2 gap-3">
+                {(Object.keys(THRESHOLD_LABELS) as (keyof SitePolicyThresholds)[]).map(name => (
+                  <div key={name}>
+                    <Label htmlFor={`threshold-${name}`} className="text-xs font-medium text-muted-foreground mb-1 block">
+                      {THRESHOLD_LABELS[name]}
+                    </Label>
+                    <Input
+                      id={`threshold-${name}`}
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={draft.thresholds[name]}
+                      onChange={(e) => setThreshold(name, e.target.value)}
+                      data-testid={`input-threshold-${name}`}
+                    />
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <section className="grid grid-cols-2 gap-3">
+              <div>
+                <h4 className="text-sm font-semibold text-foreground mb-3">Allowed Challenges</h4>
+                <div className="space-y-2">
+                  {(Object.keys(CHALLENGE_LABELS) as ChallengeType[]).map(type => (
+                    <div key={type} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`challenge-${type}`}
+                        checked={draft.allowedChallengeTypes.includes(type)}
+                        onCheckedChange={(checked) => toggleChallengeType(type, checked === true)}
+                        data-testid={`checkbox-challenge-${type}`}
+                      />
+                      <Label htmlFor={`challenge-${type}`} className="text-sm">{CHALLENGE_LABELS[type]}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="token-ttl" className="text-sm font-semibold text-foreground mb-3 block">
+                  Token TTL (seconds)
+                </Label>
+                <Input
+                  id="token-ttl"
+                  type="number"
+                  min="30"
+                  max="3600"
+                  value={draft.tokenTtlSeconds}
+                  onChange={(e) => setDraft({ ...draft, tokenTtlSeconds: Number(e.target.value) })}
+                  data-testid="input-token-ttl"
+                />
+              </div>
+            </section>
+
+            <section>
+              <h4 className="text-sm font-semibold text-foreground mb-2">Rate Limits</h4>
+              <p className="text-xs text-muted-foreground mb-3">
+                Per client IP (IPv6 per /64). Actions without an override use the instance-wide limits.
+              </p>
+              <div className="space-y-3">
+                {(Object.keys(RATE_LIMIT_LABELS) as (keyof SiteRateLimits)[]).map(action => {
+                  const rule = draft.rateLimits[action];
+                  return (
+                    <div key={action}>
+                      <div className="flex items-center gap-2 mb-1">
+                        <Checkbox
+                          id={`rate-limit-${action}`}
+                          checked={!!rule}
+                          onCheckedChange={(checked) => setRateLimit(action, checked === true ? NEW_RATE_LIMIT_RULE : undefined)}
+                          data-testid={`checkbox-rate-limit-${action}`}
+                        />
+                        <Label htmlFor={`rate-limit-${action}`} className="text-sm">{RATE_LIMIT_LABELS[action]}</Label>
+                      </div>
+                      {rule && (
+                        <div className="flex gap-2 pl-6">
+                          <Select
+                            value={rule.algorithm}
+                            onValueChange={(algorithm) => setRateLimit(action, { ...rule, algorithm: algorithm as RateLimitAlgorithm })}
+                          >
+                            <SelectTrigger className="flex-1" data-testid={`select-rate-limit-algorithm-${action}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="sliding-window">Sliding window</SelectItem>
+                              <SelectItem value="token-bucket">Token bucket</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <div className="flex-1">
+                            <Input
+                              type="number"
+                              min="1"
+                              value={rule.limit}
+                              onChange={(e) => setRateLimit(action, { ...rule, limit: Number(e.target.value) })}
+                              data-testid={`input-rate-limit-limit-${action}`}
+                            />
+                            <span className="text-xs text-muted-foreground">requests</span>
+                          </div>
+                          <div className="flex-1">
+                            <Input
+                              type="number"
+                              min="1"
+                              value={rule.windowMs / 1000}
+                              onChange={(e) => setRateLimit(action, { ...rule, windowMs: Math.round(Number(e.target.value) * 1000) })}
+                              data-testid={`input-rate-limit-window-${action}`}
+                            />
+                            <span className="text-xs text-muted-foreground">seconds</span>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => resetMutation.mutate()}
+            disabled={!canEdit || !draft || draft.isDefault || resetMutation.isPending}
+            data-testid="button-reset-policy"
+          >
+            Reset to Defaults
+          </Button>
+          <Button
+            onClick={() => draft && saveMutation.mutate(draft)}
+            disabled={!canEdit || !draft || saveMutation.isPending}
+            data-testid="button-save-policy"
+          >
+            Save Policy
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,6 +3,8 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { RefreshCw, Volume2, HelpCircle, Check, ChevronDown } from 'lucide-react';
 import { useMutation } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
+import { useBehaviorTracking } from '@/hooks/useBehaviorTracking';
+import { useTelemetrySession } from '@/hooks/useTelemetrySession';
 
 interface ImageGridCaptchaProps {
   onSuccess?: (verifyToken: string) => void;
@@ -23,10 +25,14 @@ export function ImageGridCaptcha({ onSuccess, onError, siteKey = 'demo_site_key'
   const [selectedIndices, setSelectedIndices] = useState<Set<number>>(new Set());
   const [challenge, setChallenge] = useState<ChallengeData | null>(null);
   const [showTooltip, setShowTooltip] = useState(false);
+  const { generateBehaviorVector } = useBehaviorTracking(state === 'challenge');
+  const { seal: sealTelemetry, reset: resetTelemetry } = useTelemetrySession(siteKey);
 
   // Start challenge mutation
   const startMutation = useMutation({
     mutationFn: async () => {
+      // Every challenge gets a telemetry session of its own
+      resetTelemetry();
       return apiRequest<ChallengeData>('POST', '/api/incaptcha/start', { siteKey });
     },
     onSuccess: (data) => {
@@ -44,7 +50,7 @@ export function ImageGridCaptcha({ onSuccess, onError, siteKey = 'demo_site_key'
     mutationFn: async (data: { challengeId: string; challengeToken: string; selectedIndices: number[] }) => {
       return apiRequest<{ success: boolean; verifyToken?: string; score?: number }>('POST', '/api/incaptcha/solve', {
         ...data,
-        behaviorVector: {},
+        telemetry: await sealTelemetry(generateBehaviorVector()),
       });
     },
     onSuccess: (data) => {
@@ -7,9 +7,11 @@ import { ImageSelectMode } from './ImageSelectMode';
 import { PuzzleMode } from './PuzzleMode';
 import { SuccessAnimation } from './SuccessAnimation';
 import { useBehaviorTracking } from '@/hooks/useBehaviorTracking';
+import { useTelemetrySession } from '@/hooks/useTelemetrySession';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
+import type { BehaviorVector } from 'incaptch';
 
 interface InCaptchaWidgetProps {
   siteKey: string;
@@ -50,11 +52,14 @@ export function InCaptchaWidget({
   const [errorMessage, setErrorMessage] = useState('');
   const [successScore, setSuccessScore] = useState(0);
   const [challenge, setChallenge] = useState<ChallengeData | null>(null);
-  const { behaviorVector, generateBehaviorVector } = useBehaviorTracking(state === 'challenge');
+  const { generateBehaviorVector } = useBehaviorTracking(state === 'challenge');
+  const { seal: sealTelemetry, reset: resetTelemetry } = useTelemetrySession(siteKey);
 
   // Start challenge mutation
   const startMutation = useMutation({
     mutationFn: async () => {
+      // Every challenge gets a telemetry session of its own
+      resetTelemetry();
       return apiRequest<ChallengeData>('POST', '/api/incaptcha/start', {
         siteKey,
         theme,
@@ -71,13 +76,16 @@ export function InCaptchaWidget({
 
   // Solve mutation
   const solveMutation = useMutation({
-    mutationFn: async (data: {
+    mutationFn: async ({ behaviorVector, ...data }: {
       challengeId: string;
       challengeToken: string;
       selectedIndices: number[];
-      behaviorVector: number[];
+      behaviorVector: BehaviorVector;
     }) => {
-      return apiRequest<SolveResponse>('POST', '/api/incaptcha/solve', data);
+      return apiRequest<SolveResponse>('POST', '/api/incaptcha/solve', {
+        ...data,
+        telemetry: await sealTelemetry(behaviorVector),
+      });
     },
     onSuccess: (data) => {
       if (data.success && data.verifyToken) {
@@ -3,60 +3,10 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Check, Loader2, AlertCircle } from 'lucide-react';
 import { useMutation } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
-import { EnhancedPuzzleMode } from './EnhancedPuzzleMode';
-
-// Mock hook for behavior tracking, to be replaced with actual implementation
-const useBehaviorTracking = () => {
-  const mouseTrajectory = useRef<MouseSample[]>([]);
-  const hoverStartTime = useRef<number>(0);
-  const pageLoadTime = useRef<number>(Date.now());
-  const lastScrollY = useRef<number>(window.scrollY);
-  const lastScrollTime = useRef<number>(Date.now());
-
-  const startTracking = useCallback(() => {
-    // In a real scenario, this would add event listeners for mouse, scroll, etc.
-    // For this example, we'll assume these are managed elsewhere or by the component itself
-  }, []);
-
-  const generateBehaviorVector = useCallback((): BehaviorVector => {
-    const now = Date.now();
-    const scrollVelocity = lastScrollTime.current > 0 
-      ? (window.scrollY - lastScrollY.current) / ((now - lastScrollTime.current) / 1000)
-      : 0;
-
-    // Calculate average mouse velocity
-    let totalVelocity = 0;
-    for (let i = 1; i < mouseTrajectory.current.length; i++) {
-      const prev = mouseTrajectory.current[i - 1];
-      const curr = mouseTrajectory.current[i];
-      const dx = curr.x - prev.x;
-      const dy = curr.y - prev.y;
-      const dt = (curr.t - prev.t) / 1000; // seconds
-      if (dt > 0) {
-        const velocity = Math.sqrt(dx * dx + dy * dy) / dt;
-        totalVelocity += velocity;
-      }
-    }
-    const avgVelocity = mouseTrajectory.current.length > 1 
-      ? totalVelocity / (mouseTrajectory.current.length - 1) 
-      : 0;
-
-    return {
-      mouseTrajectory: mouseTrajectory.current.slice(-20), // Last 20 samples
-      clickLatency: now - pageLoadTime.current,
-      hoverDuration: hoverStartTime.current > 0 ? now - hoverStartTime.current : 0,
-      mouseVelocity: avgVelocity,
-      timestamp: now,
-      scrollBehavior: {
-        scrollY: window.scrollY,
-        scrollVelocity: scrollVelocity
-      }
-    };
-  }, []);
-
-  return { startTracking, generateBehaviorVector };
-};
-
+import { solvePowChallenge, type PowChallenge } from '@/lib/pow';
+import { useTelemetrySession } from '@/hooks/useTelemetrySession';
+import { InputDynamicsCollector, type BehaviorVector } from 'incaptch';
+import { EnhancedPuzzleMode, type JigsawRenderData, type JigsawSolution } from './EnhancedPuzzleMode';
 
 interface MouseSample {
   t: number;
@@ -64,15 +14,6 @@ interface MouseSample {
   y: number;
 }
 
-interface BehaviorVector {
-  mouseTrajectory: MouseSample[];
-  clickLatency: number;
-  hoverDuration: number;
-  mouseVelocity: number;
-  timestamp: number;
-  scrollBehavior: { scrollY: number; scrollVelocity: number };
-}
-
 interface TurnstileCheckboxProps {
   onSuccess?: (verifyToken: string) => void;
   onError?: (error: string) => void;
@@ -90,6 +31,10 @@ export function TurnstileCheckbox({ onSuccess, onError, siteKey = 'demo_site_key
   const checkboxRef = useRef<HTMLDivElement>(null);
   const lastScrollY = useRef<number>(window.scrollY);
   const lastScrollTime = useRef<number>(Date.now());
+  // Pointer type, touch, keyboard and visibility dynamics, so touch and keyboard
+  // activations are not judged by a mouse trajectory they never produce
+  const inputDynamics = useRef(new InputDynamicsCollector());
+  const { seal: sealTelemetry, reset: resetTelemetry } = useTelemetrySession(siteKey);
 
   // Calculate behavioral metrics
   const getBehaviorVector = useCallback((): BehaviorVector => {
@@ -124,13 +69,45 @@ export function TurnstileCheckbox({ onSuccess, onError, siteKey = 'demo_site_key
       scrollBehavior: {
         scrollY: window.scrollY,
         scrollVelocity: scrollVelocity
-      }
+      },
+      ...inputDynamics.current.getDynamics(),
     };
   }, []);
 
+  const failAndReset = useCallback((message: string) => {
+    setState('error');
+    onError?.(message);
+    // Auto-reset to idle after 2 seconds
+    resetTimerRef.current = window.setTimeout(() => {
+      setState('idle');
+    }, 2000);
+  }, [onError]);
+
+  // Solve a proof-of-work escalation in a worker while the checkbox keeps spinning
+  const handlePowChallenge = useCallback(async (challengeId: string, challengeToken: string, pow: PowChallenge) => {
+    try {
+      const nonce = await solvePowChallenge(pow);
+      const response = await apiRequest<{ success: boolean; verifyToken?: string; message?: string }>('POST', '/api/incaptcha/solve', {
+        challengeId,
+        challengeToken,
+        nonce,
+        telemetry: await sealTelemetry(getBehaviorVector()),
+      });
+
+      if (response.success && response.verifyToken) {
+        setState('success');
+        onSuccess?.(response.verifyToken);
+      } else {
+        failAndReset(response.message || 'Verification failed');
+      }
+    } catch (error) {
+      failAndReset('Verification failed');
+    }
+  }, [getBehaviorVector, sealTelemetry, onSuccess, failAndReset]);
+
   // Verification mutation with challenge escalation
   const verifyMutation = useMutation({
-    mutationFn: async (behaviorData: any) => {
+    mutationFn: async ({ behaviorData, preferredChallenge }: { behaviorData: BehaviorVector; preferredChallenge?: 'pow' }) => {
       return apiRequest<{ 
         success: boolean; 
         verifyToken?: string; 
@@ -139,20 +116,26 @@ export function TurnstileCheckbox({ onSuccess, onError, siteKey = 'demo_site_key
         challengeType?: string;
         challengeId?: string;
         challengeToken?: string;
+        puzzle?: JigsawRenderData;
+        pow?: PowChallenge;
         riskScore?: number;
       }>('POST', '/api/incaptcha/turnstile/verify', {
         siteKey,
-        behaviorVector: behaviorData,
+        telemetry: await sealTelemetry(behaviorData),
+        preferredChallenge,
       });
     },
     onSuccess: (data) => {
-      if (data.requiresChallenge && data.challengeType === 'jigsaw') {
+      if (data.requiresChallenge && data.challengeType === 'pow' && data.pow && data.challengeId && data.challengeToken) {
+        handlePowChallenge(data.challengeId, data.challengeToken, data.pow);
+      } else if (data.requiresChallenge && data.challengeType === 'jigsaw' && data.puzzle) {
         // Escalate to jigsaw puzzle challenge
         setState('challenge');
         // Store challenge data for puzzle component
         (window as any).__jigsawChallengeData = {
           challengeId: data.challengeId,
           challengeToken: data.challengeToken,
+          puzzle: data.puzzle,
           riskScore: data.riskScore,
         };
       } else if (data.success && data.verifyToken) {
@@ -160,21 +143,11 @@ export function TurnstileCheckbox({ onSuccess, onError, siteKey = 'demo_site_key
         console.log('Verification successful! Token:', data.verifyToken);
         onSuccess?.(data.verifyToken);
       } else {
-        setState('error');
-        onError?.('Verification failed');
-        // Auto-reset to idle after 2 seconds
-        resetTimerRef.current = window.setTimeout(() => {
-          setState('idle');
-        }, 2000);
+        failAndReset('Verification failed');
       }
     },
     onError: () => {
-      setState('error');
-      onError?.('Verification request failed');
-      // Auto-reset to idle after 2 seconds
-      resetTimerRef.current = window.setTimeout(() => {
-        setState('idle');
-      }, 2000);
+      failAndReset('Verification request failed');
     },
   });
 
@@ -213,6 +186,12 @@ export function TurnstileCheckbox({ onSuccess, onError, siteKey = 'demo_site_key
     return () => window.removeEventListener('scroll', handleScroll);
   }, []);
 
+  useEffect(() => {
+    const dynamics = inputDynamics.current;
+    dynamics.start();
+    return () => dynamics.stop();
+  }, []);
+
   // Cleanup timer on unmount
   useEffect(() => {
     return () => {
@@ -223,19 +202,18 @@ export function TurnstileCheckbox({ onSuccess, onError, siteKey = 'demo_site_key
   }, []);
 
   // Handle jigsaw puzzle completion
-  const handleJigsawComplete = useCallback(async (accuracy: number) => {
+  const handleJigsawComplete = useCallback(async (solution: JigsawSolution) => {
     const challengeData = (window as any).__jigsawChallengeData;
     if (!challengeData) return;
 
     try {
-      // Convert accuracy (0-1 range) to a score multiplier
-      const accuracyScore = Math.round(accuracy * 100);
-      
+      // Submit raw drop coordinates and drag trace; the server scores them
       const response = await apiRequest<{ success: boolean; verifyToken?: string; score?: number; message?: string }>('POST', '/api/incaptcha/solve', {
         challengeId: challengeData.challengeId,
         challengeToken: challengeData.challengeToken,
-        selectedIndices: [accuracyScore],
-        behaviorVector: getBehaviorVector(),
+        selectedIndices: [],
+        solution,
+        telemetry: await sealTelemetry(getBehaviorVector()),
       });
 
       if (response.success && response.verifyToken) {
@@ -259,30 +237,38 @@ export function TurnstileCheckbox({ onSuccess, onError, siteKey = 'demo_site_key
         delete (window as any).__jigsawChallengeData;
       }, 2000);
     }
-  }, [getBehaviorVector, onSuccess, onError]);
+  }, [getBehaviorVector, sealTelemetry, onSuccess, onError]);
 
-  const handleClick = useCallback(() => {
+  const handleClick = useCallback((e: React.MouseEvent<HTMLButtonElement>) => {
     if (state !== 'idle') return;
 
+    // detail is 0 for keyboard / assistive technology activation; ask for a
+    // proof-of-work challenge instead of a puzzle the user may not be able to do
+    const preferredChallenge = e.detail === 0 ? 'pow' as const : undefined;
+
     // Clear any existing timer
     if (resetTimerRef.current) {
       window.clearTimeout(resetTimerRef.current);
     }
 
+    // Each attempt seals its telemetry under a session of its own
+    resetTelemetry();
+
     // Show prechecked state immediately
     setState('prechecked');
 
     // After 150ms, transition to verifying and start mutation
     setTimeout(() => {
       setState('verifying');
-      verifyMutation.mutate(getBehaviorVector()); // Pass behavior vector to mutation
+      verifyMutation.mutate({ behaviorData: getBehaviorVector(), preferredChallenge });
     }, 150);
-  }, [state, verifyMutation, getBehaviorVector]);
+  }, [state, verifyMutation, getBehaviorVector, resetTelemetry]);
 
   // Show jigsaw puzzle if challenge required
   if (state === 'challenge') {
     return (
       <EnhancedPuzzleMode
+        puzzle={(window as any).__jigsawChallengeData.puzzle}
         onComplete={handleJigsawComplete}
         onRefresh={() => {
           setState('idle');
@@ -0,0 +1,77 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import type { OperatorRole } from '@shared/schema';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+export interface CurrentOperator {
+  id: string;
+  email: string;
+  name: string;
+  role: OperatorRole;
+  active: boolean;
+  createdAt: string;
+  lastLoginAt: string | null;
+}
+
+export interface OperatorOrganization {
+  id: string;
+  name: string;
+  role: OperatorRole;
+}
+
+export interface AuthState {
+  operator: CurrentOperator | null;
+  organization: OperatorOrganization | null;
+  organizations: OperatorOrganization[];
+  setupRequired: boolean;
+}
+
+const ROLE_RANK: Record<OperatorRole, number> = {
+  viewer: 0,
+  admin: 1,
+  owner: 2,
+};
+
+/**
+ * Store a session payload and refetch everything scoped to the previous organization
+ */
+export function applySessionState(state: AuthState) {
+  queryClient.setQueryData(['/api/auth/me'], state);
+  queryClient.resetQueries({ predicate: (query) => query.queryKey[0] !== '/api/auth/me' });
+}
+
+export function useAuth() {
+  const { data, isLoading } = useQuery<AuthState>({
+    queryKey: ['/api/auth/me'],
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', '/api/auth/logout'),
+    onSuccess: () => {
+      // Drop every cached management response along with the session
+      queryClient.clear();
+      queryClient.setQueryData(['/api/auth/me'], { operator: null, organization: null, organizations: [], setupRequired: false });
+    },
+  });
+
+  const switchMutation = useMutation({
+    mutationFn: async (organizationId: string) => {
+      return apiRequest<AuthState>('PUT', '/api/auth/organization', { organizationId });
+    },
+    onSuccess: (state) => applySessionState(state),
+  });
+
+  const operator = data?.operator ?? null;
+  const organization = data?.organization ?? null;
+
+  return {
+    operator,
+    organization,
+    organizations: data?.organizations ?? [],
+    setupRequired: data?.setupRequired ?? false,
+    isLoading,
+    // Roles apply within the active organization
+    hasRole: (minRole: OperatorRole) => !!organization && ROLE_RANK[organization.role] >= ROLE_RANK[minRole],
+    switchOrganization: (organizationId: string) => switchMutation.mutate(organizationId),
+    logout: () => logoutMutation.mutate(),
+  };
+}
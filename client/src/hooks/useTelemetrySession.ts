@@ -0,0 +1,32 @@
+import { useCallback, useRef } from 'react';
+import { TelemetrySession, collectEnvironmentReport, type BehaviorVector, type SealedTelemetry } from 'incaptch';
+
+/**
+ * Seal behavior vectors for the verify and solve endpoints. The telemetry
+ * session is opened at /api/captcha/checkbox/init on first use and shared by
+ * every request in one verification, including the challenge that may follow;
+ * reset() starts a fresh one for the next attempt.
+ */
+export function useTelemetrySession(siteKey: string) {
+  const sessionRef = useRef<Promise<TelemetrySession> | null>(null);
+
+  const seal = useCallback(async (behaviorVector: BehaviorVector): Promise<SealedTelemetry> => {
+    if (!sessionRef.current) {
+      const opening = TelemetrySession.open(window.location.origin, siteKey);
+      sessionRef.current = opening;
+      // A failed exchange is retried on the next request instead of being cached
+      opening.catch(() => {
+        if (sessionRef.current === opening) sessionRef.current = null;
+      });
+    }
+
+    const session = await sessionRef.current;
+    return session.seal(behaviorVector, await collectEnvironmentReport());
+  }, [siteKey]);
+
+  const reset = useCallback(() => {
+    sessionRef.current = null;
+  }, []);
+
+  return { seal, reset };
+}
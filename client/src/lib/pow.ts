@@ -0,0 +1,69 @@
+// Proof-of-work solver (mirrors packages/incaptch/src/pow.ts)
+// Runs in a Web Worker so hashing never blocks the page.
+
+export interface PowChallenge {
+  algorithm: 'SHA-256';
+  salt: string;
+  difficulty: number;
+}
+
+const WORKER_SOURCE = `
+self.onmessage = async (event) => {
+  const { salt, difficulty } = event.data;
+  const encoder = new TextEncoder();
+
+  for (let counter = 0; ; counter++) {
+    const nonce = counter.toString(36);
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(salt + ':' + nonce)));
+
+    let bits = 0;
+    for (let i = 0; i < digest.length; i++) {
+      if (digest[i] === 0) {
+        bits += 8;
+        continue;
+      }
+      bits += Math.clz32(digest[i]) - 24;
+      break;
+    }
+
+    if (bits >= difficulty) {
+      self.postMessage({ nonce });
+      return;
+    }
+  }
+};
+`;
+
+/**
+ * Find a nonce for a proof-of-work challenge
+ * @returns The nonce to submit to /api/incaptcha/solve
+ */
+export function solvePowChallenge(challenge: PowChallenge, timeoutMs: number = 60000): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+    const worker = new Worker(url);
+
+    const cleanup = () => {
+      window.clearTimeout(timer);
+      worker.terminate();
+      URL.revokeObjectURL(url);
+    };
+
+    const timer = window.setTimeout(() => {
+      cleanup();
+      reject(new Error('Proof-of-work timed out'));
+    }, timeoutMs);
+
+    worker.onmessage = (event: MessageEvent<{ nonce: string }>) => {
+      cleanup();
+      resolve(event.data.nonce);
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      cleanup();
+      reject(new Error(event.message || 'Proof-of-work worker failed'));
+    };
+
+    worker.postMessage({ salt: challenge.salt, difficulty: challenge.difficulty });
+  });
+}
@@ -1,6 +1,11 @@
+import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
 import { ThemeToggle } from '@/components/ThemeToggle';
+import { OperatorMenu } from '@/components/OperatorMenu';
+import { OrganizationSwitcher } from '@/components/OrganizationSwitcher';
+import { ApiClientUsage } from '@/components/ApiClientUsage';
+import { AttemptDetailDrawer, type AttemptDetail } from '@/components/AttemptDetailDrawer';
 import { useTheme } from '@/contexts/ThemeContext';
 import { Card } from '@/components/ui/card';
 import { Link } from 'wouter';
@@ -14,17 +19,12 @@ interface AdminStats {
   failedVerifications: number;
   suspiciousAttempts: number;
   averageScore: number;
-  recentAttempts: Array<{
-    id: string;
-    success: boolean;
-    score: number;
-    createdAt: string;
-    flaggedSuspicious: boolean;
-  }>;
+  recentAttempts: AttemptDetail[];
 }
 
 export default function Admin() {
   const { theme } = useTheme();
+  const [selectedAttempt, setSelectedAttempt] = useState<AttemptDetail | null>(null);
 
   // Fetch admin stats
   const { data: stats, isLoading } = useQuery<AdminStats>({
@@ -54,7 +54,11 @@ export default function Admin() {
                 </Button>
               </Link>
             </div>
-            <ThemeToggle />
+            <div className="flex items-center gap-2">
+              <OrganizationSwitcher />
+              <OperatorMenu />
+              <ThemeToggle />
+            </div>
           </div>
         </div>
       </header>
@@ -146,7 +150,8 @@ export default function Admin() {
                       key={attempt.id}
                       initial={{ opacity: 0 }}
                       animate={{ opacity: 1 }}
-                      className="p-4 flex items-center justify-between hover-elevate"
+                      className="p-4 flex items-center justify-between hover-elevate cursor-pointer"
+                      onClick={() => setSelectedAttempt(attempt)}
                       data-testid={`attempt-${attempt.id}`}
                     >
                       <div className="flex items-center gap-4">
@@ -165,6 +170,14 @@ export default function Admin() {
                                 Suspicious
                               </span>
                             )}
+                            {attempt.replayHits > 0 && (
+                              <span
+                                className="px-2 py-0.5 bg-destructive/10 text-destructive text-xs rounded-full font-mono"
+                                data-testid={`reason-trajectory_replay-${attempt.id}`}
+                              >
+                                trajectory_replay ×{attempt.replayHits}
+                              </span>
+                            )}
                           </div>
                           <p className="text-xs text-muted-foreground">
                             {new Date(attempt.createdAt).toLocaleString()}
@@ -181,6 +194,21 @@ export default function Admin() {
                 )}
               </div>
             </Card>
+
+            <AttemptDetailDrawer
+              attempt={selectedAttempt}
+              onOpenChange={(open) => !open && setSelectedAttempt(null)}
+              onReviewed={(reviewLabel) => setSelectedAttempt(attempt => attempt && { ...attempt, reviewLabel })}
+            />
+
+            {/* API Client Quotas */}
+            <ApiClientUsage
+              className={`mt-8 ${
+                theme === 'macos'
+                  ? 'bg-card/80 backdrop-blur-xl border-card-border shadow-lg'
+                  : 'bg-card border-card-border'
+              }`}
+            />
           </>
         ) : (
           <Card className="p-8 text-center">
@@ -2,13 +2,19 @@ import { useState } from 'react';
 import { useMutation, useQuery } from '@tanstack/react-query';
 import { Link } from 'wouter';
 import { ThemeToggle } from '@/components/ThemeToggle';
+import { OperatorMenu } from '@/components/OperatorMenu';
+import { OrganizationSwitcher } from '@/components/OrganizationSwitcher';
+import { HostnameAllowlistDialog } from '@/components/HostnameAllowlistDialog';
+import { KeyRotationDialog } from '@/components/KeyRotationDialog';
+import { SitePolicyDialog } from '@/components/SitePolicyDialog';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
-import { Key, Copy, Plus, Trash2, Eye, EyeOff, AlertCircle } from 'lucide-react';
+import { Key, Copy, Plus, Trash2, Eye, EyeOff, AlertCircle, SlidersHorizontal, RotateCw, Globe } from 'lucide-react';
 import { motion } from 'framer-motion';
 
 interface ApiKey {
@@ -16,6 +22,7 @@ interface ApiKey {
   name: string;
   key: string;
   publicKey: string;
+  allowedHostnames: string[];
   createdAt: string;
   active: boolean;
 }
@@ -23,7 +30,12 @@ interface ApiKey {
 export default function Keys() {
   const [newKeyName, setNewKeyName] = useState('');
   const [showKeys, setShowKeys] = useState<Record<string, boolean>>({});
+  const [policyKey, setPolicyKey] = useState<ApiKey | null>(null);
+  const [rotationKey, setRotationKey] = useState<ApiKey | null>(null);
+  const [hostnamesKey, setHostnamesKey] = useState<ApiKey | null>(null);
   const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canManage = hasRole('admin');
 
   const { data: keys, isLoading } = useQuery<ApiKey[]>({
     queryKey: ['/api/keys'],
@@ -125,6 +137,8 @@ export default function Keys() {
             </div>
             
             <div className="flex items-center gap-2">
+              <OrganizationSwitcher />
+              <OperatorMenu />
               <ThemeToggle />
             </div>
           </div>
@@ -140,45 +154,47 @@ export default function Keys() {
         </div>
 
         {/* Create New Key */}
-        <Card className="p-6 mb-8">
-          <div className="flex items-start gap-4">
-            <div className="p-3 bg-primary/10 rounded-lg">
-              <Key className="w-6 h-6 text-primary" />
-            </div>
-            <div className="flex-1">
-              <h2 className="text-xl font-semibold text-foreground mb-2">
-                Create New API Key
-              </h2>
-              <p className="text-sm text-muted-foreground mb-4">
-                Generate a new site key for your application. Keep your secret key secure.
-              </p>
-              <div className="flex gap-3">
-                <div className="flex-1 max-w-md">
-                  <Label htmlFor="key-name" className="text-sm font-medium mb-2 block">
-                    Key Name
-                  </Label>
-                  <Input
-                    id="key-name"
-                    placeholder="Production Website"
-                    value={newKeyName}
-                    onChange={(e) => setNewKeyName(e.target.value)}
-                    data-testid="input-key-name"
-                  />
-                </div>
-                <div className="flex items-end">
-                  <Button
-                    onClick={() => newKeyName && createKeyMutation.mutate(newKeyName)}
-                    disabled={!newKeyName || createKeyMutation.isPending}
-                    data-testid="button-create-key"
-                  >
-                    <Plus className="w-4 h-4 mr-2" />
-                    Create Key
-                  </Button>
+        {canManage && (
+          <Card className="p-6 mb-8">
+            <div className="flex items-start gap-4">
+              <div className="p-3 bg-primary/10 rounded-lg">
+                <Key className="w-6 h-6 text-primary" />
+              </div>
+              <div className="flex-1">
+                <h2 className="text-xl font-semibold text-foreground mb-2">
+                  Create New API Key
+                </h2>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Generate a new site key for your application. Keep your secret key secure.
+                </p>
+                <div className="flex gap-3">
+                  <div className="flex-1 max-w-md">
+                    <Label htmlFor="key-name" className="text-sm font-medium mb-2 block">
+                      Key Name
+                    </Label>
+                    <Input
+                      id="key-name"
+                      placeholder="Production Website"
+                      value={newKeyName}
+                      onChange={(e) => setNewKeyName(e.target.value)}
+                      data-testid="input-key-name"
+                    />
+                  </div>
+                  <div className="flex items-end">
+                    <Button
+                      onClick={() => newKeyName && createKeyMutation.mutate(newKeyName)}
+                      disabled={!newKeyName || createKeyMutation.isPending}
+                      data-testid="button-create-key"
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Create Key
+                    </Button>
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
-        </Card>
+          </Card>
+        )}
 
         {/* API Keys List */}
         <div className="space-y-4">
@@ -268,15 +284,42 @@ export default function Keys() {
                         </div>
                       </div>
 
-                      <Button
-                        variant="outline"
-                        size="icon"
-                        onClick={() => deleteKeyMutation.mutate(key.id)}
-                        disabled={deleteKeyMutation.isPending}
-                        data-testid={`button-delete-key-${key.id}`}
-                      >
-                        <Trash2 className="w-4 h-4 text-destructive" />
-                      </Button>
+                      <div className="flex flex-col gap-2">
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setPolicyKey(key)}
+                          data-testid={`button-policy-key-${key.id}`}
+                        >
+                          <SlidersHorizontal className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setHostnamesKey(key)}
+                          data-testid={`button-hostnames-key-${key.id}`}
+                        >
+                          <Globe className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setRotationKey(key)}
+                          disabled={!canManage}
+                          data-testid={`button-rotate-key-${key.id}`}
+                        >
+                          <RotateCw className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => deleteKeyMutation.mutate(key.id)}
+                          disabled={!canManage || deleteKeyMutation.isPending}
+                          data-testid={`button-delete-key-${key.id}`}
+                        >
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </div>
                     </div>
                   </Card>
                 </motion.div>
@@ -294,13 +337,15 @@ export default function Keys() {
                 <p className="text-muted-foreground mb-4">
                   Create your first API key to start integrating InCaptcha into your application.
                 </p>
-                <Button
-                  onClick={() => document.getElementById('key-name')?.focus()}
-                  data-testid="button-create-first-key"
-                >
-                  <Plus className="w-4 h-4 mr-2" />
-                  Create Your First Key
-                </Button>
+                {canManage && (
+                  <Button
+                    onClick={() => document.getElementById('key-name')?.focus()}
+                    data-testid="button-create-first-key"
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Create Your First Key
+                  </Button>
+                )}
               </div>
             </Card>
           )}
@@ -341,6 +386,34 @@ export default function Keys() {
           </div>
         </Card>
       </main>
+
+      {policyKey && (
+        <SitePolicyDialog
+          siteKey={policyKey.key}
+          siteName={policyKey.name}
+          open={!!policyKey}
+          onOpenChange={(open) => !open && setPolicyKey(null)}
+        />
+      )}
+
+      {rotationKey && (
+        <KeyRotationDialog
+          siteKey={rotationKey.key}
+          siteName={rotationKey.name}
+          open={!!rotationKey}
+          onOpenChange={(open) => !open && setRotationKey(null)}
+        />
+      )}
+
+      {hostnamesKey && (
+        <HostnameAllowlistDialog
+          siteKey={hostnamesKey.key}
+          siteName={hostnamesKey.name}
+          allowedHostnames={hostnamesKey.allowedHostnames}
+          open={!!hostnamesKey}
+          onOpenChange={(open) => !open && setHostnamesKey(null)}
+        />
+      )}
     </div>
   );
 }
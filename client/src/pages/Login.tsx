@@ -0,0 +1,186 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { Redirect, useSearch } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { PageLoader } from "@/components/PageLoader";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { applySessionState, useAuth, type AuthState } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2, Shield } from "lucide-react";
+
+const loginSchema = z.object({
+  organizationName: z.string().optional(),
+  name: z.string().optional(),
+  email: z.string().email("Invalid email address"),
+  password: z.string().min(1, "Password is required"),
+});
+
+const setupSchema = z.object({
+  organizationName: z.string().max(100).optional(),
+  name: z.string().min(1, "Name is required").max(100),
+  email: z.string().email("Invalid email address"),
+  password: z.string().min(10, "Password must be at least 10 characters"),
+});
+
+type AuthFormValues = z.infer<typeof loginSchema>;
+
+// Only follow same-origin paths from ?next=
+function getNextPath(search: string): string {
+  const next = new URLSearchParams(search).get("next");
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/admin";
+}
+
+function AuthForm({ setupRequired }: { setupRequired: boolean }) {
+  const { toast } = useToast();
+
+  const form = useForm<AuthFormValues>({
+    resolver: zodResolver(setupRequired ? setupSchema : loginSchema),
+    defaultValues: { organizationName: "", name: "", email: "", password: "" },
+  });
+
+  const authMutation = useMutation({
+    mutationFn: async (values: AuthFormValues) => {
+      return apiRequest<AuthState>(
+        "POST",
+        setupRequired ? "/api/auth/setup" : "/api/auth/login",
+        setupRequired ? values : { email: values.email, password: values.password },
+      );
+    },
+    onSuccess: (state) => applySessionState(state),
+    onError: (error: any) => {
+      toast({
+        title: setupRequired ? "Setup Failed" : "Sign In Failed",
+        description: error.message || "Please check your details and try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((values) => authMutation.mutate(values))} className="space-y-4">
+        {setupRequired && (
+          <FormField
+            control={form.control}
+            name="organizationName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Organization</FormLabel>
+                <FormControl>
+                  <Input {...field} placeholder="Default" autoComplete="organization" data-testid="input-organization" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+        {setupRequired && (
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input {...field} autoComplete="name" data-testid="input-name" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input {...field} type="email" autoComplete="email" data-testid="input-email" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input
+                  {...field}
+                  type="password"
+                  autoComplete={setupRequired ? "new-password" : "current-password"}
+                  data-testid="input-password"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={authMutation.isPending} data-testid="button-submit-login">
+          {authMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {setupRequired ? "Create Account" : "Sign In"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function Login() {
+  const search = useSearch();
+  const { operator, setupRequired, isLoading } = useAuth();
+
+  if (isLoading) {
+    return <PageLoader />;
+  }
+
+  if (operator) {
+    return <Redirect to={getNextPath(search)} />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="border-b border-border">
+        <div className="max-w-7xl mx-auto px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Shield className="w-5 h-5 text-primary" />
+            <span className="font-semibold text-foreground">InCaptcha Dashboard</span>
+          </div>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <main className="flex-1 flex items-center justify-center px-6">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>{setupRequired ? "Create Owner Account" : "Sign In"}</CardTitle>
+            <CardDescription>
+              {setupRequired
+                ? "No operators exist yet. The first account becomes the owner."
+                : "Sign in to manage site keys, policies and API clients."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AuthForm setupRequired={setupRequired} />
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
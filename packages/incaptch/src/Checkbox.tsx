@@ -1,32 +1,46 @@
-import React, { StrictMode, useState, useCallback, useEffect, useRef } from 'react';
-import { createRoot } from 'react-dom/client';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { showJigsawChallenge } from './JigsawChallenge';
+import { verifyWithEscalation, VerificationFailedError } from './verify';
+import { InputDynamicsCollector } from './inputDynamics';
+import type { BehaviorVector, MouseSample } from './types';
 
-interface MouseSample {
-  t: number;
-  x: number;
-  y: number;
+// Lets the widget frame start a verification without a click
+export interface WidgetHandle {
+  execute: () => Promise<string>;
 }
 
-interface BehaviorVector {
-  mouseTrajectory: MouseSample[];
-  clickLatency: number;
-  hoverDuration: number;
-  mouseVelocity: number;
-  timestamp: number;
-  scrollBehavior: { scrollY: number; scrollVelocity: number };
-}
-
-interface CheckboxWidgetProps {
+export interface CheckboxProps {
   siteKey: string;
   onVerify?: (token: string) => void;
   onError?: (error: string) => void;
+  onReady?: (handle: WidgetHandle) => void;
   theme?: 'light' | 'dark';
   apiBaseUrl?: string;
+  action?: string;
+  cData?: string;
+  // Origin of the page embedding the widget frame
+  embedOrigin?: string;
+  // Where a jigsaw escalation is shown; a page-level modal when omitted
+  challengeContainer?: HTMLElement;
 }
 
-function CheckboxComponent({ siteKey, onVerify, onError, theme = 'light', apiBaseUrl = '' }: CheckboxWidgetProps) {
+// Rendered inside the widget iframe (frame.tsx); host pages embed it through CheckboxWidget
+export function Checkbox({
+  siteKey,
+  onVerify,
+  onError,
+  onReady,
+  theme = 'light',
+  apiBaseUrl = '',
+  action,
+  cData,
+  embedOrigin,
+  challengeContainer,
+}: CheckboxProps) {
   const [state, setState] = useState<'idle' | 'prechecked' | 'verifying' | 'success' | 'error'>('idle');
   const resetTimerRef = useRef<number | null>(null);
+  const pendingRef = useRef<Promise<string> | null>(null);
+  const tokenRef = useRef<string | null>(null);
 
   // Behavioral tracking state
   const mouseTrajectory = useRef<MouseSample[]>([]);
@@ -34,6 +48,8 @@ function CheckboxComponent({ siteKey, onVerify, onError, theme = 'light', apiBas
   const pageLoadTime = useRef<number>(Date.now());
   const lastScrollY = useRef<number>(window.scrollY);
   const lastScrollTime = useRef<number>(Date.now());
+  // Touch, keyboard and visibility dynamics across the whole frame
+  const inputDynamics = useRef(new InputDynamicsCollector());
 
   const getBehaviorVector = useCallback((): BehaviorVector => {
     const now = Date.now();
@@ -66,7 +82,8 @@ function CheckboxComponent({ siteKey, onVerify, onError, theme = 'light', apiBas
       scrollBehavior: {
         scrollY: window.scrollY,
         scrollVelocity: scrollVelocity
-      }
+      },
+      ...inputDynamics.current.getDynamics(),
     };
   }, []);
 
@@ -102,6 +119,12 @@ function CheckboxComponent({ siteKey, onVerify, onError, theme = 'light', apiBas
     return () => window.removeEventListener('scroll', handleScroll);
   }, []);
 
+  useEffect(() => {
+    const collector = inputDynamics.current;
+    collector.start();
+    return () => collector.stop();
+  }, []);
+
   useEffect(() => {
     return () => {
       if (resetTimerRef.current) {
@@ -110,8 +133,9 @@ function CheckboxComponent({ siteKey, onVerify, onError, theme = 'light', apiBas
     };
   }, []);
 
-  const handleClick = useCallback(() => {
-    if (state !== 'idle') return;
+  const verify = useCallback((preferredChallenge?: 'pow'): Promise<string> => {
+    if (tokenRef.current) return Promise.resolve(tokenRef.current);
+    if (pendingRef.current) return pendingRef.current;
 
     if (resetTimerRef.current) {
       window.clearTimeout(resetTimerRef.current);
@@ -119,40 +143,58 @@ function CheckboxComponent({ siteKey, onVerify, onError, theme = 'light', apiBas
 
     setState('prechecked');
 
-    setTimeout(async () => {
-      setState('verifying');
-      
-      try {
-        const response = await fetch(`${apiBaseUrl}/api/incaptcha/turnstile/verify`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            siteKey,
-            behaviorVector: getBehaviorVector()
-          })
-        });
+    const pending = new Promise<string>((resolve, reject) => {
+      setTimeout(async () => {
+        setState('verifying');
 
-        const data = await response.json();
-
-        if (data.success && data.verifyToken) {
-          setState('success');
-          onVerify?.(data.verifyToken);
-        } else {
+        const fail = (message: string) => {
           setState('error');
-          onError?.('Verification failed');
+          onError?.(message);
+          reject(new Error(message));
           resetTimerRef.current = window.setTimeout(() => {
             setState('idle');
           }, 2000);
+        };
+
+        try {
+          const token = await verifyWithEscalation({
+            apiBaseUrl,
+            siteKey,
+            action,
+            cData,
+            embedOrigin,
+            preferredChallenge,
+            getBehaviorVector,
+            solveJigsaw: (puzzle) => showJigsawChallenge(puzzle, { theme, container: challengeContainer })
+          });
+          tokenRef.current = token;
+          setState('success');
+          onVerify?.(token);
+          resolve(token);
+        } catch (error) {
+          fail(error instanceof VerificationFailedError ? 'Verification failed' : 'Network error');
         }
-      } catch (error) {
-        setState('error');
-        onError?.('Network error');
-        resetTimerRef.current = window.setTimeout(() => {
-          setState('idle');
-        }, 2000);
-      }
-    }, 150);
-  }, [state, siteKey, apiBaseUrl, getBehaviorVector, onVerify, onError]);
+      }, 150);
+    });
+
+    pendingRef.current = pending;
+    pending.catch(() => {}).finally(() => {
+      pendingRef.current = null;
+    });
+    return pending;
+  }, [siteKey, apiBaseUrl, action, cData, embedOrigin, theme, challengeContainer, getBehaviorVector, onVerify, onError]);
+
+  const handleClick = useCallback((e: React.MouseEvent<HTMLButtonElement>) => {
+    if (state !== 'idle') return;
+
+    // detail is 0 for keyboard / assistive technology activation; ask for a
+    // proof-of-work challenge instead of a puzzle the user may not be able to do
+    verify(e.detail === 0 ? 'pow' : undefined).catch(() => {});
+  }, [state, verify]);
+
+  useEffect(() => {
+    onReady?.({ execute: () => verify() });
+  }, [onReady, verify]);
 
   const isDark = theme === 'dark';
 
@@ -209,7 +251,7 @@ function CheckboxComponent({ siteKey, onVerify, onError, theme = 'light', apiBas
             </div>
 
             <img 
-              src="/incaptcha.png" 
+              src={`${apiBaseUrl}/incaptcha.png`} 
               alt="InCaptcha" 
               style={{ height: '32px', width: 'auto' }}
             />
@@ -237,37 +279,3 @@ function CheckboxComponent({ siteKey, onVerify, onError, theme = 'light', apiBas
     </div>
   );
 }
-
-export class CheckboxWidget {
-  private container: HTMLElement | null = null;
-  private root: any = null;
-
-  constructor(
-    elementId: string,
-    options: CheckboxWidgetProps
-  ) {
-    this.container = document.getElementById(elementId);
-    
-    if (!this.container) {
-      throw new Error(`Element with id "${elementId}" not found`);
-    }
-
-    this.root = createRoot(this.container);
-    this.render(options);
-  }
-
-  private render(options: CheckboxWidgetProps) {
-    this.root.render(
-      <StrictMode>
-        <CheckboxComponent {...options} />
-      </StrictMode>
-    );
-  }
-
-  destroy() {
-    if (this.root) {
-      this.root.unmount();
-      this.root = null;
-    }
-  }
-}
@@ -0,0 +1,151 @@
+import { createMessage, readMessage, type FrameEvent } from './protocol';
+
+// Checkbox widget (iframe parent)
+// The checkbox itself runs in an iframe served from the InCaptcha origin
+// (/widget), so the embedding page cannot read its state, synthesize events on
+// it or tamper with its behavior telemetry. This class only places the frame
+// and relays the protocol messages in protocol.ts.
+
+const DEFAULT_WIDTH = 302;
+const DEFAULT_HEIGHT = 108;
+
+interface CheckboxWidgetOptions {
+  siteKey: string;
+  onVerify?: (token: string) => void;
+  onError?: (error: string) => void;
+  onExpire?: () => void;
+  theme?: 'light' | 'dark';
+  apiBaseUrl?: string;
+  action?: string;
+  cData?: string;
+}
+
+export class CheckboxWidget {
+  private container: HTMLElement | null = null;
+  private iframe: HTMLIFrameElement | null = null;
+  private options: CheckboxWidgetOptions;
+  private frameOrigin: string;
+  private widgetId = Math.random().toString(36).slice(2);
+  private token: string | undefined;
+  private ready: Promise<void>;
+  private resolveReady!: () => void;
+  private pending: { promise: Promise<string>; resolve: (token: string) => void; reject: (error: Error) => void } | null = null;
+
+  constructor(
+    element: string | HTMLElement,
+    options: CheckboxWidgetOptions
+  ) {
+    this.container = typeof element === 'string' ? document.getElementById(element) : element;
+
+    if (!this.container) {
+      throw new Error(`Element with id "${element}" not found`);
+    }
+
+    this.options = options;
+    this.frameOrigin = new URL(options.apiBaseUrl || window.location.origin, window.location.href).origin;
+    this.ready = new Promise(resolve => {
+      this.resolveReady = resolve;
+    });
+
+    const params = new URLSearchParams({
+      sitekey: options.siteKey,
+      origin: window.location.origin,
+      id: this.widgetId,
+      theme: options.theme ?? 'light',
+    });
+    if (options.action) params.set('action', options.action);
+    if (options.cData) params.set('cData', options.cData);
+
+    window.addEventListener('message', this.onMessage);
+
+    this.iframe = document.createElement('iframe');
+    this.iframe.src = `${this.frameOrigin}/widget?${params}`;
+    this.iframe.title = 'InCaptcha verification';
+    this.iframe.style.cssText = `border:0;width:${DEFAULT_WIDTH}px;height:${DEFAULT_HEIGHT}px;color-scheme:normal;overflow:hidden`;
+    this.container.appendChild(this.iframe);
+  }
+
+  /**
+   * Run the verification without waiting for a click
+   * @returns The verify token
+   */
+  async execute(): Promise<string> {
+    if (this.token) return this.token;
+    if (this.pending) return this.pending.promise;
+
+    let resolve!: (token: string) => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<string>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    this.pending = { promise, resolve, reject };
+
+    await this.ready;
+    this.post({ type: 'execute' });
+    return promise;
+  }
+
+  /**
+   * The token from the last successful verification, if any
+   */
+  getResponse(): string | undefined {
+    return this.token;
+  }
+
+  /**
+   * Clear the token and show a fresh, unchecked widget
+   */
+  reset() {
+    if (!this.iframe) return;
+    this.token = undefined;
+    this.pending?.reject(new Error('Widget was reset'));
+    this.pending = null;
+    this.ready.then(() => this.post({ type: 'reset' }));
+  }
+
+  destroy() {
+    window.removeEventListener('message', this.onMessage);
+    this.pending?.reject(new Error('Widget was destroyed'));
+    this.pending = null;
+    if (this.iframe) {
+      this.iframe.remove();
+      this.iframe = null;
+    }
+    this.token = undefined;
+  }
+
+  private post(command: { type: 'execute' } | { type: 'reset' }) {
+    this.iframe?.contentWindow?.postMessage(createMessage(this.widgetId, command), this.frameOrigin);
+  }
+
+  private readonly onMessage = (event: MessageEvent) => {
+    const message = readMessage<FrameEvent>(event, this.frameOrigin, this.iframe?.contentWindow ?? null, this.widgetId);
+    if (!message) return;
+
+    switch (message.type) {
+      case 'ready':
+        this.resolveReady();
+        break;
+      case 'resize':
+        this.iframe!.style.width = `${message.width}px`;
+        this.iframe!.style.height = `${message.height}px`;
+        break;
+      case 'token':
+        this.token = message.token;
+        this.pending?.resolve(message.token);
+        this.pending = null;
+        this.options.onVerify?.(message.token);
+        break;
+      case 'expired':
+        this.token = undefined;
+        this.options.onExpire?.();
+        break;
+      case 'error':
+        this.pending?.reject(new Error(message.error));
+        this.pending = null;
+        this.options.onError?.(message.error);
+        break;
+    }
+  };
+}
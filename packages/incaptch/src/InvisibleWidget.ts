@@ -0,0 +1,61 @@
+import { BehaviorCollector } from './behavior';
+import { showJigsawChallenge } from './JigsawChallenge';
+import { verifyWithEscalation } from './verify';
+import type { InvisibleOptions } from './types';
+
+// Invisible widget
+// No checkbox on the page: behavior is collected passively from the moment the
+// widget is created, and execute() verifies on demand. Low-risk visitors get a
+// token without seeing anything; the jigsaw only appears on escalation.
+
+// One page-wide collector shared by every invisible widget
+let collector: BehaviorCollector | null = null;
+let activeWidgets = 0;
+
+export class InvisibleWidget {
+  private options: InvisibleOptions;
+  private destroyed = false;
+
+  constructor(options: InvisibleOptions) {
+    if (!options?.siteKey) {
+      throw new Error('InCaptcha: siteKey is required');
+    }
+    this.options = options;
+
+    collector ??= new BehaviorCollector();
+    collector.start();
+    activeWidgets++;
+  }
+
+  /**
+   * Verify the visitor, showing a puzzle only if the server asks for one
+   * @param action - Bound into the token; checked with expectedAction on verify
+   * @returns A fresh single-use verify token
+   */
+  async execute(action?: string): Promise<string> {
+    if (this.destroyed || !collector) {
+      throw new Error('InCaptcha: widget has been destroyed');
+    }
+
+    const { siteKey, apiBaseUrl = '', cData, theme } = this.options;
+    const behavior = collector;
+    return verifyWithEscalation({
+      apiBaseUrl,
+      siteKey,
+      action,
+      cData,
+      getBehaviorVector: () => behavior.getBehaviorVector(),
+      solveJigsaw: (puzzle) => showJigsawChallenge(puzzle, { theme }),
+    });
+  }
+
+  destroy() {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    activeWidgets--;
+    if (activeWidgets === 0 && collector) {
+      collector.stop();
+      collector = null;
+    }
+  }
+}
@@ -0,0 +1,296 @@
+import React, { StrictMode, useCallback, useEffect, useRef, useState } from 'react';
+import { createRoot } from 'react-dom/client';
+import type { JigsawPiece, JigsawRenderData, JigsawSolution } from './types';
+
+// Jigsaw challenge modal
+// Shown when a widget is escalated to a jigsaw. Dependency-free port of the
+// app's puzzle: pointer events for dragging, inline styles, rendered in a
+// closed shadow root so the surrounding page's CSS cannot reach it. The gaps
+// only exist in the server-drawn background, so pieces never snap: the visitor
+// drops them and submits, and the server judges the drops.
+
+type JigsawEdges = JigsawPiece['edges'];
+
+interface PieceState {
+  id: number;
+  x: number;
+  y: number;
+  edges: JigsawEdges;
+  moved: boolean;
+}
+
+interface JigsawChallengeProps {
+  puzzle: JigsawRenderData;
+  theme?: 'light' | 'dark';
+  onComplete: (solution: JigsawSolution) => void;
+  onCancel: () => void;
+}
+
+// Trace a jigsaw outline centred on the current origin
+function traceJigsawPath(ctx: CanvasRenderingContext2D, size: number, edges: JigsawEdges) {
+  const tabSize = size * 0.22;
+  const halfSize = size / 2;
+  const tabDepth = tabSize * 0.6;
+
+  ctx.beginPath();
+  ctx.moveTo(-halfSize, -halfSize);
+
+  if (edges.top !== 'flat') {
+    ctx.lineTo(-tabSize, -halfSize);
+    if (edges.top === 'tab') {
+      ctx.arc(0, -halfSize - tabDepth, tabDepth, Math.PI, 0, true);
+    } else {
+      ctx.arc(0, -halfSize + tabDepth, tabDepth, -Math.PI, 0);
+    }
+    ctx.lineTo(tabSize, -halfSize);
+  }
+  ctx.lineTo(halfSize, -halfSize);
+
+  if (edges.right !== 'flat') {
+    ctx.lineTo(halfSize, -tabSize);
+    if (edges.right === 'tab') {
+      ctx.arc(halfSize + tabDepth, 0, tabDepth, -Math.PI / 2, Math.PI / 2);
+    } else {
+      ctx.arc(halfSize - tabDepth, 0, tabDepth, -Math.PI / 2, Math.PI / 2, true);
+    }
+    ctx.lineTo(halfSize, tabSize);
+  }
+  ctx.lineTo(halfSize, halfSize);
+
+  if (edges.bottom !== 'flat') {
+    ctx.lineTo(tabSize, halfSize);
+    if (edges.bottom === 'tab') {
+      ctx.arc(0, halfSize + tabDepth, tabDepth, 0, Math.PI);
+    } else {
+      ctx.arc(0, halfSize - tabDepth, tabDepth, 0, -Math.PI, true);
+    }
+    ctx.lineTo(-tabSize, halfSize);
+  }
+  ctx.lineTo(-halfSize, halfSize);
+
+  if (edges.left !== 'flat') {
+    ctx.lineTo(-halfSize, tabSize);
+    if (edges.left === 'tab') {
+      ctx.arc(-halfSize - tabDepth, 0, tabDepth, Math.PI / 2, -Math.PI / 2);
+    } else {
+      ctx.arc(-halfSize + tabDepth, 0, tabDepth, Math.PI / 2, -Math.PI / 2, true);
+    }
+    ctx.lineTo(-halfSize, -tabSize);
+  }
+  ctx.lineTo(-halfSize, -halfSize);
+  ctx.closePath();
+}
+
+function initialPieces(puzzle: JigsawRenderData): PieceState[] {
+  return puzzle.pieces.map((piece) => ({
+    id: piece.id,
+    x: piece.startX,
+    y: piece.startY,
+    edges: piece.edges,
+    moved: false,
+  }));
+}
+
+function JigsawChallenge({ puzzle, theme = 'light', onComplete, onCancel }: JigsawChallengeProps) {
+  const { canvasSize, pieceSize } = puzzle;
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pieces, setPieces] = useState<PieceState[]>(() => initialPieces(puzzle));
+  const dragRef = useRef<{ pieceId: number; offsetX: number; offsetY: number } | null>(null);
+  const completedRef = useRef(false);
+
+  // Raw drops (before snapping) and drag samples reported to the server
+  const placementsRef = useRef<Record<number, { x: number; y: number }>>({});
+  const dragTraceRef = useRef<JigsawSolution['dragTrace']>([]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvasSize, canvasSize);
+
+    for (const piece of pieces) {
+      const dragging = dragRef.current?.pieceId === piece.id;
+      ctx.save();
+      ctx.translate(piece.x + pieceSize / 2, piece.y + pieceSize / 2);
+      traceJigsawPath(ctx, pieceSize, piece.edges);
+      ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
+      ctx.shadowBlur = dragging ? 15 : 8;
+      ctx.fillStyle = dragging ? 'rgba(50, 50, 55, 1)' : 'rgba(35, 35, 40, 0.98)';
+      ctx.fill();
+      ctx.shadowColor = 'transparent';
+      ctx.strokeStyle = 'rgba(100, 100, 110, 0.9)';
+      ctx.lineWidth = 1.5;
+      ctx.stroke();
+      ctx.restore();
+    }
+  }, [pieces, canvasSize, pieceSize]);
+
+  const handleSubmit = () => {
+    if (completedRef.current) return;
+    completedRef.current = true;
+    onComplete({
+      placements: Object.entries(placementsRef.current).map(([pieceId, drop]) => ({
+        pieceId: Number(pieceId),
+        x: drop.x,
+        y: drop.y,
+      })),
+      dragTrace: dragTraceRef.current,
+    });
+  };
+
+  const toCanvas = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvasSize / rect.width),
+      y: (e.clientY - rect.top) * (canvasSize / rect.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { x, y } = toCanvas(e);
+    // Topmost piece under the pointer
+    for (let i = pieces.length - 1; i >= 0; i--) {
+      const piece = pieces[i];
+      if (x >= piece.x && x <= piece.x + pieceSize && y >= piece.y && y <= piece.y + pieceSize) {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { pieceId: piece.id, offsetX: x - piece.x, offsetY: y - piece.y };
+        dragTraceRef.current.push({ pieceId: piece.id, t: Date.now(), x: piece.x, y: piece.y });
+        setPieces(prev => [...prev]);
+        return;
+      }
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const { x: px, y: py } = toCanvas(e);
+    const x = Math.max(0, Math.min(canvasSize - pieceSize, px - drag.offsetX));
+    const y = Math.max(0, Math.min(canvasSize - pieceSize, py - drag.offsetY));
+
+    dragTraceRef.current.push({ pieceId: drag.pieceId, t: Date.now(), x, y });
+    placementsRef.current[drag.pieceId] = { x, y };
+    setPieces(prev => prev.map(p => (p.id === drag.pieceId ? { ...p, x, y, moved: true } : p)));
+  };
+
+  const handlePointerUp = () => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    setPieces(prev => [...prev]);
+  };
+
+  const handleRefresh = useCallback(() => {
+    placementsRef.current = {};
+    dragTraceRef.current = [];
+    setPieces(initialPieces(puzzle));
+  }, [puzzle]);
+
+  const allMoved = pieces.length > 0 && pieces.every(p => p.moved);
+  const isDark = theme === 'dark';
+  const buttonStyle: React.CSSProperties = {
+    border: 'none',
+    background: 'transparent',
+    color: isDark ? '#aaa' : '#4a5466',
+    fontSize: '13px',
+    cursor: 'pointer',
+    padding: '4px 8px',
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Complete the puzzle"
+      style={{
+        backgroundColor: isDark ? '#1e1e1e' : '#ffffff',
+        border: `1px solid ${isDark ? '#333' : '#d4d9e3'}`,
+        borderRadius: '8px',
+        boxShadow: '0 10px 30px rgba(0,0,0,0.3)',
+        padding: '16px',
+        width: `min(${canvasSize + 32}px, 92vw)`,
+        boxSizing: 'border-box',
+        fontFamily: 'system-ui, sans-serif',
+      }}
+    >
+      <div style={{ fontSize: '15px', fontWeight: 600, marginBottom: '12px', color: isDark ? '#e0e0e0' : '#1f2937' }}>
+        Drag each piece into its outline
+      </div>
+      <div style={{ position: 'relative', width: '100%', aspectRatio: '1 / 1' }}>
+        <img
+          src={puzzle.image}
+          alt=""
+          draggable={false}
+          style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', borderRadius: '4px' }}
+        />
+        <canvas
+          ref={canvasRef}
+          width={canvasSize}
+          height={canvasSize}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', touchAction: 'none', cursor: 'grab' }}
+        />
+      </div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '12px' }}>
+        <button type="button" onClick={handleRefresh} style={buttonStyle}>Reset</button>
+        <span style={{ fontSize: '12px', fontWeight: 600, color: isDark ? '#aaa' : '#4a5466' }}>InCaptcha</span>
+        <span>
+          <button type="button" onClick={onCancel} style={buttonStyle}>Cancel</button>
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={!allMoved}
+            style={{ ...buttonStyle, fontWeight: 600, opacity: allMoved ? 1 : 0.5, cursor: allMoved ? 'pointer' : 'default' }}
+          >
+            Verify
+          </button>
+        </span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Show the puzzle until it is solved or dismissed: in a page-level modal, or
+ * inline in `container` (the widget frame, which grows to fit it)
+ * @returns The solution to submit to /api/incaptcha/solve
+ */
+export function showJigsawChallenge(
+  puzzle: JigsawRenderData,
+  options: { theme?: 'light' | 'dark'; container?: HTMLElement } = {}
+): Promise<JigsawSolution> {
+  return new Promise((resolve, reject) => {
+    const host = document.createElement('div');
+    (options.container ?? document.body).appendChild(host);
+    const overlay = document.createElement('div');
+    overlay.style.cssText = options.container
+      ? 'padding-top:8px'
+      : 'position:fixed;inset:0;z-index:2147483647;display:flex;align-items:center;justify-content:center;background:rgba(0,0,0,0.5)';
+    host.attachShadow({ mode: 'closed' }).appendChild(overlay);
+
+    const root = createRoot(overlay);
+    // Deferred: the callbacks fire from inside the component's own effects
+    const close = () => setTimeout(() => {
+      root.unmount();
+      host.remove();
+    });
+
+    root.render(
+      <StrictMode>
+        <JigsawChallenge
+          puzzle={puzzle}
+          theme={options.theme}
+          onComplete={(solution) => {
+            close();
+            resolve(solution);
+          }}
+          onCancel={() => {
+            close();
+            reject(new Error('Challenge dismissed'));
+          }}
+        />
+      </StrictMode>
+    );
+  });
+}
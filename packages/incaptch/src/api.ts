@@ -1,4 +1,4 @@
-import type { SessionResponse, VerifyTokenResponse, TokenIntrospectRequest, TokenIntrospectResponse, TurnstileVerifyRequest, TurnstileVerifyResponse, ChallengeStartRequest, ChallengeStartResponse, ChallengeSolveRequest, ChallengeSolveResponse } from './types';
+import type { SealedTelemetry, SessionResponse, VerifyTokenResponse, TokenIntrospectRequest, TokenIntrospectResponse, TurnstileVerifyRequest, TurnstileVerifyResponse, ChallengeStartRequest, ChallengeStartResponse, ChallengeSolveRequest, ChallengeSolveResponse } from './types';
 
 const DEFAULT_API_BASE = 'https://api.incaptcha.com';
 
@@ -9,13 +9,14 @@ export class InCaptchaAPI {
     this.baseUrl = baseUrl;
   }
 
-  async initSession(siteKey: string): Promise<SessionResponse> {
+  // Pass telemetryKey to negotiate a telemetry key; TelemetrySession.open() does the whole exchange
+  async initSession(siteKey: string, options: { action?: string; cData?: string; telemetryKey?: string } = {}): Promise<SessionResponse> {
     const response = await fetch(`${this.baseUrl}/api/captcha/checkbox/init`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ siteKey }),
+      body: JSON.stringify({ siteKey, ...options }),
     });
 
     if (!response.ok) {
@@ -25,13 +26,13 @@ export class InCaptchaAPI {
     return response.json();
   }
 
-  async verifyCheckbox(nonce: string, behaviorVector: number[]): Promise<VerifyTokenResponse> {
+  async verifyCheckbox(nonce: string, telemetry?: SealedTelemetry): Promise<VerifyTokenResponse> {
     const response = await fetch(`${this.baseUrl}/api/captcha/checkbox/verify`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ nonce, behaviorVector }),
+      body: JSON.stringify({ nonce, telemetry }),
     });
 
     if (!response.ok) {
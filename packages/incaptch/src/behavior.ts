@@ -0,0 +1,87 @@
+import type { BehaviorVector, MouseSample } from './types';
+import { InputDynamicsCollector } from './inputDynamics';
+
+// Passive behavior collection
+// Invisible widgets have no checkbox to hover, so pointer and scroll activity
+// is sampled across the whole page from the moment collection starts. Timings
+// are measured from page load (performance.timeOrigin), not from start().
+
+const MAX_SAMPLES = 50;
+const MIN_SAMPLE_INTERVAL_MS = 16;
+
+export class BehaviorCollector {
+  private samples: MouseSample[] = [];
+  private firstPointerAt = 0;
+  private lastScrollY = 0;
+  private lastScrollTime = 0;
+  private scrollVelocity = 0;
+  private listening = false;
+  private readonly inputDynamics = new InputDynamicsCollector();
+
+  private readonly onPointerMove = (e: PointerEvent) => {
+    const now = Date.now();
+    const last = this.samples[this.samples.length - 1];
+    if (last && now - last.t < MIN_SAMPLE_INTERVAL_MS) return;
+
+    if (!this.firstPointerAt) this.firstPointerAt = now;
+    this.samples.push({ t: now, x: e.clientX, y: e.clientY });
+    if (this.samples.length > MAX_SAMPLES) {
+      this.samples = this.samples.slice(-MAX_SAMPLES);
+    }
+  };
+
+  private readonly onScroll = () => {
+    const now = Date.now();
+    const elapsed = (now - this.lastScrollTime) / 1000;
+    if (this.lastScrollTime > 0 && elapsed > 0) {
+      this.scrollVelocity = (window.scrollY - this.lastScrollY) / elapsed;
+    }
+    this.lastScrollY = window.scrollY;
+    this.lastScrollTime = now;
+  };
+
+  start(): void {
+    if (this.listening) return;
+    this.listening = true;
+    this.lastScrollY = window.scrollY;
+    document.addEventListener('pointermove', this.onPointerMove, { passive: true });
+    window.addEventListener('scroll', this.onScroll, { passive: true });
+    this.inputDynamics.start();
+  }
+
+  stop(): void {
+    if (!this.listening) return;
+    this.listening = false;
+    document.removeEventListener('pointermove', this.onPointerMove);
+    window.removeEventListener('scroll', this.onScroll);
+    this.inputDynamics.stop();
+  }
+
+  getBehaviorVector(): BehaviorVector {
+    const now = Date.now();
+
+    let totalVelocity = 0;
+    for (let i = 1; i < this.samples.length; i++) {
+      const prev = this.samples[i - 1];
+      const curr = this.samples[i];
+      const dt = (curr.t - prev.t) / 1000;
+      if (dt > 0) {
+        totalVelocity += Math.hypot(curr.x - prev.x, curr.y - prev.y) / dt;
+      }
+    }
+
+    return {
+      mouseTrajectory: this.samples.slice(-20),
+      clickLatency: Math.round(now - performance.timeOrigin),
+      // Time the visitor has been moving around the page
+      hoverDuration: this.firstPointerAt ? now - this.firstPointerAt : 0,
+      mouseVelocity: this.samples.length > 1 ? totalVelocity / (this.samples.length - 1) : 0,
+      timestamp: now,
+      scrollBehavior: {
+        scrollY: window.scrollY,
+        scrollVelocity: this.scrollVelocity,
+      },
+      ...this.inputDynamics.getDynamics(),
+    };
+  }
+}
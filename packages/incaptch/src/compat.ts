@@ -0,0 +1,106 @@
+import {
+  autoRender,
+  executeWidget,
+  findWidget,
+  getApiBaseUrl,
+  getScriptOptions,
+  onDomReady,
+  removeWidget,
+  renderWidget,
+  resetWidget,
+  resolveCallback,
+  setApiBaseUrl,
+  type EmbedOptions,
+  type RenderParams,
+} from './embed';
+import { InvisibleWidget } from './InvisibleWidget';
+
+// reCAPTCHA / Turnstile client API shim
+// Pages written against grecaptcha or Cloudflare Turnstile keep working when
+// their api.js script tag is swapped for this bundle: window.grecaptcha and
+// window.turnstile are backed by CheckboxWidget, `.g-recaptcha` / `.cf-turnstile`
+// elements with a data-sitekey are rendered automatically, and the token is
+// written to the hidden form field those backends already read. reCAPTCHA v3
+// execute(siteKey, { action }) is backed by InvisibleWidget.
+
+export type CompatRenderParams = RenderParams;
+export type CompatOptions = EmbedOptions;
+
+export interface TurnstileCompat {
+  render(container: string | HTMLElement, params: CompatRenderParams): string;
+  reset(widgetId?: string): void;
+  getResponse(widgetId?: string): string | undefined;
+  remove(widgetId?: string): void;
+  ready(callback: () => void): void;
+}
+
+export interface GrecaptchaCompat {
+  render(container: string | HTMLElement, params: CompatRenderParams): number;
+  execute(widgetIdOrSiteKey?: number | string, options?: { action?: string }): Promise<string>;
+  reset(widgetId?: number): void;
+  getResponse(widgetId?: number): string;
+  ready(callback: () => void): void;
+}
+
+export const turnstile: TurnstileCompat = {
+  render: (container, params) => renderWidget('turnstile', container, params),
+  reset: (widgetId) => resetWidget('turnstile', widgetId),
+  getResponse: (widgetId) => findWidget('turnstile', widgetId)?.[1].widget.getResponse(),
+  remove: (widgetId) => removeWidget('turnstile', widgetId),
+  ready: onDomReady,
+};
+
+const invisibleWidgets = new Map<string, InvisibleWidget>();
+
+function getInvisibleWidget(siteKey: string): InvisibleWidget {
+  let widget = invisibleWidgets.get(siteKey);
+  if (!widget) {
+    widget = new InvisibleWidget({ siteKey, apiBaseUrl: getApiBaseUrl() });
+    invisibleWidgets.set(siteKey, widget);
+  }
+  return widget;
+}
+
+export const grecaptcha: GrecaptchaCompat = {
+  render: (container, params) => Number(renderWidget('grecaptcha', container, params)),
+
+  execute(widgetIdOrSiteKey, options) {
+    // reCAPTCHA v3 style: execute(siteKey, { action }) verifies invisibly and
+    // resolves with a fresh single-use token on every call
+    if (typeof widgetIdOrSiteKey === 'string') {
+      return getInvisibleWidget(widgetIdOrSiteKey).execute(options?.action);
+    }
+
+    return executeWidget('grecaptcha', widgetIdOrSiteKey);
+  },
+
+  reset: (widgetId) => resetWidget('grecaptcha', widgetId),
+  getResponse: (widgetId) => findWidget('grecaptcha', widgetId)?.[1].widget.getResponse() ?? '',
+  ready: onDomReady,
+};
+
+/**
+ * Expose window.grecaptcha and window.turnstile and render the page's widgets
+ */
+export function installCompat(options: CompatOptions = {}): void {
+  setApiBaseUrl(options.apiBaseUrl ?? '');
+  (window as any).turnstile = turnstile;
+  (window as any).grecaptcha = grecaptcha;
+  // api.js?render=<siteKey>: collect behavior from load, ahead of execute()
+  if (options.invisibleSiteKey) getInvisibleWidget(options.invisibleSiteKey);
+
+  onDomReady(() => {
+    if (!options.explicit) {
+      autoRender('turnstile', '.cf-turnstile[data-sitekey]');
+      autoRender('grecaptcha', '.g-recaptcha[data-sitekey]');
+    }
+    if (options.onload) resolveCallback<() => void>(options.onload)?.();
+  });
+}
+
+// Loaded with a classic <script src> tag: install right away. Bundlers importing
+// the module call installCompat() themselves.
+const scriptOptions = getScriptOptions();
+if (scriptOptions) {
+  installCompat(scriptOptions);
+}
@@ -0,0 +1,215 @@
+import { CheckboxWidget } from './CheckboxWidget';
+
+// Script-tag embedding
+// Shared by the incaptcha.js loader and the grecaptcha/turnstile shim. Each
+// widget is a CheckboxWidget iframe inside the page's container, next to a
+// hidden form field that receives the token and is cleared when it expires.
+
+export type Flavor = 'incaptcha' | 'grecaptcha' | 'turnstile';
+export type WidgetId = string | number;
+
+export interface RenderParams {
+  sitekey: string;
+  theme?: 'light' | 'dark' | 'auto';
+  action?: string;
+  cData?: string;
+  callback?: ((token: string) => void) | string;
+  'error-callback'?: ((error: string) => void) | string;
+  'expired-callback'?: (() => void) | string;
+  'response-field-name'?: string;
+}
+
+export interface EmbedOptions {
+  apiBaseUrl?: string;
+  // Skip auto-rendering; the page calls render() itself (?render=explicit)
+  explicit?: boolean;
+  // Name of a global function to call once the API is installed (?onload=)
+  onload?: string;
+  // reCAPTCHA v3 style ?render=<siteKey>: start invisible collection at load
+  invisibleSiteKey?: string;
+}
+
+export interface EmbeddedWidget {
+  flavor: Flavor;
+  siteKey: string;
+  action?: string;
+  element: HTMLElement;
+  input: HTMLInputElement;
+  widget: CheckboxWidget;
+}
+
+const RESPONSE_FIELD_NAMES: Record<Flavor, string> = {
+  incaptcha: 'incaptcha-response',
+  grecaptcha: 'g-recaptcha-response',
+  turnstile: 'cf-turnstile-response',
+};
+
+const widgets = new Map<string, EmbeddedWidget>();
+let nextWidgetId = 0;
+let apiBaseUrl = '';
+
+export function setApiBaseUrl(url: string): void {
+  apiBaseUrl = url;
+}
+
+export function getApiBaseUrl(): string {
+  return apiBaseUrl;
+}
+
+export function resolveCallback<T extends (...args: any[]) => void>(callback: T | string | undefined): T | undefined {
+  if (typeof callback === 'string') {
+    const fn = (window as any)[callback];
+    return typeof fn === 'function' ? fn : undefined;
+  }
+  return callback;
+}
+
+function resolveContainer(container: string | HTMLElement): HTMLElement {
+  const element = typeof container === 'string'
+    ? document.getElementById(container) ?? document.querySelector<HTMLElement>(container)
+    : container;
+  if (!element) {
+    throw new Error(`InCaptcha: container "${container}" not found`);
+  }
+  return element;
+}
+
+function resolveTheme(theme: RenderParams['theme']): 'light' | 'dark' {
+  if (theme === 'auto') {
+    return window.matchMedia?.('(prefers-color-scheme: dark)').matches ? 'dark' : 'light';
+  }
+  return theme === 'dark' ? 'dark' : 'light';
+}
+
+export function renderWidget(flavor: Flavor, container: string | HTMLElement, params: RenderParams): string {
+  if (!params?.sitekey) {
+    throw new Error('InCaptcha: sitekey is required');
+  }
+
+  const element = resolveContainer(container);
+  const id = String(nextWidgetId++);
+  const callback = resolveCallback(params.callback);
+  const errorCallback = resolveCallback(params['error-callback']);
+  const expiredCallback = resolveCallback(params['expired-callback']);
+
+  // Lives inside the container so it is submitted with the surrounding form
+  const input = document.createElement('input');
+  input.type = 'hidden';
+  input.name = params['response-field-name'] || RESPONSE_FIELD_NAMES[flavor];
+  element.appendChild(input);
+
+  const widget = new CheckboxWidget(element, {
+    siteKey: params.sitekey,
+    theme: resolveTheme(params.theme),
+    action: params.action,
+    cData: params.cData,
+    apiBaseUrl,
+    onVerify: (token) => {
+      input.value = token;
+      callback?.(token);
+    },
+    onError: (error) => errorCallback?.(error),
+    onExpire: () => {
+      input.value = '';
+      expiredCallback?.();
+    },
+  });
+
+  element.dataset.incaptchaWidgetId = id;
+  widgets.set(id, { flavor, siteKey: params.sitekey, action: params.action, element, input, widget });
+  return id;
+}
+
+/**
+ * The widget an API call refers to: the given ID, or the first widget of that
+ * flavor when the page omits it, as the reCAPTCHA and Turnstile APIs allow
+ */
+export function findWidget(flavor: Flavor, widgetId?: WidgetId): [string, EmbeddedWidget] | undefined {
+  if (widgetId !== undefined) {
+    const entry = widgets.get(String(widgetId));
+    return entry ? [String(widgetId), entry] : undefined;
+  }
+  for (const entry of widgets) {
+    if (entry[1].flavor === flavor) return entry;
+  }
+  return undefined;
+}
+
+export function listWidgets(): EmbeddedWidget[] {
+  return Array.from(widgets.values());
+}
+
+export function resetWidget(flavor: Flavor, widgetId?: WidgetId): void {
+  const entry = findWidget(flavor, widgetId);
+  if (!entry) return;
+  entry[1].input.value = '';
+  entry[1].widget.reset();
+}
+
+export function removeWidget(flavor: Flavor, widgetId?: WidgetId): void {
+  const entry = findWidget(flavor, widgetId);
+  if (!entry) return;
+  const [id, { element, input, widget }] = entry;
+  widget.destroy();
+  input.remove();
+  delete element.dataset.incaptchaWidgetId;
+  widgets.delete(id);
+}
+
+export function executeWidget(flavor: Flavor, widgetId?: WidgetId): Promise<string> {
+  const entry = findWidget(flavor, widgetId);
+  if (!entry) {
+    return Promise.reject(new Error('InCaptcha: no widget to execute'));
+  }
+  return entry[1].widget.execute();
+}
+
+export function onDomReady(callback: () => void): void {
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', () => callback(), { once: true });
+  } else {
+    callback();
+  }
+}
+
+/**
+ * Render every element matching the selector that has not been rendered yet,
+ * configured from its data-* attributes
+ */
+export function autoRender(flavor: Flavor, selector: string): void {
+  document.querySelectorAll<HTMLElement>(selector).forEach((element) => {
+    if (element.dataset.incaptchaWidgetId !== undefined) return;
+    const { sitekey, theme, action, cdata, callback, errorCallback, expiredCallback, responseFieldName } = element.dataset;
+    renderWidget(flavor, element, {
+      sitekey: sitekey!,
+      theme: theme as RenderParams['theme'],
+      action,
+      cData: cdata,
+      callback,
+      'error-callback': errorCallback,
+      'expired-callback': expiredCallback,
+      'response-field-name': responseFieldName,
+    });
+  });
+}
+
+/**
+ * Options from the loading script tag's URL (?onload=...&render=explicit, or
+ * render=<siteKey> for reCAPTCHA v3 pages).
+ * Requests go to data-api-base-url, or else the origin the script was served from.
+ * Returns null when the module was not loaded by a classic <script src> tag.
+ */
+export function getScriptOptions(): EmbedOptions | null {
+  if (typeof document === 'undefined') return null;
+  const script = document.currentScript;
+  if (!(script instanceof HTMLScriptElement) || !script.src) return null;
+
+  const url = new URL(script.src, window.location.href);
+  const render = url.searchParams.get('render');
+  return {
+    apiBaseUrl: script.dataset.apiBaseUrl ?? (url.origin === window.location.origin ? '' : url.origin),
+    explicit: render === 'explicit',
+    onload: url.searchParams.get('onload') ?? undefined,
+    invisibleSiteKey: render && render !== 'explicit' && render !== 'onload' ? render : undefined,
+  };
+}
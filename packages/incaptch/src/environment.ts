@@ -0,0 +1,153 @@
+import type { EnvironmentReport } from './types';
+
+// Browser environment report
+// Collected once per verification and sealed with the behavior vector. Each
+// check is cheap and read-only: navigator.webdriver, whether plugins and mime
+// types reference each other, the unmasked WebGL renderer, screen and window
+// geometry, Intl's timezone and locale against navigator.languages, the
+// Notification/permissions pair and globals left behind by automation tools.
+// The server does the scoring. Whether a console-logged Error gets inspected
+// is only checked on request: the probe writes to the console on every
+// verification and also fires for anyone with DevTools open.
+
+const MAX_ARTIFACTS = 32;
+
+// Globals injected by Selenium, Playwright, Puppeteer, PhantomJS and Nightmare
+const AUTOMATION_GLOBALS = [
+  '__webdriver_evaluate',
+  '__selenium_evaluate',
+  '__webdriver_script_function',
+  '__webdriver_script_func',
+  '__webdriver_script_fn',
+  '__fxdriver_evaluate',
+  '__driver_unwrapped',
+  '__webdriver_unwrapped',
+  '__driver_evaluate',
+  '__selenium_unwrapped',
+  '__fxdriver_unwrapped',
+  '_Selenium_IDE_Recorder',
+  '_selenium',
+  'calledSelenium',
+  'domAutomation',
+  'domAutomationController',
+  '__playwright',
+  '__pwInitScripts',
+  '__puppeteer_evaluation_script__',
+  '__nightmare',
+  'callPhantom',
+  '_phantom',
+  'phantom',
+];
+
+// ChromeDriver's cached element map, named cdc_<random> unless the binary is patched
+const CHROMEDRIVER_PREFIX = /^\$?cdc_/;
+
+function pluginsConsistent(): boolean {
+  const { plugins } = navigator;
+  for (let i = 0; i < plugins.length; i++) {
+    const plugin = plugins[i];
+    for (let j = 0; j < plugin.length; j++) {
+      if (plugin[j]?.enabledPlugin !== plugin) return false;
+    }
+  }
+  return true;
+}
+
+function webglInfo(): { vendor: string | null; renderer: string | null } {
+  try {
+    const canvas = document.createElement('canvas');
+    const gl = (canvas.getContext('webgl') ?? canvas.getContext('experimental-webgl')) as WebGLRenderingContext | null;
+    if (!gl) return { vendor: null, renderer: null };
+
+    const debugInfo = gl.getExtension('WEBGL_debug_renderer_info');
+    const vendor = gl.getParameter(debugInfo ? debugInfo.UNMASKED_VENDOR_WEBGL : gl.VENDOR);
+    const renderer = gl.getParameter(debugInfo ? debugInfo.UNMASKED_RENDERER_WEBGL : gl.RENDERER);
+    return { vendor: String(vendor).slice(0, 256), renderer: String(renderer).slice(0, 256) };
+  } catch {
+    return { vendor: null, renderer: null };
+  }
+}
+
+async function permissionState(): Promise<EnvironmentReport['permissionState']> {
+  try {
+    if (!navigator.permissions?.query) return null;
+    const status = await navigator.permissions.query({ name: 'notifications' as PermissionName });
+    return status.state;
+  } catch {
+    return null;
+  }
+}
+
+function automationArtifacts(): string[] {
+  const found = AUTOMATION_GLOBALS.filter(name => name in window);
+  for (const name of Object.getOwnPropertyNames(document)) {
+    if (CHROMEDRIVER_PREFIX.test(name)) found.push(name);
+  }
+  for (const name of Object.getOwnPropertyNames(window)) {
+    if (CHROMEDRIVER_PREFIX.test(name)) found.push(name);
+  }
+  const webdriverAttribute = document.documentElement.getAttribute('webdriver');
+  if (webdriverAttribute !== null) found.push('webdriver_attribute');
+  return found.slice(0, MAX_ARTIFACTS).map(name => name.slice(0, 64));
+}
+
+// The console only reads a logged Error's stack when something inspects it:
+// an open DevTools panel, or the Runtime domain Puppeteer and Playwright enable
+function cdpRuntimeDetected(): boolean {
+  let inspected = false;
+  const error = new Error();
+  Object.defineProperty(error, 'stack', {
+    configurable: false,
+    enumerable: false,
+    get() {
+      inspected = true;
+      return '';
+    },
+  });
+  console.debug(error);
+  return inspected;
+}
+
+export interface EnvironmentReportOptions {
+  // Log a probe Error to detect a CDP Runtime domain; off by default
+  probeCdpRuntime?: boolean;
+}
+
+/**
+ * Collect the environment report sent with every sealed behavior vector
+ */
+export async function collectEnvironmentReport(options: EnvironmentReportOptions = {}): Promise<EnvironmentReport> {
+  const webgl = webglInfo();
+  const intl = Intl.DateTimeFormat().resolvedOptions();
+  const notificationPermission = typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+
+  return {
+    userAgent: navigator.userAgent.slice(0, 512),
+    webdriver: navigator.webdriver === true,
+    plugins: navigator.plugins?.length ?? 0,
+    mimeTypes: navigator.mimeTypes?.length ?? 0,
+    pluginsConsistent: pluginsConsistent(),
+    webglVendor: webgl.vendor,
+    webglRenderer: webgl.renderer,
+    screen: {
+      width: screen.width,
+      height: screen.height,
+      availWidth: screen.availWidth,
+      availHeight: screen.availHeight,
+    },
+    window: {
+      outerWidth: window.outerWidth,
+      outerHeight: window.outerHeight,
+      innerWidth: window.innerWidth,
+      innerHeight: window.innerHeight,
+    },
+    timezone: (intl.timeZone ?? '').slice(0, 64),
+    locale: intl.locale.slice(0, 64),
+    languages: Array.from(navigator.languages ?? []).slice(0, 32).map(language => language.slice(0, 64)),
+    notificationPermission,
+    permissionState: await permissionState(),
+    hasChromeObject: 'chrome' in window,
+    automationArtifacts: automationArtifacts(),
+    cdpRuntime: options.probeCdpRuntime ? cdpRuntimeDetected() : null,
+  };
+}
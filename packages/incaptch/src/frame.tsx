@@ -0,0 +1,110 @@
+import React, { StrictMode } from 'react';
+import { createRoot } from 'react-dom/client';
+import { Checkbox, type WidgetHandle } from './Checkbox';
+import { createMessage, readMessage, type FrameEvent, type ParentCommand } from './protocol';
+
+// Widget frame
+// Entry point of incaptcha-frame.js, loaded by the /widget document. Renders
+// the checkbox, reports its size, tokens, expiry and errors to the parent, and
+// accepts execute/reset commands from the parent window only. The server pins
+// the parent to `origin` with a frame-ancestors policy.
+
+function decodeTokenExpiry(token: string): number | null {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const { exp } = JSON.parse(atob(payload));
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+function startFrame() {
+  const params = new URLSearchParams(window.location.search);
+  const parentOrigin = params.get('origin');
+  const widgetId = params.get('id');
+  const siteKey = params.get('sitekey');
+  const mount = document.getElementById('incaptcha-frame');
+  if (!parentOrigin || !widgetId || !siteKey || !mount || window.parent === window) return;
+
+  const theme = params.get('theme') === 'dark' ? 'dark' : 'light';
+  const action = params.get('action') ?? undefined;
+  const cData = params.get('cData') ?? undefined;
+
+  const post = (event: FrameEvent) => {
+    window.parent.postMessage(createMessage(widgetId, event), parentOrigin);
+  };
+
+  const widget = document.createElement('div');
+  const challenge = document.createElement('div');
+  mount.style.display = 'inline-block';
+  mount.append(widget, challenge);
+
+  const root = createRoot(widget);
+  let handle: WidgetHandle | null = null;
+  let generation = 0;
+  let expiryTimer: number | null = null;
+
+  const render = () => {
+    root.render(
+      <StrictMode>
+        <Checkbox
+          key={generation}
+          siteKey={siteKey}
+          theme={theme}
+          action={action}
+          cData={cData}
+          embedOrigin={parentOrigin}
+          challengeContainer={challenge}
+          onVerify={(token) => {
+            post({ type: 'token', token });
+            scheduleExpiry(token);
+          }}
+          onError={(error) => post({ type: 'error', error })}
+          onReady={(next) => {
+            if (!handle) post({ type: 'ready' });
+            handle = next;
+          }}
+        />
+      </StrictMode>
+    );
+  };
+
+  const reset = () => {
+    if (expiryTimer) window.clearTimeout(expiryTimer);
+    expiryTimer = null;
+    generation++;
+    render();
+  };
+
+  // A fresh checkbox once the token lapses, so the visitor can verify again
+  const scheduleExpiry = (token: string) => {
+    const expiresAt = decodeTokenExpiry(token);
+    if (!expiresAt) return;
+    expiryTimer = window.setTimeout(() => {
+      post({ type: 'expired' });
+      reset();
+    }, Math.max(0, expiresAt - Date.now()));
+  };
+
+  window.addEventListener('message', (event) => {
+    const message = readMessage<ParentCommand>(event, parentOrigin, window.parent, widgetId);
+    if (!message) return;
+
+    if (message.type === 'execute') {
+      // Outcome reaches the parent through the token/error events
+      handle?.execute().catch(() => {});
+    } else if (message.type === 'reset') {
+      reset();
+    }
+  });
+
+  new ResizeObserver(() => {
+    const { width, height } = mount.getBoundingClientRect();
+    post({ type: 'resize', width: Math.ceil(width), height: Math.ceil(height) });
+  }).observe(mount);
+
+  render();
+}
+
+startFrame();
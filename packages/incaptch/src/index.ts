@@ -1,11 +1,28 @@
 
 export { CheckboxWidget } from './CheckboxWidget';
+export { InvisibleWidget } from './InvisibleWidget';
+export { VerificationFailedError } from './verify';
+export { solvePowChallenge } from './pow';
+export { TelemetrySession } from './telemetry';
+export { collectEnvironmentReport } from './environment';
+export { InputDynamicsCollector } from './inputDynamics';
 export type { 
   InCaptchaConfig, 
   CheckboxOptions, 
+  InvisibleOptions,
   VerifyTokenResponse, 
   SessionResponse, 
+  SealedTelemetry,
+  BehaviorVector,
+  InputModality,
+  TouchDynamics,
+  KeyboardDynamics,
+  VisibilityDynamics,
+  EnvironmentReport,
   TokenIntrospectRequest, 
-  TokenIntrospectResponse 
+  TokenIntrospectResponse,
+  JigsawRenderData,
+  JigsawSolution,
+  PowChallenge
 } from './types';
 export * from './api';
@@ -0,0 +1,157 @@
+import type { InputModality, KeyboardDynamics, TouchDynamics, VisibilityDynamics } from './types';
+
+// Pointer, touch, keyboard and visibility dynamics
+// A mouse trajectory says nothing about visitors on a phone or driving the page
+// from the keyboard, so the widget also records how it was actually activated:
+// touch contact time, pressure and size, key hold times and rhythm, Tab
+// navigation and page visibility. Only timings are kept; which key was pressed
+// is used to spot Tab, Enter and Space and then discarded.
+
+const MAX_EVENTS = 50;
+
+function pushCapped(values: number[], value: number) {
+  values.push(value);
+  if (values.length > MAX_EVENTS) values.shift();
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function stdDev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / values.length);
+}
+
+export class InputDynamicsCollector {
+  private modality: InputModality = 'none';
+  private touchStarts = new Map<number, number>();
+  private tapDurations: number[] = [];
+  private pressures: number[] = [];
+  private radii: number[] = [];
+  private keyStarts = new Map<string, number>();
+  private keyDwells: number[] = [];
+  private keyDowns: number[] = [];
+  private tabNavigations = 0;
+  private lastFocusAt = 0;
+  private focusToActivation = 0;
+  private hiddenCount = 0;
+  private hiddenDuration = 0;
+  private hiddenSince = 0;
+  private hiddenAtActivation = false;
+  private listening = false;
+
+  private readonly onPointerDown = (e: PointerEvent) => {
+    this.modality = e.pointerType === 'touch' || e.pointerType === 'pen' ? e.pointerType : 'mouse';
+    this.hiddenAtActivation = document.hidden;
+    if (e.pointerType !== 'touch') return;
+
+    this.touchStarts.set(e.pointerId, performance.now());
+    pushCapped(this.pressures, e.pressure);
+    // width and height are the contact geometry's diameters
+    pushCapped(this.radii, (e.width + e.height) / 4);
+  };
+
+  private readonly onPointerUp = (e: PointerEvent) => {
+    const start = this.touchStarts.get(e.pointerId);
+    if (start === undefined) return;
+    this.touchStarts.delete(e.pointerId);
+    pushCapped(this.tapDurations, performance.now() - start);
+  };
+
+  private readonly onKeyDown = (e: KeyboardEvent) => {
+    if (e.repeat) return;
+    const now = performance.now();
+    this.keyStarts.set(e.code, now);
+    pushCapped(this.keyDowns, now);
+
+    if (e.key === 'Tab') this.tabNavigations++;
+    if (e.key === 'Enter' || e.key === ' ') {
+      this.modality = 'keyboard';
+      this.hiddenAtActivation = document.hidden;
+      this.focusToActivation = this.lastFocusAt ? now - this.lastFocusAt : 0;
+    }
+  };
+
+  private readonly onKeyUp = (e: KeyboardEvent) => {
+    const start = this.keyStarts.get(e.code);
+    if (start === undefined) return;
+    this.keyStarts.delete(e.code);
+    pushCapped(this.keyDwells, performance.now() - start);
+  };
+
+  private readonly onFocusIn = () => {
+    this.lastFocusAt = performance.now();
+  };
+
+  private readonly onVisibilityChange = () => {
+    const now = performance.now();
+    if (document.hidden) {
+      this.hiddenCount++;
+      this.hiddenSince = now;
+    } else if (this.hiddenSince) {
+      this.hiddenDuration += now - this.hiddenSince;
+      this.hiddenSince = 0;
+    }
+  };
+
+  start(): void {
+    if (this.listening) return;
+    this.listening = true;
+    const options = { capture: true, passive: true };
+    document.addEventListener('pointerdown', this.onPointerDown, options);
+    document.addEventListener('pointerup', this.onPointerUp, options);
+    document.addEventListener('pointercancel', this.onPointerUp, options);
+    document.addEventListener('keydown', this.onKeyDown, options);
+    document.addEventListener('keyup', this.onKeyUp, options);
+    document.addEventListener('focusin', this.onFocusIn, options);
+    document.addEventListener('visibilitychange', this.onVisibilityChange);
+  }
+
+  stop(): void {
+    if (!this.listening) return;
+    this.listening = false;
+    document.removeEventListener('pointerdown', this.onPointerDown, true);
+    document.removeEventListener('pointerup', this.onPointerUp, true);
+    document.removeEventListener('pointercancel', this.onPointerUp, true);
+    document.removeEventListener('keydown', this.onKeyDown, true);
+    document.removeEventListener('keyup', this.onKeyUp, true);
+    document.removeEventListener('focusin', this.onFocusIn, true);
+    document.removeEventListener('visibilitychange', this.onVisibilityChange);
+  }
+
+  getDynamics(): {
+    pointerType: InputModality;
+    touch: TouchDynamics;
+    keyboard: KeyboardDynamics;
+    visibility: VisibilityDynamics;
+  } {
+    const now = performance.now();
+    const flightTimes = this.keyDowns.slice(1).map((t, i) => t - this.keyDowns[i]);
+
+    return {
+      pointerType: this.modality,
+      touch: {
+        taps: this.tapDurations.length,
+        tapDuration: mean(this.tapDurations),
+        tapDurationStdDev: stdDev(this.tapDurations),
+        pressure: mean(this.pressures),
+        radius: mean(this.radii),
+      },
+      keyboard: {
+        keystrokes: this.keyDowns.length,
+        dwellTime: mean(this.keyDwells),
+        flightTime: mean(flightTimes),
+        flightTimeStdDev: stdDev(flightTimes),
+        tabNavigations: this.tabNavigations,
+        focusToActivation: this.focusToActivation,
+      },
+      visibility: {
+        hiddenCount: this.hiddenCount,
+        hiddenDuration: this.hiddenDuration + (this.hiddenSince ? now - this.hiddenSince : 0),
+        hiddenAtActivation: this.hiddenAtActivation,
+      },
+    };
+  }
+}
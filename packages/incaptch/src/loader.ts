@@ -0,0 +1,57 @@
+import {
+  autoRender,
+  executeWidget,
+  findWidget,
+  getScriptOptions,
+  onDomReady,
+  removeWidget,
+  renderWidget,
+  resetWidget,
+  resolveCallback,
+  setApiBaseUrl,
+  type EmbedOptions,
+  type RenderParams,
+} from './embed';
+
+// incaptcha.js script-tag loader
+// A self-contained bundle for pages that do not build with npm: every
+// `.incaptcha` element with a data-sitekey becomes a widget iframe, the
+// token is written to a hidden `incaptcha-response` field in the surrounding
+// form, and window.incaptcha offers explicit rendering for everything else.
+
+export interface InCaptchaGlobal {
+  render(container: string | HTMLElement, params: RenderParams): string;
+  execute(widgetId?: string): Promise<string>;
+  reset(widgetId?: string): void;
+  getResponse(widgetId?: string): string | undefined;
+  remove(widgetId?: string): void;
+  ready(callback: () => void): void;
+}
+
+export const incaptcha: InCaptchaGlobal = {
+  render: (container, params) => renderWidget('incaptcha', container, params),
+  execute: (widgetId) => executeWidget('incaptcha', widgetId),
+  reset: (widgetId) => resetWidget('incaptcha', widgetId),
+  getResponse: (widgetId) => findWidget('incaptcha', widgetId)?.[1].widget.getResponse(),
+  remove: (widgetId) => removeWidget('incaptcha', widgetId),
+  ready: onDomReady,
+};
+
+/**
+ * Expose window.incaptcha and render the page's `.incaptcha` elements
+ */
+export function installLoader(options: EmbedOptions = {}): void {
+  setApiBaseUrl(options.apiBaseUrl ?? '');
+  (window as any).incaptcha = incaptcha;
+
+  onDomReady(() => {
+    if (!options.explicit) autoRender('incaptcha', '.incaptcha[data-sitekey]');
+    if (options.onload) resolveCallback<() => void>(options.onload)?.();
+  });
+}
+
+// Loaded with <script src=".../incaptcha.js">: install right away
+const scriptOptions = getScriptOptions();
+if (scriptOptions) {
+  installLoader(scriptOptions);
+}
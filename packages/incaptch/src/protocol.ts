@@ -0,0 +1,51 @@
+// Widget frame postMessage protocol
+// CheckboxWidget (the parent) and the /widget iframe only talk through these
+// messages. Both sides drop anything that is not from the expected window and
+// origin, or that carries another protocol version or widget ID, so the
+// embedding page can observe results but cannot reach the widget's DOM.
+
+export const PROTOCOL_VERSION = 1;
+export const MESSAGE_SOURCE = 'incaptcha';
+
+// Frame to parent
+export type FrameEvent =
+  | { type: 'ready' }
+  | { type: 'resize'; width: number; height: number }
+  | { type: 'token'; token: string }
+  | { type: 'expired' }
+  | { type: 'error'; error: string };
+
+// Parent to frame
+export type ParentCommand =
+  | { type: 'execute' }
+  | { type: 'reset' };
+
+export type ProtocolMessage<T> = T & {
+  source: typeof MESSAGE_SOURCE;
+  version: typeof PROTOCOL_VERSION;
+  widgetId: string;
+};
+
+export function createMessage<T extends FrameEvent | ParentCommand>(widgetId: string, payload: T): ProtocolMessage<T> {
+  return { ...payload, source: MESSAGE_SOURCE, version: PROTOCOL_VERSION, widgetId };
+}
+
+/**
+ * The message payload, or null unless the event comes from `expectedSource`
+ * at `expectedOrigin` and is addressed to this widget in this protocol version
+ */
+export function readMessage<T extends FrameEvent | ParentCommand>(
+  event: MessageEvent,
+  expectedOrigin: string,
+  expectedSource: MessageEventSource | null,
+  widgetId: string
+): ProtocolMessage<T> | null {
+  if (!expectedSource || event.source !== expectedSource) return null;
+  if (event.origin !== expectedOrigin) return null;
+
+  const data = event.data;
+  if (!data || typeof data !== 'object') return null;
+  if (data.source !== MESSAGE_SOURCE || data.version !== PROTOCOL_VERSION) return null;
+  if (data.widgetId !== widgetId || typeof data.type !== 'string') return null;
+  return data as ProtocolMessage<T>;
+}
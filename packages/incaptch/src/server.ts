@@ -0,0 +1,221 @@
+import type { OfflineVerifyError, OfflineVerifyOptions, OfflineVerifyResult, VerifyTokenClaims } from './types';
+export type { OfflineVerifyOptions, OfflineVerifyResult, OfflineVerifyError, VerifyTokenClaims } from './types';
+
+// Offline verify token validation for relying-party backends (Node 20+)
+// Checks the Ed25519 signature against the site's published JWKS, then expiry,
+// site key and score, without a network round-trip per token. Keys are cached
+// and refetched when a token carries an unknown `kid`.
+
+const DEFAULT_API_BASE = 'https://api.incaptcha.com';
+const DEFAULT_JWKS_TTL_MS = 5 * 60 * 1000;
+const MIN_REFETCH_INTERVAL_MS = 30 * 1000;
+
+// /api/incaptcha/verify rejection reasons, as the verifier reports them
+const ONLINE_ERRORS: Record<string, OfflineVerifyError> = {
+  not_found: 'not_found',
+  already_used: 'already_used',
+  expired: 'expired',
+  invalid_site: 'site_key_mismatch',
+  site_mismatch: 'site_key_mismatch',
+  retired_key: 'unknown_key',
+  invalid_signature: 'invalid_signature',
+  payload_mismatch: 'payload_mismatch',
+  ip_mismatch: 'ip_mismatch',
+  action_mismatch: 'action_mismatch',
+  invalid_client: 'invalid_credentials',
+  rate_limited: 'rate_limited',
+};
+
+interface Jwk {
+  kty: string;
+  crv?: string;
+  x?: string;
+  kid?: string;
+  alg?: string;
+}
+
+function base64UrlDecode(input: string): Uint8Array {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(input.length / 4) * 4, '=');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function decodeJson<T>(segment: string): T | null {
+  try {
+    return JSON.parse(new TextDecoder().decode(base64UrlDecode(segment))) as T;
+  } catch {
+    return null;
+  }
+}
+
+function matchesHostname(hostname: string | undefined, pattern: string): boolean {
+  if (!hostname) return false;
+  const normalized = pattern.toLowerCase();
+  return normalized.startsWith('*.') ? hostname.endsWith(normalized.slice(1)) : hostname === normalized;
+}
+
+export class InCaptchaVerifier {
+  private options: OfflineVerifyOptions;
+  private baseUrl: string;
+  private keys = new Map<string, CryptoKey>();
+  private fetchedAt = 0;
+  private refresh: Promise<void> | null = null;
+
+  constructor(options: OfflineVerifyOptions) {
+    this.options = options;
+    this.baseUrl = options.apiBaseUrl || DEFAULT_API_BASE;
+  }
+
+  /**
+   * @param remoteIp - The visitor's IP, checked against the token's when
+   *   enforceSingleUse redeems it with API client credentials
+   */
+  async verify(token: string, remoteIp?: string): Promise<OfflineVerifyResult> {
+    const parts = typeof token === 'string' ? token.split('.') : [];
+    if (parts.length !== 3) {
+      return { valid: false, error: 'malformed_token' };
+    }
+
+    const header = decodeJson<{ alg?: string; kid?: string }>(parts[0]);
+    const claims = decodeJson<VerifyTokenClaims>(parts[1]);
+    if (!header || !claims) {
+      return { valid: false, error: 'malformed_token' };
+    }
+    if (header.alg !== 'EdDSA' || !header.kid) {
+      return { valid: false, error: 'unsupported_algorithm' };
+    }
+
+    let key: CryptoKey | undefined;
+    try {
+      key = await this.getKey(header.kid);
+    } catch {
+      return { valid: false, error: 'jwks_unavailable' };
+    }
+    if (!key) {
+      return { valid: false, error: 'unknown_key' };
+    }
+
+    const signatureValid = await crypto.subtle.verify(
+      { name: 'Ed25519' },
+      key,
+      base64UrlDecode(parts[2]),
+      new TextEncoder().encode(`${parts[0]}.${parts[1]}`)
+    );
+    if (!signatureValid) {
+      return { valid: false, error: 'invalid_signature' };
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const tolerance = this.options.clockToleranceSeconds ?? 5;
+    if (typeof claims.exp !== 'number' || claims.exp + tolerance < now) {
+      return { valid: false, claims, error: 'expired' };
+    }
+
+    if (claims.siteKey !== this.options.siteKey) {
+      return { valid: false, claims, error: 'site_key_mismatch' };
+    }
+
+    // Pin the page the widget ran on; "*.example.com" matches subdomains only
+    const expected = this.options.expectedHostnames;
+    if (expected && expected.length > 0 && !expected.some(pattern => matchesHostname(claims.hostname, pattern))) {
+      return { valid: false, claims, error: 'hostname_mismatch' };
+    }
+
+    // Tokens solved for another form (e.g. a newsletter signup) are refused
+    if (this.options.expectedAction !== undefined && claims.action !== this.options.expectedAction) {
+      return { valid: false, claims, error: 'action_mismatch' };
+    }
+
+    if (this.options.minScore !== undefined && claims.score < this.options.minScore) {
+      return { valid: false, claims, error: 'score_too_low' };
+    }
+
+    // Single-use enforcement needs the server's record of spent tokens
+    if (this.options.enforceSingleUse) {
+      const error = await this.consumeOnline(token, remoteIp);
+      if (error) {
+        return { valid: false, claims, error };
+      }
+    }
+
+    return { valid: true, claims };
+  }
+
+  private async getKey(kid: string): Promise<CryptoKey | undefined> {
+    const ttl = this.options.jwksCacheTtlMs ?? DEFAULT_JWKS_TTL_MS;
+    const age = Date.now() - this.fetchedAt;
+
+    // Refetch when the cache is stale, or early when an unknown kid shows up (key rotation)
+    if (age > ttl || (!this.keys.has(kid) && age > MIN_REFETCH_INTERVAL_MS)) {
+      if (!this.refresh) {
+        this.refresh = this.fetchKeys().finally(() => {
+          this.refresh = null;
+        });
+      }
+      await this.refresh;
+    }
+
+    return this.keys.get(kid);
+  }
+
+  private async fetchKeys(): Promise<void> {
+    const url = `${this.baseUrl}/.well-known/jwks.json?siteKey=${encodeURIComponent(this.options.siteKey)}`;
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch JWKS: ${response.statusText}`);
+    }
+
+    const { keys } = await response.json() as { keys: Jwk[] };
+    const imported = new Map<string, CryptoKey>();
+
+    for (const jwk of keys) {
+      if (jwk.kty !== 'OKP' || jwk.crv !== 'Ed25519' || !jwk.kid || !jwk.x) continue;
+      const key = await crypto.subtle.importKey(
+        'jwk',
+        { kty: jwk.kty, crv: jwk.crv, x: jwk.x },
+        { name: 'Ed25519' },
+        false,
+        ['verify']
+      );
+      imported.set(jwk.kid, key);
+    }
+
+    this.keys = imported;
+    this.fetchedAt = Date.now();
+  }
+
+  // Redeem the token once on the server; resolves with the error, or null once it is spent
+  private async consumeOnline(token: string, remoteIp?: string): Promise<OfflineVerifyError | null> {
+    const { apiKey, secretKey } = this.options;
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/api/incaptcha/verify`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ verifyToken: token, apiKey, secretKey, remoteIp }),
+      });
+    } catch {
+      return 'verify_unavailable';
+    }
+
+    const result = await response.json().catch(() => null) as { valid?: boolean; reason?: string } | null;
+    if (result?.valid) return null;
+    if (result?.reason && ONLINE_ERRORS[result.reason]) return ONLINE_ERRORS[result.reason];
+    if (response.status === 401) return 'invalid_credentials';
+    if (response.status === 429) return 'rate_limited';
+    return 'verify_unavailable';
+  }
+}
+
+/**
+ * One-off helper; reuse an InCaptchaVerifier to keep the JWKS cache between calls
+ */
+export function verifyTokenOffline(token: string, options: OfflineVerifyOptions): Promise<OfflineVerifyResult> {
+  return new InCaptchaVerifier(options).verify(token);
+}
@@ -0,0 +1,101 @@
+import type { BehaviorVector, EnvironmentReport, SealedTelemetry, SessionResponse } from './types';
+
+// Sealed behavior telemetry
+// Opening a session runs an ephemeral P-256 ECDH exchange with
+// /api/captcha/checkbox/init; HKDF over the shared secret, salted with the
+// session nonce, gives an AES-256-GCM key that never leaves WebCrypto. Each
+// behavior vector is sealed with the nonce, a timestamp and the next sequence
+// number, so the server can refuse envelopes that were tampered with, come
+// from another session, are replayed or are stale. It only ties the vector to
+// whoever opened the session, not to a genuine widget. The
+// environment report travels in the same sealed payload; the server fails an
+// envelope without one.
+
+const TELEMETRY_KEY_INFO = 'incaptcha-telemetry-v1';
+
+function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  for (let i = 0; i < view.length; i++) binary += String.fromCharCode(view[i]);
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export interface TelemetrySessionOptions {
+  action?: string;
+  cData?: string;
+  embedOrigin?: string;
+}
+
+export class TelemetrySession {
+  private seq = 0;
+
+  private constructor(
+    readonly sessionId: string,
+    readonly nonce: string,
+    private readonly key: CryptoKey
+  ) {}
+
+  /**
+   * Start a widget session and derive its telemetry key
+   */
+  static async open(apiBaseUrl: string, siteKey: string, options: TelemetrySessionOptions = {}): Promise<TelemetrySession> {
+    const keyPair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveBits']);
+    const publicKey = await crypto.subtle.exportKey('raw', keyPair.publicKey);
+
+    const response = await fetch(`${apiBaseUrl}/api/captcha/checkbox/init`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ siteKey, ...options, telemetryKey: toBase64(publicKey) }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to initialize session: ${response.statusText}`);
+    }
+    const session: SessionResponse = await response.json();
+    if (!session.telemetryKey) {
+      throw new Error('Server did not complete the telemetry key exchange');
+    }
+
+    const serverKey = await crypto.subtle.importKey('raw', fromBase64(session.telemetryKey), { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+    const sharedSecret = await crypto.subtle.deriveBits({ name: 'ECDH', public: serverKey }, keyPair.privateKey, 256);
+    const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt: encoder.encode(session.nonce), info: encoder.encode(TELEMETRY_KEY_INFO) },
+      hkdfKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt']
+    );
+
+    return new TelemetrySession(session.sessionId, session.nonce, key);
+  }
+
+  /**
+   * Seal a behavior vector and the environment report for the next request in this session
+   */
+  async seal(behaviorVector: BehaviorVector, environment: EnvironmentReport): Promise<SealedTelemetry> {
+    const seq = ++this.seq;
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const encoder = new TextEncoder();
+    const plaintext = encoder.encode(JSON.stringify({ nonce: this.nonce, seq, ts: Date.now(), behaviorVector, environment }));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: encoder.encode(`${this.sessionId}.${seq}`) },
+      this.key,
+      plaintext
+    );
+
+    return {
+      sessionId: this.sessionId,
+      seq,
+      iv: toBase64(iv),
+      ciphertext: toBase64(ciphertext),
+    };
+  }
+}
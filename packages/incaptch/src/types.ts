@@ -7,8 +7,20 @@ export interface CheckboxOptions {
   siteKey: string;
   onVerify: (token: string) => void;
   onError?: (error: string) => void;
+  // Called when the token lapses and the widget resets itself
+  onExpire?: () => void;
   theme?: 'light' | 'dark';
   apiBaseUrl?: string;
+  action?: string;
+  cData?: string;
+}
+
+export interface InvisibleOptions {
+  siteKey: string;
+  apiBaseUrl?: string;
+  cData?: string;
+  // Theme of the jigsaw modal shown when the visitor is escalated
+  theme?: 'light' | 'dark';
 }
 
 export interface VerifyTokenResponse {
@@ -22,6 +34,8 @@ export interface SessionResponse {
   sessionId: string;
   nonce: string;
   expiresAt: string;
+  // Server's ECDH public key, when the request sent one of its own
+  telemetryKey?: string;
 }
 
 export interface TokenIntrospectRequest {
@@ -36,6 +50,9 @@ export interface TokenIntrospectResponse {
     challengeId: string;
     siteKey: string;
     score: number;
+    hostname: string | null;
+    action: string | null;
+    cData: string | null;
     used: boolean;
     expired: boolean;
     createdAt: string;
@@ -50,6 +67,40 @@ export interface MouseSample {
   y: number;
 }
 
+// How the visitor activated the widget: the last pointer's type, or the keyboard
+export type InputModality = 'mouse' | 'pen' | 'touch' | 'keyboard' | 'none';
+
+export interface TouchDynamics {
+  taps: number;
+  // Mean and spread of touch contact time, pointerdown to pointerup (ms)
+  tapDuration: number;
+  tapDurationStdDev: number;
+  // Mean PointerEvent pressure and contact radius (px); 0 when the device reports none
+  pressure: number;
+  radius: number;
+}
+
+// Timings only; which keys were pressed is never recorded beyond Tab, Enter and Space
+export interface KeyboardDynamics {
+  keystrokes: number;
+  // Mean keydown to keyup hold time (ms); 0 until a key has been released
+  dwellTime: number;
+  // Mean and spread of the time between keydowns (ms)
+  flightTime: number;
+  flightTimeStdDev: number;
+  tabNavigations: number;
+  // From the last focus change to the Enter/Space that activated the widget (ms)
+  focusToActivation: number;
+}
+
+export interface VisibilityDynamics {
+  hiddenCount: number;
+  hiddenDuration: number;
+  // Whether the page was hidden when the activating pointer or key event arrived,
+  // which only synthetic events can do
+  hiddenAtActivation: boolean;
+}
+
 export interface BehaviorVector {
   mouseTrajectory: MouseSample[];
   clickLatency: number;
@@ -57,11 +108,86 @@ export interface BehaviorVector {
   mouseVelocity: number;
   timestamp: number;
   scrollBehavior: { scrollY: number; scrollVelocity: number };
+  pointerType: InputModality;
+  touch: TouchDynamics;
+  keyboard: KeyboardDynamics;
+  visibility: VisibilityDynamics;
+}
+
+// Browser properties that headless and automated browsers tend to get wrong
+// (see collectEnvironmentReport); sealed alongside the behavior vector
+export interface EnvironmentReport {
+  userAgent: string;
+  webdriver: boolean;
+  plugins: number;
+  mimeTypes: number;
+  // Every plugin's mime types point back at that plugin
+  pluginsConsistent: boolean;
+  // Unmasked WebGL vendor and renderer; null without WebGL
+  webglVendor: string | null;
+  webglRenderer: string | null;
+  screen: { width: number; height: number; availWidth: number; availHeight: number };
+  window: { outerWidth: number; outerHeight: number; innerWidth: number; innerHeight: number };
+  timezone: string;
+  locale: string;
+  languages: string[];
+  notificationPermission: 'default' | 'granted' | 'denied' | 'unsupported';
+  // permissions.query({ name: 'notifications' }); null when the API is missing
+  permissionState: 'prompt' | 'granted' | 'denied' | null;
+  hasChromeObject: boolean;
+  // Names of automation globals found on window and document
+  automationArtifacts: string[];
+  // Whether logging an Error through the console read its stack, as a CDP Runtime domain does;
+  // null unless collectEnvironmentReport was asked to probe for it
+  cdpRuntime: boolean | null;
+}
+
+// A behavior vector sealed with the session's telemetry key (see TelemetrySession)
+export interface SealedTelemetry {
+  sessionId: string;
+  seq: number;
+  iv: string;
+  ciphertext: string;
 }
 
 export interface TurnstileVerifyRequest {
   siteKey: string;
-  behaviorVector: BehaviorVector;
+  telemetry?: SealedTelemetry;
+  preferredChallenge?: 'pow';
+  action?: string;
+  cData?: string;
+}
+
+export interface PowChallenge {
+  algorithm: 'SHA-256';
+  salt: string;
+  difficulty: number;
+}
+
+// A draggable piece; where it belongs is only drawn into the background image
+export interface JigsawPiece {
+  id: number;
+  startX: number;
+  startY: number;
+  edges: {
+    top: 'tab' | 'slot' | 'flat';
+    right: 'tab' | 'slot' | 'flat';
+    bottom: 'tab' | 'slot' | 'flat';
+    left: 'tab' | 'slot' | 'flat';
+  };
+}
+
+export interface JigsawRenderData {
+  canvasSize: number;
+  pieceSize: number;
+  // PNG data URL of the background with the gaps cut into it
+  image: string;
+  pieces: JigsawPiece[];
+}
+
+export interface JigsawSolution {
+  placements: Array<{ pieceId: number; x: number; y: number }>;
+  dragTrace: Array<{ pieceId: number; t: number; x: number; y: number }>;
 }
 
 export interface TurnstileVerifyResponse {
@@ -72,6 +198,8 @@ export interface TurnstileVerifyResponse {
   challengeType?: string;
   challengeId?: string;
   challengeToken?: string;
+  puzzle?: JigsawRenderData;
+  pow?: PowChallenge;
   riskScore?: number;
   error?: string;
 }
@@ -79,6 +207,8 @@ export interface TurnstileVerifyResponse {
 export interface ChallengeStartRequest {
   siteKey: string;
   challengeType?: string;
+  action?: string;
+  cData?: string;
 }
 
 export interface ChallengeStartResponse {
@@ -91,8 +221,11 @@ export interface ChallengeStartResponse {
 
 export interface ChallengeSolveRequest {
   challengeId: string;
-  solution: any;
-  siteKey: string;
+  challengeToken?: string;
+  solution?: any;
+  nonce?: string;
+  siteKey?: string;
+  telemetry?: SealedTelemetry;
 }
 
 export interface ChallengeSolveResponse {
@@ -101,3 +234,57 @@ export interface ChallengeSolveResponse {
   score?: number;
   error?: string;
 }
+
+export interface VerifyTokenClaims {
+  challengeId: string;
+  siteKey: string;
+  score: number;
+  verified: boolean;
+  hostname?: string;
+  action?: string;
+  cData?: string;
+  iat: number;
+  exp: number;
+  jti: string;
+}
+
+export interface OfflineVerifyOptions {
+  siteKey: string;
+  minScore?: number;
+  expectedHostnames?: string[];
+  expectedAction?: string;
+  apiBaseUrl?: string;
+  jwksCacheTtlMs?: number;
+  clockToleranceSeconds?: number;
+  enforceSingleUse?: boolean;
+  // API client credentials for the enforceSingleUse call; without them it is
+  // limited per IP and bound to the IP the visitor solved from
+  apiKey?: string;
+  secretKey?: string;
+}
+
+export type OfflineVerifyError =
+  | 'malformed_token'
+  | 'unsupported_algorithm'
+  | 'jwks_unavailable'
+  | 'unknown_key'
+  | 'invalid_signature'
+  | 'expired'
+  | 'site_key_mismatch'
+  | 'hostname_mismatch'
+  | 'action_mismatch'
+  | 'score_too_low'
+  // From the enforceSingleUse call to /api/incaptcha/verify
+  | 'already_used'
+  | 'not_found'
+  | 'ip_mismatch'
+  | 'payload_mismatch'
+  | 'invalid_credentials'
+  | 'rate_limited'
+  | 'verify_unavailable';
+
+export interface OfflineVerifyResult {
+  valid: boolean;
+  claims?: VerifyTokenClaims;
+  error?: OfflineVerifyError;
+}
@@ -0,0 +1,85 @@
+import { collectEnvironmentReport } from './environment';
+import { solvePowChallenge } from './pow';
+import { TelemetrySession } from './telemetry';
+import type { BehaviorVector, JigsawRenderData, JigsawSolution, TurnstileVerifyResponse } from './types';
+
+// Verification with challenge escalation
+// Opens a telemetry session, then sends the sealed behavior vector and
+// environment report to /api/incaptcha/turnstile/verify. A proof-of-work
+// escalation is solved in a worker without interaction; a jigsaw escalation is
+// handed to solveJigsaw when the caller can show one.
+
+export class VerificationFailedError extends Error {
+  constructor(message: string = 'Verification failed') {
+    super(message);
+    this.name = 'VerificationFailedError';
+  }
+}
+
+export interface VerificationRequest {
+  apiBaseUrl: string;
+  siteKey: string;
+  action?: string;
+  cData?: string;
+  // Set by the widget frame, whose own origin is InCaptcha's
+  embedOrigin?: string;
+  preferredChallenge?: 'pow';
+  getBehaviorVector: () => BehaviorVector;
+  // Shows the puzzle and resolves with the visitor's solution
+  solveJigsaw?: (puzzle: JigsawRenderData) => Promise<JigsawSolution>;
+}
+
+async function postJson<T>(url: string, body: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return response.json();
+}
+
+/**
+ * Run a verification, escalating as the server asks
+ * @returns The verify token
+ * @throws VerificationFailedError when the server refuses, or a network error
+ */
+export async function verifyWithEscalation(request: VerificationRequest): Promise<string> {
+  const { apiBaseUrl, siteKey, action, cData, embedOrigin, preferredChallenge, getBehaviorVector, solveJigsaw } = request;
+
+  const telemetry = await TelemetrySession.open(apiBaseUrl, siteKey, { action, cData, embedOrigin });
+  const environment = await collectEnvironmentReport();
+
+  let data = await postJson<TurnstileVerifyResponse & { message?: string }>(`${apiBaseUrl}/api/incaptcha/turnstile/verify`, {
+    siteKey,
+    telemetry: await telemetry.seal(getBehaviorVector(), environment),
+    preferredChallenge,
+    action,
+    cData,
+    embedOrigin,
+  });
+
+  if (data.requiresChallenge && data.challengeType === 'pow' && data.pow) {
+    // Medium risk: solve the proof-of-work in a worker, no interaction needed
+    const nonce = await solvePowChallenge(data.pow);
+    data = await postJson(`${apiBaseUrl}/api/incaptcha/solve`, {
+      challengeId: data.challengeId,
+      challengeToken: data.challengeToken,
+      nonce,
+      telemetry: await telemetry.seal(getBehaviorVector(), environment),
+    });
+  } else if (data.requiresChallenge && data.challengeType === 'jigsaw' && data.puzzle && solveJigsaw) {
+    const solution = await solveJigsaw(data.puzzle);
+    data = await postJson(`${apiBaseUrl}/api/incaptcha/solve`, {
+      challengeId: data.challengeId,
+      challengeToken: data.challengeToken,
+      selectedIndices: [],
+      solution,
+      telemetry: await telemetry.seal(getBehaviorVector(), environment),
+    });
+  }
+
+  if (data.success && data.verifyToken) {
+    return data.verifyToken;
+  }
+  throw new VerificationFailedError();
+}
@@ -0,0 +1,25 @@
+import { defineConfig } from 'tsup';
+
+export default defineConfig([
+  {
+    entry: ['src/index.ts', 'src/server.ts', 'src/compat.ts', 'src/loader.ts'],
+    format: ['cjs', 'esm'],
+    dts: true,
+  },
+  {
+    // Script-tag bundles: incaptcha.js (native loader), incaptcha-compat.js
+    // (drop-in for the reCAPTCHA / Turnstile api.js) and incaptcha-frame.js,
+    // which runs inside the /widget iframe. Dependencies, React included, are
+    // bundled in so the embedding page needs nothing else.
+    entry: {
+      incaptcha: 'src/loader.ts',
+      'incaptcha-compat': 'src/compat.ts',
+      'incaptcha-frame': 'src/frame.tsx',
+    },
+    format: ['iife'],
+    outExtension: () => ({ js: '.js' }),
+    minify: true,
+    noExternal: [/.*/],
+    define: { 'process.env.NODE_ENV': '"production"' },
+  },
+]);
@@ -0,0 +1,86 @@
+import { writeFile } from 'fs/promises';
+import { DEFAULT_SITE_POLICY, getSitePolicy } from './lib/policy';
+import { evaluateSamples, loadLabeledSamples, type ComponentReport } from './lib/evaluation';
+import { loadBotModel } from './lib/botModel';
+
+// Offline scoring evaluation over labeled JSONL behavior datasets
+//
+//   npm run eval:scoring -- [--site-key <key>] [--json <report.json>] <samples.jsonl>...
+//
+// Each line is { "label": "human" | "bot", "behaviorVector": {...}, "userAgent"?, "semanticScore"? }.
+// Without --site-key the default policy's weights and thresholds are used;
+// with it, the site's stored policy is read from the database.
+
+const USAGE = 'Usage: npm run eval:scoring -- [--site-key <key>] [--json <report.json>] <samples.jsonl>...';
+
+function parseArgs(argv: string[]): { siteKey?: string; jsonPath?: string; files: string[] } {
+  const files: string[] = [];
+  let siteKey: string | undefined;
+  let jsonPath: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--site-key' || arg === '--json') {
+      const value = argv[++i];
+      if (!value) throw new Error(`${arg} needs a value`);
+      if (arg === '--site-key') siteKey = value;
+      else jsonPath = value;
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option ${arg}`);
+    } else {
+      files.push(arg);
+    }
+  }
+
+  if (files.length === 0) throw new Error('No sample files given');
+  return { siteKey, jsonPath, files };
+}
+
+const percent = (value: number) => (Number.isNaN(value) ? '   n/a' : `${(value * 100).toFixed(1).padStart(5)}%`);
+
+function printComponent(report: ComponentReport) {
+  console.log(`\n${report.component} (${report.samples} samples)  AUC ${Number.isNaN(report.auc) ? 'n/a' : report.auc.toFixed(3)}`);
+  console.log('  threshold         precision  recall     TP     FN     FP     TN');
+  for (const t of report.thresholds) {
+    const { truePositives, falseNegatives, falsePositives, trueNegatives } = t.confusion;
+    console.log(
+      `  ${`${t.name} >= ${t.threshold}`.padEnd(16)}  ${percent(t.precision)}    ${percent(t.recall)}` +
+      [truePositives, falseNegatives, falsePositives, trueNegatives].map(n => String(n).padStart(7)).join('')
+    );
+  }
+}
+
+async function main() {
+  let args: ReturnType<typeof parseArgs>;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(USAGE);
+    process.exit(2);
+  }
+
+  const policy = args.siteKey ? await getSitePolicy(args.siteKey) : DEFAULT_SITE_POLICY;
+  const samples = await loadLabeledSamples(args.files);
+  // The ai component is scored by the trained classifier the server would load
+  const model = await loadBotModel();
+  const report = evaluateSamples(samples, policy.weights, policy.thresholds);
+
+  console.log(`${samples.length} samples: ${report.humans} human, ${report.bots} bot`);
+  console.log(`Policy: ${args.siteKey ? `site ${args.siteKey}` : 'defaults'}`);
+  console.log(`Bot classifier: ${model ? model.version : 'fallback weights'}`);
+  console.log('Positive = human; a score at or above the threshold passes.');
+  report.components.forEach(printComponent);
+
+  if (args.jsonPath) {
+    await writeFile(args.jsonPath, JSON.stringify(report, null, 2));
+    console.log(`\nFull report with ROC curves written to ${args.jsonPath}`);
+  }
+
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
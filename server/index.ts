@@ -1,5 +1,7 @@
 import Fastify from "fastify";
 import { registerRoutes } from "./routes";
+import { registerAuth } from "./lib/auth";
+import { loadBotModel } from "./lib/botModel";
 import { setupVite, serveStatic, log } from "./vite";
 
 const fastify = Fastify({
@@ -8,17 +10,22 @@ const fastify = Fastify({
   trustProxy: true,
 });
 
-// Add raw body support for request verification
+// JSON bodies; malformed JSON is rejected with a 400
 fastify.addContentTypeParser('application/json', { parseAs: 'buffer' }, function (req, body, done) {
   try {
     const json = JSON.parse(body.toString());
-    done(null, { raw: body, parsed: json });
+    done(null, json);
   } catch (err: any) {
     err.statusCode = 400;
     done(err, undefined);
   }
 });
 
+// Form-encoded bodies, as sent by reCAPTCHA/hCaptcha/Turnstile server integrations to /siteverify
+fastify.addContentTypeParser('application/x-www-form-urlencoded', { parseAs: 'string' }, function (req, body, done) {
+  done(null, Object.fromEntries(new URLSearchParams(body as string)));
+});
+
 // Request logging middleware
 fastify.addHook('onRequest', async (request, reply) => {
   (request as any).startTime = Date.now();
@@ -40,6 +47,16 @@ fastify.addHook('onResponse', async (request, reply) => {
 });
 
 (async () => {
+  try {
+    const model = await loadBotModel();
+    console.log(model
+      ? `✓ Bot classifier ${model.version} loaded (${model.kind})`
+      : 'No trained bot classifier found, using fallback weights');
+  } catch (err) {
+    console.error('Failed to load bot classifier, using fallback weights:', err);
+  }
+
+  await registerAuth(fastify);
   await registerRoutes(fastify);
 
   // Error handler
@@ -0,0 +1,68 @@
+import { z } from 'zod';
+import type { VerifyTokenClaims } from '../crypto';
+
+// Actions and custom data
+// The widget names the form it protects (login, signup, checkout) and may pass
+// an opaque cData string. Both travel with the challenge or widget session, are
+// stored on the verify token, signed into it, and echoed back by /verify and
+// introspection so the relying party can refuse tokens solved elsewhere.
+
+export const MAX_ACTION_LENGTH = 32;
+export const MAX_CDATA_LENGTH = 255;
+
+export const widgetActionSchema = z.object({
+  action: z
+    .string()
+    .regex(/^[A-Za-z0-9_-]+$/, 'action may only contain letters, digits, "_" and "-"')
+    .max(MAX_ACTION_LENGTH)
+    .nullish(),
+  cData: z
+    .string()
+    .regex(/^[A-Za-z0-9_-]+$/, 'cData may only contain letters, digits, "_" and "-"')
+    .max(MAX_CDATA_LENGTH)
+    .nullish(),
+});
+
+export interface WidgetAction {
+  action: string | null;
+  cData: string | null;
+}
+
+/**
+ * Validate the action and cData sent by the widget. Empty strings count as absent.
+ */
+export function parseWidgetAction(body: unknown):
+  | { success: true; data: WidgetAction }
+  | { success: false; error: string } {
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const result = widgetActionSchema.safeParse({
+    action: input.action === '' ? undefined : input.action,
+    cData: input.cData === '' ? undefined : input.cData,
+  });
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', '),
+    };
+  }
+
+  return {
+    success: true,
+    data: {
+      action: result.data.action ?? null,
+      cData: result.data.cData ?? null,
+    },
+  };
+}
+
+/**
+ * The claims recorded in challenge or widget session metadata when it was issued
+ */
+export function getTokenClaims(metadata: Record<string, any> | null | undefined): Required<VerifyTokenClaims> {
+  return {
+    hostname: metadata?.hostname ?? null,
+    action: metadata?.action ?? null,
+    cData: metadata?.cData ?? null,
+  };
+}
@@ -10,11 +10,11 @@
  * - Research on behavioral biometrics and mouse dynamics
  */
 
-// TensorFlow.js model for bot detection
-// In production, this would load a pre-trained model
-// For now, we use feature engineering + heuristics
+import type { ReasonCode } from '@shared/schema';
+import { BOT_MODEL_FEATURES, getBotModel, runBotModel } from './botModel';
+import { keyboardDynamics, scoredModality, touchDynamics, visibilityDynamics, type ModalitySignals } from './inputModality';
 
-interface BehaviorVector {
+interface BehaviorVector extends ModalitySignals {
   mouseTrajectory?: Array<{ t: number; x: number; y: number }>;
   clickLatency?: number;
   hoverDuration?: number;
@@ -32,7 +32,7 @@ export function extractAIFeatures(behaviorVector: BehaviorVector | undefined | n
   
   // Handle missing or null behaviorVector
   if (!behaviorVector) {
-    return [0, 0, 0, 0, 0, 0, 0]; // All zeros = suspicious
+    return new Array(BOT_MODEL_FEATURES).fill(0); // All zeros = suspicious
   }
   
   // Feature 1-3: Mouse trajectory statistics
@@ -92,19 +92,39 @@ export function extractAIFeatures(behaviorVector: BehaviorVector | undefined | n
   // Feature 7: Scroll activity (normalized)
   const scrollVelocity = behaviorVector.scrollBehavior?.scrollVelocity || 0;
   features.push(Math.min(1, Math.abs(scrollVelocity) / 1000));
-  
+
+  // Features 8-9: Input modality (mouse and pen are neither)
+  const modality = scoredModality(behaviorVector);
+  features.push(modality === 'touch' ? 1 : 0, modality === 'keyboard' ? 1 : 0);
+
+  // Features 10-11: Touch tap duration (humans: 50-300ms) and contact radius
+  const touch = touchDynamics(behaviorVector);
+  features.push(Math.min(1, (touch?.tapDuration || 0) / 500));
+  features.push(Math.min(1, (touch?.radius || 0) / 25));
+
+  // Features 12-14: Key hold time, key rhythm spread and the pause before Enter/Space
+  const keyboard = keyboardDynamics(behaviorVector);
+  features.push(Math.min(1, (keyboard?.dwellTime || 0) / 300));
+  features.push(Math.min(1, (keyboard?.flightTimeStdDev || 0) / 300));
+  features.push(Math.min(1, Math.max(0, ((keyboard?.focusToActivation || 0) - 150) / 4850)));
+
+  // Features 15-16: Page visibility changes and activation while hidden
+  const visibility = visibilityDynamics(behaviorVector);
+  features.push(Math.min(1, (visibility?.hiddenCount || 0) / 5));
+  features.push(visibility?.hiddenAtActivation ? 1 : 0);
+
   return features;
 }
 
 /**
- * Simple neural network classifier (placeholder for TensorFlow model)
- * In production, replace with trained TensorFlow.js model
- * 
- * This implements a basic perceptron for demonstration
+ * Bot probability from the trained classifier loaded at startup (see
+ * botModel.ts), falling back to a fixed-weight perceptron when none is loaded
  */
 export function predictBotProbability(features: number[]): number {
-  // Weights learned from behavioral data analysis
-  // These would be replaced with actual trained model weights
+  const model = getBotModel();
+  if (model) return runBotModel(model, features);
+
+  // Handpicked fallback weights
   const weights = [
     0.15,  // Trajectory length
     0.25,  // Curvature variance (highly discriminative)
@@ -113,6 +133,8 @@ export function predictBotProbability(features: number[]): number {
     0.10,  // Hover duration
     0.10,  // Mouse velocity
     0.05,  // Scroll activity
+    // The modality, touch, keyboard and visibility features are left to trained models
+    0, 0, 0, 0, 0, 0, 0, 0, 0,
   ];
   
   // Bias term (threshold)
@@ -155,14 +177,24 @@ export function calculateAIBotScore(behaviorVector: BehaviorVector | undefined |
 /**
  * Advanced anomaly detection using statistical methods
  * Detects zero-day bot attacks and novel automation patterns
+ *
+ * Each anomaly's reason code takes its weight off the anomaly detection
+ * method's score, which starts at 100.
  */
 export function detectAnomalies(behaviorVector: BehaviorVector | undefined | null): {
   isAnomaly: boolean;
   anomalyScore: number;
   anomalies: string[];
+  reasons: ReasonCode[];
 } {
   const anomalies: string[] = [];
+  const reasons: ReasonCode[] = [];
   let anomalyScore = 0;
+  const flag = (anomaly: string, weight: number) => {
+    anomalies.push(anomaly);
+    reasons.push({ component: 'anomaly', code: anomaly, points: -weight });
+    anomalyScore += weight;
+  };
   
   // Handle missing or null behaviorVector
   if (!behaviorVector) {
@@ -170,6 +202,7 @@ export function detectAnomalies(behaviorVector: BehaviorVector | undefined | nul
       isAnomaly: true,
       anomalyScore: 100,
       anomalies: ['missing_behavior_data'],
+      reasons: [{ component: 'anomaly', code: 'missing_behavior_data', points: -100 }],
     };
   }
   
@@ -186,39 +219,62 @@ export function detectAnomalies(behaviorVector: BehaviorVector | undefined | nul
     );
     
     if (stdDev < 5) {
-      anomalies.push('perfect_timing');
-      anomalyScore += 30;
+      flag('perfect_timing', 30);
     }
   }
   
   // Anomaly 2: Instant click (< 50ms)
   if (behaviorVector.clickLatency !== undefined && behaviorVector.clickLatency < 50) {
-    anomalies.push('instant_click');
-    anomalyScore += 25;
+    flag('instant_click', 25);
   }
   
-  // Anomaly 3: No mouse movement
-  if (!behaviorVector.mouseTrajectory || behaviorVector.mouseTrajectory.length < 2) {
-    anomalies.push('no_mouse_movement');
-    anomalyScore += 35;
+  // Anomaly 3: No input from the modality that activated the widget
+  const modality = scoredModality(behaviorVector);
+  const touch = touchDynamics(behaviorVector);
+  const keyboard = keyboardDynamics(behaviorVector);
+  if (modality === 'touch') {
+    if (!touch || touch.taps === 0) flag('no_touch_data', 35);
+  } else if (modality === 'keyboard') {
+    if (!keyboard || keyboard.keystrokes === 0) flag('no_keyboard_data', 35);
+  } else if (!behaviorVector.mouseTrajectory || behaviorVector.mouseTrajectory.length < 2) {
+    flag('no_mouse_movement', 35);
   }
   
   // Anomaly 4: Superhuman speed (velocity > 5000 px/s)
   if (behaviorVector.mouseVelocity && behaviorVector.mouseVelocity > 5000) {
-    anomalies.push('superhuman_velocity');
-    anomalyScore += 20;
+    flag('superhuman_velocity', 20);
+  }
+
+  // Anomaly 5: Perfectly regular taps or keystrokes
+  if ((touch && touch.taps >= 2 && touch.tapDurationStdDev < 1) ||
+      (keyboard && keyboard.keystrokes >= 3 && keyboard.flightTimeStdDev < 1)) {
+    flag('uniform_input_rhythm', 25);
+  }
+
+  // Anomaly 6: Key released the instant it was pressed
+  if (keyboard && keyboard.dwellTime > 0 && keyboard.dwellTime < 5) {
+    flag('synthetic_keypress', 25);
+  }
+
+  // Anomaly 7: Activated by an input event on a hidden page
+  if (visibilityDynamics(behaviorVector)?.hiddenAtActivation) {
+    flag('activated_while_hidden', 40);
   }
   
   return {
     isAnomaly: anomalyScore > 40,
     anomalyScore,
     anomalies,
+    reasons,
   };
 }
 
 /**
  * Comprehensive AI-powered bot detection
  * Combines multiple ML techniques for robust detection
+ *
+ * Reason codes are reported per method: `ai` relative to a neutral 50,
+ * `anomaly` off a clean 100 and `heuristics` on top of a base of 50.
  */
 export function comprehensiveAIDetection(behaviorVector: BehaviorVector | undefined | null): {
   score: number;
@@ -229,6 +285,7 @@ export function comprehensiveAIDetection(behaviorVector: BehaviorVector | undefi
     anomalyDetection: number;
     heuristics: number;
   };
+  reasons: ReasonCode[];
 } {
   // Handle missing or null behaviorVector
   // Return neutral score to allow device trust and other signals to determine outcome
@@ -243,6 +300,7 @@ export function comprehensiveAIDetection(behaviorVector: BehaviorVector | undefi
         anomalyDetection: 50,
         heuristics: 50,
       },
+      reasons: [{ component: 'ai', code: 'no_behavior_data', points: 0 }],
     };
   }
   
@@ -254,15 +312,39 @@ export function comprehensiveAIDetection(behaviorVector: BehaviorVector | undefi
   const anomalyScore = 100 - anomalyResult.anomalyScore;
   
   // Method 3: Heuristic Score (fallback)
+  const reasons: ReasonCode[] = [
+    { component: 'ai', code: 'model_prediction', points: aiScore - 50 },
+    ...anomalyResult.reasons,
+  ];
   let heuristicScore = 50;
-  if (behaviorVector.mouseTrajectory && behaviorVector.mouseTrajectory.length > 5) {
-    heuristicScore += 20;
+  const heuristic = (code: string, points: number) => {
+    reasons.push({ component: 'heuristics', code, points });
+    heuristicScore += points;
+  };
+  // Touch and keyboard visitors earn the movement and hover points their own way
+  const modality = scoredModality(behaviorVector);
+  const touch = touchDynamics(behaviorVector);
+  const keyboard = keyboardDynamics(behaviorVector);
+  if (modality === 'touch') {
+    if (touch && touch.taps > 0 && touch.tapDuration >= 40) {
+      heuristic('touch_input', 20);
+    }
+  } else if (modality === 'keyboard') {
+    if (keyboard && keyboard.keystrokes > 0 && keyboard.focusToActivation >= 150) {
+      heuristic('keyboard_input', 20);
+    }
+  } else if (behaviorVector.mouseTrajectory && behaviorVector.mouseTrajectory.length > 5) {
+    heuristic('mouse_movement', 20);
   }
   if (behaviorVector.clickLatency && behaviorVector.clickLatency > 500) {
-    heuristicScore += 15;
+    heuristic('human_click_latency', 15);
   }
-  if (behaviorVector.hoverDuration && behaviorVector.hoverDuration > 100) {
-    heuristicScore += 15;
+  if (modality === 'touch') {
+    if (touch && touch.radius > 1) heuristic('natural_contact_area', 15);
+  } else if (modality === 'keyboard') {
+    if (keyboard && keyboard.tabNavigations > 0) heuristic('tab_navigation', 15);
+  } else if (behaviorVector.hoverDuration && behaviorVector.hoverDuration > 100) {
+    heuristic('human_hover', 15);
   }
   
   // Ensemble: weighted average of all methods
@@ -287,5 +369,6 @@ export function comprehensiveAIDetection(behaviorVector: BehaviorVector | undefi
       anomalyDetection: anomalyScore,
       heuristics: heuristicScore,
     },
+    reasons,
   };
 }
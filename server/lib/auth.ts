@@ -0,0 +1,244 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import fastifyCookie from '@fastify/cookie';
+import fastifySession from '@fastify/session';
+import bcrypt from 'bcryptjs';
+import { nanoid } from 'nanoid';
+import type { Operator, OperatorRole, Organization } from '@shared/schema';
+import { storage } from '../storage';
+
+// Operator accounts for the dashboard
+// Management routes (/api/admin, /api/keys, /api/clients) sit behind a session
+// cookie and a minimum role within the session's active organization: viewers
+// read, admins manage keys and clients, owners manage members. The operator's
+// own role is instance-wide: instance owners manage operator accounts, create
+// organizations and act as owner in every organization.
+
+// Only used outside production; the fallback is public, so it cannot protect real sessions
+const DEVELOPMENT_SESSION_SECRET = 'fallback_session_secret_for_development_only';
+const SESSION_MAX_AGE_MS = 8 * 60 * 60 * 1000; // 8 hours
+const PASSWORD_ROUNDS = 12;
+
+export const MIN_PASSWORD_LENGTH = 10;
+
+const ROLE_RANK: Record<OperatorRole, number> = {
+  viewer: 0,
+  admin: 1,
+  owner: 2,
+};
+
+declare module 'fastify' {
+  interface Session {
+    operatorId?: string;
+    organizationId?: string;
+  }
+
+  interface FastifyRequest {
+    operator?: Operator;
+    organizationId?: string;
+    organizationRole?: OperatorRole;
+  }
+}
+
+export async function registerAuth(fastify: FastifyInstance): Promise<void> {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret && process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET must be set in production');
+  }
+
+  await fastify.register(fastifyCookie);
+  await fastify.register(fastifySession, {
+    secret: secret || DEVELOPMENT_SESSION_SECRET,
+    cookieName: 'incaptcha_session',
+    saveUninitialized: false,
+    cookie: {
+      path: '/',
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: 'auto',
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  });
+}
+
+export function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, PASSWORD_ROUNDS);
+}
+
+export function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  return bcrypt.compare(password, passwordHash);
+}
+
+export function hasRole(role: OperatorRole, minRole: OperatorRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[minRole];
+}
+
+export interface OperatorOrganization {
+  id: string;
+  name: string;
+  role: OperatorRole;
+}
+
+/**
+ * Organizations an operator can switch to, with their role in each
+ */
+export async function getOperatorOrganizations(operator: Operator): Promise<OperatorOrganization[]> {
+  const memberships = await storage.getMembershipsByOperator(operator.id);
+  const roles = new Map(memberships.map(m => [m.organizationId, m.role]));
+
+  let organizations: Organization[];
+  if (operator.role === 'owner') {
+    organizations = await storage.getAllOrganizations();
+  } else {
+    const found = await Promise.all(memberships.map(m => storage.getOrganization(m.organizationId)));
+    organizations = found.filter((o): o is Organization => !!o);
+  }
+
+  return organizations.map(o => ({
+    id: o.id,
+    name: o.name,
+    role: roles.get(o.id) ?? 'owner', // Instance owners without a membership
+  }));
+}
+
+/**
+ * Dashboard session payload; falls back to the operator's first organization
+ */
+export async function getSessionState(request: FastifyRequest, operator: Operator) {
+  const organizations = await getOperatorOrganizations(operator);
+
+  let organization = organizations.find(o => o.id === request.session.organizationId);
+  if (!organization && organizations.length > 0) {
+    organization = organizations[0];
+    request.session.organizationId = organization.id;
+  }
+
+  return {
+    operator: toPublicOperator(operator),
+    organization: organization ?? null,
+    organizations,
+    setupRequired: false,
+  };
+}
+
+/**
+ * The operator's role in an organization, if they may access it
+ */
+export async function getOrganizationRole(operator: Operator, organizationId: string): Promise<OperatorRole | undefined> {
+  const membership = await storage.getMembership(organizationId, operator.id);
+  if (membership) return membership.role;
+
+  if (operator.role === 'owner' && await storage.getOrganization(organizationId)) {
+    return 'owner';
+  }
+  return undefined;
+}
+
+/**
+ * Operator fields that are safe to send to the dashboard
+ */
+export function toPublicOperator(operator: Operator) {
+  return {
+    id: operator.id,
+    email: operator.email,
+    name: operator.name,
+    role: operator.role,
+    active: operator.active,
+    createdAt: operator.createdAt,
+    lastLoginAt: operator.lastLoginAt,
+  };
+}
+
+/**
+ * Write an audit log entry attributed to the signed-in operator
+ */
+export async function recordOperatorAction(
+  request: FastifyRequest,
+  action: string,
+  details: {
+    siteKey?: string;
+    success?: boolean;
+    errorMessage?: string;
+    metadata?: Record<string, any>;
+  } = {}
+): Promise<void> {
+  await storage.createAuditLog({
+    id: nanoid(),
+    siteKey: details.siteKey,
+    action,
+    ipAddress: request.ip, // trustProxy resolves X-Forwarded-For
+    success: details.success ?? true,
+    errorMessage: details.errorMessage,
+    metadata: details.metadata,
+    operatorId: request.operator?.id ?? request.session?.operatorId,
+    organizationId: request.organizationId ?? request.session?.organizationId,
+  });
+}
+
+async function loadOperator(request: FastifyRequest, reply: FastifyReply): Promise<Operator | undefined> {
+  const operatorId = request.session.operatorId;
+  const operator = operatorId ? await storage.getOperator(operatorId) : undefined;
+
+  if (!operator || !operator.active) {
+    if (operatorId) {
+      await request.session.destroy();
+    }
+    reply.status(401).send({
+      error: 'Authentication required',
+    });
+    return undefined;
+  }
+
+  request.operator = operator;
+  return operator;
+}
+
+async function denyAccess(request: FastifyRequest, reply: FastifyReply, minRole: OperatorRole, role?: OperatorRole) {
+  await recordOperatorAction(request, 'access_denied', {
+    success: false,
+    errorMessage: `Requires ${minRole} role`,
+    metadata: { method: request.method, url: request.url, role },
+  });
+  return reply.status(403).send({
+    error: 'Insufficient permissions',
+  });
+}
+
+/**
+ * preHandler that requires at least `minRole` in the session's active organization
+ * Sets request.organizationId for the route to scope its queries.
+ */
+export function requireRole(minRole: OperatorRole) {
+  return async function (request: FastifyRequest, reply: FastifyReply) {
+    const operator = await loadOperator(request, reply);
+    if (!operator) return reply;
+
+    const organizationId = request.session.organizationId;
+    const role = organizationId ? await getOrganizationRole(operator, organizationId) : undefined;
+    if (!organizationId || !role) {
+      return reply.status(403).send({
+        error: 'No organization selected',
+      });
+    }
+
+    request.organizationId = organizationId;
+    request.organizationRole = role;
+
+    if (!hasRole(role, minRole)) {
+      return denyAccess(request, reply, minRole, role);
+    }
+  };
+}
+
+/**
+ * preHandler for instance-wide actions (operator accounts, creating organizations)
+ */
+export function requireOperatorRole(minRole: OperatorRole) {
+  return async function (request: FastifyRequest, reply: FastifyReply) {
+    const operator = await loadOperator(request, reply);
+    if (!operator) return reply;
+
+    if (!hasRole(operator.role, minRole)) {
+      return denyAccess(request, reply, minRole, operator.role);
+    }
+  };
+}
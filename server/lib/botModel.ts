@@ -0,0 +1,116 @@
+import { readFile, readdir } from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import type { AttemptLabel, ReasonCode, VerificationAttempt } from '@shared/schema';
+
+// Trained bot classifier
+// `npm run train:bot-model` fits a logistic regression or a small MLP to the
+// AI features of labeled verification attempts and writes it as a versioned
+// JSON file under models/bot-classifier. The newest file (or BOT_MODEL_PATH)
+// is loaded at startup; the forward pass runs in plain JS, so serving needs no
+// TensorFlow. Without a model, predictBotProbability keeps its fixed weights.
+
+export const BOT_MODEL_DIR = path.resolve('models', 'bot-classifier');
+// The length of extractAIFeatures' vector; models trained on another length are refused
+export const BOT_MODEL_FEATURES = 16;
+
+const layerSchema = z.object({
+  // One row per input, one column per unit
+  weights: z.array(z.array(z.number())),
+  bias: z.array(z.number()),
+  activation: z.enum(['relu', 'sigmoid']),
+});
+
+export const botModelSchema = z.object({
+  version: z.string().min(1),
+  kind: z.enum(['logistic', 'mlp']),
+  createdAt: z.string(),
+  features: z.literal(BOT_MODEL_FEATURES),
+  layers: z.array(layerSchema).min(1),
+  training: z.object({
+    samples: z.number().int(),
+    humans: z.number().int(),
+    bots: z.number().int(),
+    epochs: z.number().int(),
+    validationAuc: z.number().nullable(),
+    sources: z.array(z.string()),
+    // Known bias in the labels, e.g. REDEEMED_LABEL_BIAS; missing from older models
+    labelBias: z.string().optional(),
+  }),
+}).refine(model => {
+  let inputs: number = model.features;
+  for (const layer of model.layers) {
+    if (layer.weights.length !== inputs || layer.weights.some(row => row.length !== layer.bias.length)) return false;
+    inputs = layer.bias.length;
+  }
+  return inputs === 1;
+}, 'layer shapes do not chain from the features to one output');
+
+export type BotModel = z.infer<typeof botModelSchema>;
+
+let activeModel: BotModel | null = null;
+
+export function getBotModel(): BotModel | null {
+  return activeModel;
+}
+
+/**
+ * Load BOT_MODEL_PATH, or else the newest version in BOT_MODEL_DIR, as the
+ * active model. File names are sortable timestamps, so the last one is newest.
+ * @returns The loaded model, or null when there is none and the fixed weights apply
+ */
+export async function loadBotModel(): Promise<BotModel | null> {
+  let file = process.env.BOT_MODEL_PATH;
+  if (!file) {
+    const entries = await readdir(BOT_MODEL_DIR).catch(() => [] as string[]);
+    const versions = entries.filter(name => name.endsWith('.json')).sort();
+    if (versions.length === 0) {
+      activeModel = null;
+      return null;
+    }
+    file = path.join(BOT_MODEL_DIR, versions[versions.length - 1]);
+  }
+
+  activeModel = botModelSchema.parse(JSON.parse(await readFile(file, 'utf8')));
+  return activeModel;
+}
+
+/**
+ * Forward pass over the model's dense layers
+ * @returns Bot probability 0-1
+ */
+export function runBotModel(model: BotModel, features: number[]): number {
+  let activations = features;
+  for (const layer of model.layers) {
+    activations = layer.bias.map((bias, unit) => {
+      const sum = activations.reduce((total, value, input) => total + value * layer.weights[input][unit], bias);
+      return layer.activation === 'relu' ? Math.max(0, sum) : 1 / (1 + Math.exp(-sum));
+    });
+  }
+  return activations[0];
+}
+
+// Recorded in a model's training metadata when stored attempts were among its samples
+export const REDEEMED_LABEL_BIAS =
+  'Attempt human labels come only from redeemed tokens, so humans the scoring at the time blocked are missing';
+
+// Body of PUT /api/admin/attempts/:id/review; null clears the review
+export const attemptReviewSchema = z.object({
+  label: z.enum(['human', 'bot']).nullable(),
+});
+
+/**
+ * Training label for a stored attempt, strongest evidence first: an operator's
+ * review, only decoy images selected on a honeytrap (bot), then a redeemed
+ * token (human). Honeytraps show the usual category images, so selecting those
+ * is what humans do and labels nothing. Replayed
+ * and IP-mismatched tokens are not labels: relying parties retry verification
+ * and verify from their own servers, and anyone can replay a token on purpose.
+ * @returns null when nothing is known about the attempt
+ */
+export function attemptTrainingLabel(attempt: VerificationAttempt): AttemptLabel | null {
+  if (attempt.reviewLabel) return attempt.reviewLabel;
+  if ((attempt.reasonCodes as ReasonCode[] | null)?.some(reason => reason.code === 'decoy_selection')) return 'bot';
+  if (attempt.tokenOutcome === 'redeemed') return 'human';
+  return null;
+}
@@ -0,0 +1,47 @@
+export type DatabaseDriver = 'neon' | 'pg' | 'sqlite';
+
+export interface DatabaseConfig {
+  driver: DatabaseDriver;
+  url: string;
+}
+
+const DEFAULT_SQLITE_FILE = './data/incaptcha.db';
+
+function inferDriver(url: string): DatabaseDriver {
+  if (url.startsWith('file:') || /\.(db|sqlite3?)$/.test(url)) return 'sqlite';
+  if (url.includes('.neon.tech')) return 'neon';
+  return 'pg';
+}
+
+/**
+ * Resolve the database driver and connection string from the environment
+ * DB_DRIVER picks the driver explicitly; otherwise it is inferred from DATABASE_URL
+ * (file paths use SQLite, *.neon.tech uses the Neon driver, anything else node-postgres).
+ * DB_DRIVER=sqlite without DATABASE_URL uses ./data/incaptcha.db.
+ */
+export function resolveDatabaseConfig(env: NodeJS.ProcessEnv = process.env): DatabaseConfig {
+  const url = env.DATABASE_URL;
+
+  if (!url && !env.DB_DRIVER) {
+    throw new Error('DATABASE_URL must be set (or DB_DRIVER=sqlite for a local database file)');
+  }
+
+  const driver = (env.DB_DRIVER as DatabaseDriver | undefined) || inferDriver(url!);
+
+  if (!['neon', 'pg', 'sqlite'].includes(driver)) {
+    throw new Error(`Unsupported DB_DRIVER "${driver}". Use one of: neon, pg, sqlite`);
+  }
+
+  if (driver === 'sqlite') {
+    return {
+      driver,
+      url: (url || DEFAULT_SQLITE_FILE).replace(/^file:/, ''),
+    };
+  }
+
+  if (!url) {
+    throw new Error(`DATABASE_URL must be set for the "${driver}" driver`);
+  }
+
+  return { driver, url };
+}
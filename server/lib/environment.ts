@@ -0,0 +1,142 @@
+import { z } from 'zod';
+import type { ReasonCode } from '@shared/schema';
+import type { ScoreExplanation } from './verification';
+
+// Browser environment scoring
+// The widget sends a compact environment report inside its sealed telemetry:
+// navigator.webdriver, plugins and mime types, the WebGL renderer, screen and
+// window geometry, timezone and locale, the Notification/permissions pair and
+// automation globals. Headless and instrumented browsers get several of these
+// subtly wrong at once, so each inconsistency takes points off a clean 100.
+// A sealed envelope without a valid report scores 0 (`no_environment` or
+// `invalid_environment`): leaving it out must not be a way to have the other
+// components reweighted. Only attempts without any telemetry have no
+// environment score.
+
+export const environmentReportSchema = z.object({
+  userAgent: z.string().max(512),
+  webdriver: z.boolean(),
+  plugins: z.number().int().min(0),
+  mimeTypes: z.number().int().min(0),
+  // Every plugin's mime types point back at it, as they do in real browsers
+  pluginsConsistent: z.boolean(),
+  webglVendor: z.string().max(256).nullable(),
+  webglRenderer: z.string().max(256).nullable(),
+  screen: z.object({
+    width: z.number(),
+    height: z.number(),
+    availWidth: z.number(),
+    availHeight: z.number(),
+  }),
+  window: z.object({
+    outerWidth: z.number(),
+    outerHeight: z.number(),
+    innerWidth: z.number(),
+    innerHeight: z.number(),
+  }),
+  timezone: z.string().max(64),
+  locale: z.string().max(64),
+  languages: z.array(z.string().max(64)).max(32),
+  notificationPermission: z.enum(['default', 'granted', 'denied', 'unsupported']),
+  // permissions.query({ name: 'notifications' }); null when the API is missing
+  permissionState: z.enum(['prompt', 'granted', 'denied']).nullable(),
+  hasChromeObject: z.boolean(),
+  // Known automation globals and properties found on window and document
+  automationArtifacts: z.array(z.string().max(64)).max(32),
+  // A console-logged Error's stack getter ran, which happens under a CDP Runtime
+  // domain; null when the widget did not probe (the default)
+  cdpRuntime: z.boolean().nullable(),
+});
+
+export type EnvironmentReport = z.infer<typeof environmentReportSchema>;
+
+// Why a sealed envelope carries no report that can be scored
+export type EnvironmentIssue = 'no_environment' | 'invalid_environment';
+
+const SOFTWARE_RENDERERS = ['swiftshader', 'llvmpipe', 'softpipe', 'mesa offscreen'];
+const MOBILE_USER_AGENT = /Android|iPhone|iPad|iPod|Mobile/i;
+
+export function parseEnvironmentReport(value: unknown): EnvironmentReport | EnvironmentIssue {
+  if (value === undefined || value === null) return 'no_environment';
+  const parsed = environmentReportSchema.safeParse(value);
+  return parsed.success ? parsed.data : 'invalid_environment';
+}
+
+export function calculateEnvironmentScore(report: EnvironmentReport | EnvironmentIssue | null, userAgent?: string): number | null {
+  return explainEnvironmentScore(report, userAgent)?.score ?? null;
+}
+
+/**
+ * The environment score with a reason code for every inconsistency found
+ * @param report - The parsed report, or why the envelope had none (scored 0)
+ * @param userAgent - The request's User-Agent header, compared with the browser's own
+ * @returns null when the request carried no telemetry at all
+ */
+export function explainEnvironmentScore(report: EnvironmentReport | EnvironmentIssue | null, userAgent?: string): ScoreExplanation | null {
+  if (!report) return null;
+  if (typeof report === 'string') {
+    return { score: 0, reasons: [{ component: 'environment', code: report, points: -100 }] };
+  }
+
+  const reasons: ReasonCode[] = [];
+  let score = 100;
+  const penalize = (code: string, points: number) => {
+    reasons.push({ component: 'environment', code, points: -points });
+    score -= points;
+  };
+
+  // Set by every WebDriver-controlled browser unless deliberately hidden
+  if (report.webdriver) penalize('webdriver', 60);
+  if (report.automationArtifacts.length > 0) penalize('automation_artifacts', 50);
+  // Only probed on request, and also true with DevTools open, so it only costs a little on its own
+  if (report.cdpRuntime === true) penalize('cdp_runtime', 20);
+
+  // A header rewritten by the automation tool but not navigator.userAgent, or the reverse
+  if (userAgent && report.userAgent !== userAgent) penalize('user_agent_mismatch', 25);
+
+  const claimsChrome = /Chrome\//.test(report.userAgent) && !/Edg\/|OPR\//.test(report.userAgent);
+  const mobile = MOBILE_USER_AGENT.test(report.userAgent);
+
+  // Desktop Chrome always lists its built-in PDF viewer plugins
+  if (claimsChrome && !mobile && report.plugins === 0) penalize('no_plugins', 15);
+  if (!report.pluginsConsistent) penalize('plugin_mimetype_mismatch', 20);
+  if (claimsChrome && !report.hasChromeObject) penalize('missing_chrome_object', 10);
+
+  const renderer = report.webglRenderer?.toLowerCase() ?? '';
+  if (report.webglRenderer === null) {
+    penalize('no_webgl', 10);
+  } else if (SOFTWARE_RENDERERS.some(name => renderer.includes(name))) {
+    penalize('software_renderer', 25);
+  }
+
+  // Headless windows have no browser chrome around them, or no size at all
+  const { screen, window } = report;
+  if (window.outerWidth === 0 && window.outerHeight === 0) {
+    penalize('zero_outer_window', 25);
+  } else if (window.outerWidth > screen.width * 1.1 || window.outerHeight > screen.height * 1.1) {
+    penalize('window_exceeds_screen', 10);
+  }
+  if (screen.availWidth > screen.width || screen.availHeight > screen.height) {
+    penalize('inconsistent_screen', 10);
+  }
+
+  if (report.languages.length === 0) {
+    penalize('no_languages', 15);
+  } else if (report.locale.split('-')[0].toLowerCase() !== report.languages[0].split('-')[0].toLowerCase()) {
+    // Intl's locale follows the browser's real language, navigator.languages the spoofed one
+    penalize('locale_mismatch', 10);
+  }
+  // Servers run on UTC; few visitors set their device to it
+  if (report.timezone === 'UTC' || report.timezone === 'Etc/UTC') penalize('utc_timezone', 10);
+
+  // Headless Chrome denies notifications while the permissions API still says prompt
+  if (report.notificationPermission === 'denied' && report.permissionState === 'prompt') {
+    penalize('permissions_inconsistent', 20);
+  }
+
+  if (score < 0) {
+    reasons.push({ component: 'environment', code: 'score_clamped', points: -score });
+    score = 0;
+  }
+  return { score, reasons };
+}
@@ -0,0 +1,252 @@
+import { readFile } from 'fs/promises';
+import { z } from 'zod';
+import type { SitePolicyThresholds, SitePolicyWeights } from '@shared/schema';
+import {
+  calculateBehaviorScore,
+  calculateDeviceTrustScore,
+  fuseBehavioralScores,
+  fuseCheckboxScores,
+  fuseTurnstileScores,
+} from './verification';
+import { calculateAIBotScore, comprehensiveAIDetection, detectAnomalies } from './aiDetection';
+import { calculateEnvironmentScore, environmentReportSchema, parseEnvironmentReport } from './environment';
+import { capUnsealedScore, type RiskSignal } from './telemetry';
+import { modalitySignalsSchema } from './inputModality';
+
+// Offline scoring evaluation
+// Runs labeled behavior vectors through the same scoring functions the routes
+// use and measures how well each score separates humans from bots, so
+// weights and thresholds can be tuned against data before they are deployed.
+// "Positive" is human throughout: a score at or above a threshold passes.
+
+const trajectoryPointSchema = z.object({ t: z.number(), x: z.number(), y: z.number() });
+
+export const labeledSampleSchema = z.object({
+  label: z.enum(['human', 'bot']),
+  behaviorVector: modalitySignalsSchema.extend({
+    mouseTrajectory: z.array(trajectoryPointSchema).optional(),
+    clickLatency: z.number().optional(),
+    hoverDuration: z.number().optional(),
+    mouseVelocity: z.number().optional(),
+    timestamp: z.number().optional(),
+    scrollBehavior: z.object({ scrollY: z.number(), scrollVelocity: z.number() }).optional(),
+  }).nullable(),
+  userAgent: z.string().optional(),
+  // How the sample reached the server: 'sealed' in a telemetry envelope, or
+  // 'none' for a request without one, which the routes cap below every threshold
+  telemetry: z.enum(['sealed', 'none']).default('sealed'),
+  // The widget's environment report; a sealed sample without one scores like
+  // an envelope without a report, and an unsealed sample never has one
+  environment: environmentReportSchema.optional(),
+  // Challenge answer score, for the image and jigsaw fusions; samples without one skip them
+  semanticScore: z.number().min(0).max(100).optional(),
+});
+
+export type LabeledSample = z.infer<typeof labeledSampleSchema>;
+
+export type EvaluatedComponent = 'behavior' | 'ai' | 'anomaly' | 'environment' | 'turnstile' | 'checkbox' | 'images' | 'jigsaw';
+
+// The policy thresholds each fused score is compared against in the routes.
+// Individual components have none of their own, so they are cut at all of them.
+const COMPONENT_THRESHOLDS: Partial<Record<EvaluatedComponent, Array<keyof SitePolicyThresholds>>> = {
+  turnstile: ['pass', 'escalate'],
+  checkbox: ['checkbox'],
+  images: ['images'],
+  jigsaw: ['jigsaw'],
+};
+
+export interface ConfusionMatrix {
+  truePositives: number; // Humans passed
+  falseNegatives: number; // Humans blocked
+  falsePositives: number; // Bots passed
+  trueNegatives: number; // Bots blocked
+}
+
+export interface ThresholdReport {
+  name: keyof SitePolicyThresholds;
+  threshold: number;
+  precision: number;
+  recall: number;
+  confusion: ConfusionMatrix;
+}
+
+export interface ComponentReport {
+  component: EvaluatedComponent;
+  samples: number;
+  auc: number;
+  // One point per integer threshold from 0 to 101, from everything passing to nothing passing
+  roc: Array<{ threshold: number; truePositiveRate: number; falsePositiveRate: number }>;
+  thresholds: ThresholdReport[];
+}
+
+export interface EvaluationReport {
+  humans: number;
+  bots: number;
+  components: ComponentReport[];
+}
+
+/**
+ * Read labeled samples from JSONL files, one `{ label, behaviorVector, ... }`
+ * object per line. Blank lines are skipped; any other invalid line throws with
+ * its file and line number.
+ */
+export async function loadLabeledSamples(files: string[]): Promise<LabeledSample[]> {
+  const samples: LabeledSample[] = [];
+  for (const file of files) {
+    const lines = (await readFile(file, 'utf8')).split('\n');
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
+      let json: unknown;
+      try {
+        json = JSON.parse(line);
+      } catch {
+        throw new Error(`${file}:${index + 1}: invalid JSON`);
+      }
+      const parsed = labeledSampleSchema.safeParse(json);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new Error(`${file}:${index + 1}: ${issue.path.join('.') || 'sample'} ${issue.message}`);
+      }
+      samples.push(parsed.data);
+    });
+  }
+  return samples;
+}
+
+// Every score the routes compute for a sample; fusions use the given policy
+// weights, and unsealed samples get the same threshold caps as in the routes
+function scoreSample(
+  sample: LabeledSample,
+  weights: SitePolicyWeights,
+  thresholds: SitePolicyThresholds
+): Partial<Record<EvaluatedComponent, number>> {
+  const riskSignals: RiskSignal[] = sample.telemetry === 'none' ? ['no_telemetry'] : [];
+  const behavior = calculateBehaviorScore(sample.behaviorVector);
+  const device = calculateDeviceTrustScore(sample.userAgent);
+  const environment = sample.telemetry === 'none'
+    ? null
+    : calculateEnvironmentScore(parseEnvironmentReport(sample.environment), sample.userAgent);
+  const scores: Partial<Record<EvaluatedComponent, number>> = {
+    behavior,
+    ai: calculateAIBotScore(sample.behaviorVector),
+    anomaly: 100 - detectAnomalies(sample.behaviorVector).anomalyScore,
+    turnstile: capUnsealedScore(
+      fuseTurnstileScores(comprehensiveAIDetection(sample.behaviorVector).score, behavior, device, environment, weights.turnstile),
+      riskSignals,
+      thresholds.escalate
+    ),
+    checkbox: capUnsealedScore(fuseCheckboxScores(behavior, device, environment, weights.checkbox), riskSignals, thresholds.checkbox),
+  };
+  if (environment !== null) {
+    scores.environment = environment;
+  }
+  if (sample.semanticScore !== undefined) {
+    scores.images = capUnsealedScore(
+      fuseBehavioralScores(behavior, sample.semanticScore, device, environment, weights.images),
+      riskSignals,
+      thresholds.images
+    );
+    scores.jigsaw = capUnsealedScore(
+      fuseBehavioralScores(behavior, sample.semanticScore, device, environment, weights.jigsaw),
+      riskSignals,
+      thresholds.jigsaw
+    );
+  }
+  return scores;
+}
+
+export function confusionAt(scored: Array<{ human: boolean; score: number }>, threshold: number): ConfusionMatrix {
+  const matrix: ConfusionMatrix = { truePositives: 0, falseNegatives: 0, falsePositives: 0, trueNegatives: 0 };
+  for (const { human, score } of scored) {
+    const passed = score >= threshold;
+    if (human) {
+      if (passed) matrix.truePositives++;
+      else matrix.falseNegatives++;
+    } else if (passed) {
+      matrix.falsePositives++;
+    } else {
+      matrix.trueNegatives++;
+    }
+  }
+  return matrix;
+}
+
+/**
+ * Area under the ROC curve: the chance a random human outscores a random bot,
+ * with ties counting half (Mann-Whitney U)
+ */
+export function areaUnderCurve(scored: Array<{ human: boolean; score: number }>): number {
+  const sorted = [...scored].sort((a, b) => a.score - b.score);
+  let rankSum = 0;
+  let humans = 0;
+  for (let i = 0; i < sorted.length;) {
+    let j = i;
+    while (j < sorted.length && sorted[j].score === sorted[i].score) j++;
+    const averageRank = (i + 1 + j) / 2;
+    for (let k = i; k < j; k++) {
+      if (sorted[k].human) {
+        rankSum += averageRank;
+        humans++;
+      }
+    }
+    i = j;
+  }
+  const bots = sorted.length - humans;
+  if (humans === 0 || bots === 0) return NaN;
+  return (rankSum - (humans * (humans + 1)) / 2) / (humans * bots);
+}
+
+/**
+ * Score every sample and report each component's ROC curve, AUC and
+ * precision/recall at the policy's configured thresholds
+ */
+export function evaluateSamples(
+  samples: LabeledSample[],
+  weights: SitePolicyWeights,
+  thresholds: SitePolicyThresholds
+): EvaluationReport {
+  const byComponent = new Map<EvaluatedComponent, Array<{ human: boolean; score: number }>>();
+  for (const sample of samples) {
+    const human = sample.label === 'human';
+    for (const [component, score] of Object.entries(scoreSample(sample, weights, thresholds))) {
+      const scored = byComponent.get(component as EvaluatedComponent) ?? [];
+      scored.push({ human, score: score! });
+      byComponent.set(component as EvaluatedComponent, scored);
+    }
+  }
+
+  const components = Array.from(byComponent, ([component, scored]): ComponentReport => {
+    const roc = Array.from({ length: 102 }, (_, threshold) => {
+      const matrix = confusionAt(scored, threshold);
+      return {
+        threshold,
+        truePositiveRate: ratio(matrix.truePositives, matrix.truePositives + matrix.falseNegatives),
+        falsePositiveRate: ratio(matrix.falsePositives, matrix.falsePositives + matrix.trueNegatives),
+      };
+    });
+
+    const names = COMPONENT_THRESHOLDS[component] ?? (Object.keys(thresholds) as Array<keyof SitePolicyThresholds>);
+    const reports = names.map((name): ThresholdReport => {
+      const confusion = confusionAt(scored, thresholds[name]);
+      return {
+        name,
+        threshold: thresholds[name],
+        precision: ratio(confusion.truePositives, confusion.truePositives + confusion.falsePositives),
+        recall: ratio(confusion.truePositives, confusion.truePositives + confusion.falseNegatives),
+        confusion,
+      };
+    });
+
+    return { component, samples: scored.length, auc: areaUnderCurve(scored), roc, thresholds: reports };
+  });
+
+  return {
+    humans: samples.filter(s => s.label === 'human').length,
+    bots: samples.filter(s => s.label === 'bot').length,
+    components,
+  };
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? NaN : numerator / denominator;
+}
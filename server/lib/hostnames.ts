@@ -0,0 +1,104 @@
+import type { FastifyRequest } from 'fastify';
+import { z } from 'zod';
+import type { SiteKey } from '@shared/schema';
+
+// Site key hostname allowlists
+// A site key with allowedHostnames only serves widgets embedded on those hosts.
+// Entries are exact hostnames or "*.example.com", which matches any subdomain
+// but not example.com itself. An empty list allows every hostname.
+
+export const MAX_ALLOWED_HOSTNAMES = 50;
+
+const LABEL = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
+
+/**
+ * Normalize an allowlist entry, or return null when it is not a valid pattern
+ */
+export function normalizeHostnamePattern(input: string): string | null {
+  const pattern = input.trim().toLowerCase().replace(/\.$/, '');
+  const wildcard = pattern.startsWith('*.');
+  const host = wildcard ? pattern.slice(2) : pattern;
+
+  if (!host || host.length > 253) return null;
+  if (!host.split('.').every(label => LABEL.test(label))) return null;
+
+  return wildcard ? `*.${host}` : host;
+}
+
+export const allowedHostnamesSchema = z.object({
+  allowedHostnames: z.array(z.string().max(255)).max(MAX_ALLOWED_HOSTNAMES),
+}).transform((body, ctx) => {
+  const normalized: string[] = [];
+  body.allowedHostnames.forEach((entry, index) => {
+    const pattern = normalizeHostnamePattern(entry);
+    if (!pattern) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['allowedHostnames', index],
+        message: `"${entry}" is not a valid hostname or wildcard pattern`,
+      });
+      return;
+    }
+    if (!normalized.includes(pattern)) normalized.push(pattern);
+  });
+  return normalized;
+});
+
+/**
+ * An http(s) page origin as sent by the widget frame, normalized, or null
+ */
+export function normalizeEmbedOrigin(value: unknown): string | null {
+  if (typeof value !== 'string' || !value) return null;
+  try {
+    const url = new URL(value);
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+    return url.origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The hostname of the page embedding the widget, taken from Origin with a
+ * Referer fallback. Returns null when neither header carries a usable URL.
+ *
+ * Requests from the /widget iframe come from InCaptcha's own origin and name
+ * the embedding page in `embedOrigin` instead. That field is only honoured on
+ * same-origin requests: the /widget document is served with a frame-ancestors
+ * policy for exactly that origin, so a browser cannot run the frame elsewhere.
+ */
+export function getRequestHostname(request: FastifyRequest): string | null {
+  for (const header of [request.headers.origin, request.headers.referer]) {
+    if (typeof header !== 'string' || !header || header === 'null') continue;
+    try {
+      const hostname = new URL(header).hostname.toLowerCase();
+      if (!hostname) continue;
+      if (hostname === request.hostname.toLowerCase()) {
+        const embedOrigin = normalizeEmbedOrigin((request.body as any)?.embedOrigin);
+        if (embedOrigin) return new URL(embedOrigin).hostname;
+      }
+      return hostname;
+    } catch {
+      // Malformed header, try the next one
+    }
+  }
+  return null;
+}
+
+export function matchesHostnamePattern(hostname: string, pattern: string): boolean {
+  if (pattern.startsWith('*.')) {
+    return hostname.endsWith(pattern.slice(1));
+  }
+  return hostname === pattern;
+}
+
+/**
+ * Whether a widget on this hostname may use the site key. Keys without an
+ * allowlist accept any hostname, including requests that send neither header.
+ */
+export function isHostnameAllowed(site: SiteKey, hostname: string | null): boolean {
+  const allowed = site.allowedHostnames ?? [];
+  if (allowed.length === 0) return true;
+  if (!hostname) return false;
+  return allowed.some(pattern => matchesHostnamePattern(hostname, pattern));
+}
@@ -0,0 +1,97 @@
+import { z } from 'zod';
+
+// Input modality
+// The widget reports how it was activated (pointerType) along with touch,
+// keyboard and visibility dynamics. Touch and keyboard visitors leave no mouse
+// trajectory, so behavior scoring, anomaly detection and the AI features take
+// a separate path for each; pens hover like a mouse and are scored as one.
+// Vectors from older widgets carry no pointerType and are scored as mouse.
+// The declared pointerType is only believed when the vector carries the taps
+// or keystrokes behind it; otherwise the vector is scored as mouse, trajectory
+// and replay fingerprint included. The touch, keyboard and visibility objects
+// arrive exactly as the client sent them, so scoring reads them through
+// touchDynamics() and friends, which return null for any that fail their schema.
+
+export const inputModalitySchema = z.enum(['mouse', 'pen', 'touch', 'keyboard', 'none']);
+
+export type InputModality = z.infer<typeof inputModalitySchema>;
+
+export type ScoredModality = 'mouse' | 'touch' | 'keyboard';
+
+export const touchDynamicsSchema = z.object({
+  taps: z.number(),
+  tapDuration: z.number(),
+  tapDurationStdDev: z.number(),
+  pressure: z.number(),
+  radius: z.number(),
+});
+
+export type TouchDynamics = z.infer<typeof touchDynamicsSchema>;
+
+export const keyboardDynamicsSchema = z.object({
+  keystrokes: z.number(),
+  dwellTime: z.number(),
+  flightTime: z.number(),
+  flightTimeStdDev: z.number(),
+  tabNavigations: z.number(),
+  focusToActivation: z.number(),
+});
+
+export type KeyboardDynamics = z.infer<typeof keyboardDynamicsSchema>;
+
+export const visibilityDynamicsSchema = z.object({
+  hiddenCount: z.number(),
+  hiddenDuration: z.number(),
+  hiddenAtActivation: z.boolean(),
+});
+
+export type VisibilityDynamics = z.infer<typeof visibilityDynamicsSchema>;
+
+export const modalitySignalsSchema = z.object({
+  pointerType: inputModalitySchema.optional(),
+  touch: touchDynamicsSchema.optional(),
+  keyboard: keyboardDynamicsSchema.optional(),
+  visibility: visibilityDynamicsSchema.optional(),
+});
+
+export interface ModalitySignals {
+  pointerType?: InputModality;
+  touch?: TouchDynamics;
+  keyboard?: KeyboardDynamics;
+  visibility?: VisibilityDynamics;
+}
+
+/**
+ * Whether the vector claims a touch or keyboard activation that none of its
+ * collected events back up
+ */
+export function modalityMismatch(signals: ModalitySignals): boolean {
+  if (signals.pointerType === 'touch') return !signals.touch || !(signals.touch.taps > 0);
+  if (signals.pointerType === 'keyboard') return !signals.keyboard || !(signals.keyboard.keystrokes > 0);
+  return false;
+}
+
+export function scoredModality(signals: ModalitySignals): ScoredModality {
+  if (modalityMismatch(signals)) return 'mouse';
+  if (signals.pointerType === 'touch') return 'touch';
+  if (signals.pointerType === 'keyboard') return 'keyboard';
+  return 'mouse';
+}
+
+// The vector's touch dynamics, or null when missing or malformed
+export function touchDynamics(signals: ModalitySignals): TouchDynamics | null {
+  const parsed = touchDynamicsSchema.safeParse(signals.touch);
+  return parsed.success ? parsed.data : null;
+}
+
+// The vector's keyboard dynamics, or null when missing or malformed
+export function keyboardDynamics(signals: ModalitySignals): KeyboardDynamics | null {
+  const parsed = keyboardDynamicsSchema.safeParse(signals.keyboard);
+  return parsed.success ? parsed.data : null;
+}
+
+// The vector's visibility dynamics, or null when missing or malformed
+export function visibilityDynamics(signals: ModalitySignals): VisibilityDynamics | null {
+  const parsed = visibilityDynamicsSchema.safeParse(signals.visibility);
+  return parsed.success ? parsed.data : null;
+}
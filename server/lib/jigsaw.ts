@@ -0,0 +1,258 @@
+import { randomInt } from 'crypto';
+import { renderJigsawBackground } from './jigsawImage';
+
+// Server-authoritative jigsaw puzzles
+// The server decides where the gaps are and scores the drop coordinates and
+// drag trace itself - the client never reports its own accuracy.
+
+const CANVAS_SIZE = 300;
+const PIECE_SIZE = 70;
+const DROP_TOLERANCE = 25; // px between piece centre and gap centre
+
+export type JigsawEdge = 'tab' | 'slot' | 'flat';
+
+export interface JigsawPiece {
+  id: number;
+  gapX: number;
+  gapY: number;
+  startX: number;
+  startY: number;
+  edges: { top: JigsawEdge; right: JigsawEdge; bottom: JigsawEdge; left: JigsawEdge };
+}
+
+// Stored in challenges.metadata.jigsaw
+export interface JigsawAnswer {
+  seed: number;
+  canvasSize: number;
+  pieceSize: number;
+  tolerance: number;
+  pieces: JigsawPiece[];
+}
+
+// A piece as the client sees it: where it starts and its outline, not where it goes
+export type JigsawRenderPiece = Omit<JigsawPiece, 'gapX' | 'gapY'>;
+
+// Sent to the client - the background with the gaps drawn in, and the pieces
+// to drag; nothing the gap positions or scoring could be read from
+export interface JigsawRenderData {
+  canvasSize: number;
+  pieceSize: number;
+  image: string;
+  pieces: JigsawRenderPiece[];
+}
+
+// Piece top-left position where the user released it (before any snapping)
+export interface JigsawPlacement {
+  pieceId: number;
+  x: number;
+  y: number;
+}
+
+// Piece top-left position in canvas pixels, sampled while dragging
+export interface JigsawTraceSample {
+  pieceId: number;
+  t: number;
+  x: number;
+  y: number;
+}
+
+export interface JigsawSolution {
+  placements: JigsawPlacement[];
+  dragTrace: JigsawTraceSample[];
+}
+
+export interface JigsawScore {
+  solved: boolean;
+  placementAccuracy: number; // 0-100
+  traceScore: number; // 0-100
+  score: number; // 0-100
+  issues: string[];
+}
+
+function randomEdge(): JigsawEdge {
+  return randomInt(2) === 0 ? 'tab' : 'slot';
+}
+
+function opposite(edge: JigsawEdge): JigsawEdge {
+  if (edge === 'tab') return 'slot';
+  if (edge === 'slot') return 'tab';
+  return 'flat';
+}
+
+/**
+ * Generate a two-piece jigsaw with gaps in the upper band of the canvas and
+ * pieces starting in the lower band. Piece 0 sits in the left half, piece 1
+ * in the right half, and their facing edges interlock.
+ */
+export function generateJigsawPuzzle(): JigsawAnswer {
+  const margin = 20;
+  const halfWidth = CANVAS_SIZE / 2;
+
+  const sharedEdge = randomEdge();
+
+  const pieces: JigsawPiece[] = [0, 1].map((id) => {
+    const minX = id === 0 ? margin : halfWidth;
+    const maxX = id === 0 ? halfWidth - PIECE_SIZE : CANVAS_SIZE - PIECE_SIZE - margin;
+
+    return {
+      id,
+      gapX: randomInt(minX, maxX + 1),
+      gapY: randomInt(margin + 10, 121),
+      startX: id === 0 ? randomInt(margin, 81) : randomInt(CANVAS_SIZE - PIECE_SIZE - 80, CANVAS_SIZE - PIECE_SIZE - margin + 1),
+      startY: randomInt(CANVAS_SIZE - PIECE_SIZE - 60, CANVAS_SIZE - PIECE_SIZE - margin + 1),
+      edges: {
+        top: randomEdge(),
+        right: id === 0 ? sharedEdge : 'flat',
+        bottom: randomEdge(),
+        left: id === 1 ? opposite(sharedEdge) : 'flat',
+      },
+    };
+  });
+
+  return {
+    seed: randomInt(2 ** 31),
+    canvasSize: CANVAS_SIZE,
+    pieceSize: PIECE_SIZE,
+    tolerance: DROP_TOLERANCE,
+    pieces,
+  };
+}
+
+export function getJigsawRenderData(answer: JigsawAnswer): JigsawRenderData {
+  return {
+    canvasSize: answer.canvasSize,
+    pieceSize: answer.pieceSize,
+    image: renderJigsawBackground(answer),
+    pieces: answer.pieces.map(({ id, startX, startY, edges }) => ({ id, startX, startY, edges })),
+  };
+}
+
+/**
+ * Analyze the drag trace for one piece
+ * Humans take a few hundred ms, move with irregular timing and never travel
+ * in a perfectly straight line; scripted drags usually fail at least one check.
+ */
+function scorePieceTrace(
+  piece: JigsawPiece,
+  placement: JigsawPlacement,
+  samples: JigsawTraceSample[],
+  pieceSize: number,
+  issues: string[]
+): number {
+  if (samples.length < 5) {
+    issues.push(`piece_${piece.id}_missing_trace`);
+    return 0;
+  }
+
+  let score = 100;
+
+  // Timestamps must be monotonic
+  for (let i = 1; i < samples.length; i++) {
+    if (samples[i].t < samples[i - 1].t) {
+      issues.push(`piece_${piece.id}_non_monotonic_trace`);
+      return 0;
+    }
+  }
+
+  // Trace must start on the piece and end where the piece was dropped
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const startDistance = Math.hypot(first.x - piece.startX, first.y - piece.startY);
+  if (startDistance > pieceSize) {
+    issues.push(`piece_${piece.id}_trace_start_mismatch`);
+    score -= 40;
+  }
+  const endDistance = Math.hypot(last.x - placement.x, last.y - placement.y);
+  if (endDistance > pieceSize / 2) {
+    issues.push(`piece_${piece.id}_trace_end_mismatch`);
+    score -= 40;
+  }
+
+  // Drag duration (humans: ~200ms - 15s)
+  const duration = last.t - first.t;
+  if (duration < 200) {
+    issues.push(`piece_${piece.id}_drag_too_fast`);
+    score -= 35;
+  } else if (duration > 15000) {
+    issues.push(`piece_${piece.id}_drag_too_slow`);
+    score -= 15;
+  }
+
+  // Timing variance (constant sampling intervals are scripted)
+  const timeDiffs = samples.slice(1).map((s, i) => s.t - samples[i].t);
+  const meanDiff = timeDiffs.reduce((a, b) => a + b, 0) / timeDiffs.length;
+  const variance = timeDiffs.reduce((sum, d) => sum + Math.pow(d - meanDiff, 2), 0) / timeDiffs.length;
+  if (variance < 1) {
+    issues.push(`piece_${piece.id}_constant_timing`);
+    score -= 30;
+  }
+
+  // Straightness (path length vs. direct distance)
+  let pathLength = 0;
+  for (let i = 1; i < samples.length; i++) {
+    pathLength += Math.hypot(samples[i].x - samples[i - 1].x, samples[i].y - samples[i - 1].y);
+  }
+  const directDistance = Math.hypot(last.x - first.x, last.y - first.y);
+  if (pathLength > 0 && directDistance / pathLength > 0.995) {
+    issues.push(`piece_${piece.id}_straight_line_drag`);
+    score -= 25;
+  }
+
+  return Math.max(0, score);
+}
+
+/**
+ * Score a submitted jigsaw solution against the stored answer
+ * @returns Placement accuracy, trace plausibility and a combined 0-100 score
+ */
+export function scoreJigsawSolution(
+  answer: JigsawAnswer,
+  solution: JigsawSolution | undefined | null
+): JigsawScore {
+  const issues: string[] = [];
+
+  if (!solution || !Array.isArray(solution.placements) || !Array.isArray(solution.dragTrace)) {
+    return { solved: false, placementAccuracy: 0, traceScore: 0, score: 0, issues: ['missing_solution'] };
+  }
+
+  let solved = true;
+  let accuracyTotal = 0;
+  let traceTotal = 0;
+
+  for (const piece of answer.pieces) {
+    const placement = solution.placements.find(p => p.pieceId === piece.id);
+    if (!placement || !Number.isFinite(placement.x) || !Number.isFinite(placement.y)) {
+      issues.push(`piece_${piece.id}_not_placed`);
+      solved = false;
+      continue;
+    }
+
+    const distance = Math.hypot(placement.x - piece.gapX, placement.y - piece.gapY);
+    if (distance > answer.tolerance) {
+      issues.push(`piece_${piece.id}_misplaced`);
+      solved = false;
+    }
+    // Anything inside the tolerance keeps at least half the accuracy points
+    accuracyTotal += Math.max(0, 100 - (distance / answer.tolerance) * 50);
+
+    const samples = solution.dragTrace.filter(s =>
+      s && s.pieceId === piece.id && Number.isFinite(s.t) && Number.isFinite(s.x) && Number.isFinite(s.y)
+    );
+    traceTotal += scorePieceTrace(piece, placement, samples, answer.pieceSize, issues);
+  }
+
+  const placementAccuracy = Math.round(accuracyTotal / answer.pieces.length);
+  const traceScore = Math.round(traceTotal / answer.pieces.length);
+
+  // Misplaced pieces or an implausible trace can never pass, however good the other half looks
+  const combined = Math.round(placementAccuracy * 0.6 + traceScore * 0.4);
+  const score = solved && traceScore >= 50 ? combined : Math.min(combined, 30);
+
+  return {
+    solved,
+    placementAccuracy,
+    traceScore,
+    score,
+    issues,
+  };
+}
@@ -0,0 +1,189 @@
+import { deflateSync } from 'zlib';
+import type { JigsawAnswer, JigsawEdge, JigsawPiece } from './jigsaw';
+
+// Jigsaw background rendering
+// The puzzle background is rasterised on the server with the gaps already cut
+// into it, so the client gets a PNG and never the gap coordinates. Drawing is
+// plain pixel work (seeded spiral strokes, then darkened gap shapes with a
+// light rim) encoded with zlib, so no image library is needed.
+
+type Rgb = [number, number, number];
+
+const BACKGROUND: Rgb = [31, 27, 46];
+const HUES = [270, 300, 50, 160, 200, 280];
+const GAP_SHADE = 0.35;
+const GAP_RIM: Rgb = [255, 255, 255];
+const GAP_RIM_ALPHA = 0.55;
+
+// Deterministic PRNG so the same seed always draws the same background
+function mulberry32(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): Rgb {
+  const s = saturation / 100;
+  const l = lightness / 100;
+  const k = (n: number) => (n + hue / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)));
+  return [Math.round(f(0) * 255), Math.round(f(8) * 255), Math.round(f(4) * 255)];
+}
+
+function blend(pixels: Uint8Array, index: number, color: Rgb, alpha: number) {
+  for (let c = 0; c < 3; c++) {
+    pixels[index * 3 + c] = Math.round(pixels[index * 3 + c] * (1 - alpha) + color[c] * alpha);
+  }
+}
+
+// Round-capped spiral strokes, each blended once through a coverage mask
+function drawSpirals(pixels: Uint8Array, size: number, seed: number) {
+  const random = mulberry32(seed);
+  const mask = new Uint8Array(size * size);
+
+  for (let layer = 0; layer < 20; layer++) {
+    const centerX = (random() - 0.5) * size * 0.5 + size / 2;
+    const centerY = (random() - 0.5) * size * 0.5 + size / 2;
+    const spirals = 2 + random() * 2;
+    const maxRadius = 60 + random() * 80;
+    const rotation = random() * Math.PI * 2;
+    const hue = HUES[Math.floor(random() * HUES.length)];
+    const color = hslToRgb(hue, 75, 55 + random() * 20);
+    const alpha = 0.4 + random() * 0.3;
+    const radius = (8 + random() * 12) / 2;
+
+    mask.fill(0);
+    for (let angle = 0; angle < Math.PI * 2 * spirals; angle += 0.02) {
+      const r = (maxRadius * angle) / (Math.PI * 2 * spirals);
+      const x = centerX + r * Math.cos(angle + rotation);
+      const y = centerY + r * Math.sin(angle + rotation);
+      const minX = Math.max(0, Math.floor(x - radius));
+      const maxX = Math.min(size - 1, Math.ceil(x + radius));
+      const minY = Math.max(0, Math.floor(y - radius));
+      const maxY = Math.min(size - 1, Math.ceil(y + radius));
+      for (let py = minY; py <= maxY; py++) {
+        for (let px = minX; px <= maxX; px++) {
+          if ((px - x) ** 2 + (py - y) ** 2 <= radius * radius) mask[py * size + px] = 1;
+        }
+      }
+    }
+
+    for (let i = 0; i < mask.length; i++) {
+      if (mask[i]) blend(pixels, i, color, alpha);
+    }
+  }
+}
+
+/**
+ * Whether a point, relative to the piece's centre, lies inside its outline:
+ * the square plus a knob for every tab, minus one for every slot
+ */
+function insideJigsawShape(dx: number, dy: number, pieceSize: number, edges: JigsawPiece['edges']): boolean {
+  const half = pieceSize / 2;
+  const knob = pieceSize * 0.22 * 0.6;
+  const sides: Array<[JigsawEdge, number, number]> = [
+    [edges.top, 0, -1],
+    [edges.right, 1, 0],
+    [edges.bottom, 0, 1],
+    [edges.left, -1, 0],
+  ];
+
+  let inside = Math.abs(dx) <= half && Math.abs(dy) <= half;
+  for (const [edge, nx, ny] of sides) {
+    if (edge === 'flat') continue;
+    const offset = edge === 'tab' ? half + knob : half - knob;
+    const inKnob = (dx - nx * offset) ** 2 + (dy - ny * offset) ** 2 <= knob * knob;
+    if (edge === 'tab' && inKnob) inside = true;
+    if (edge === 'slot' && inKnob) inside = false;
+  }
+  return inside;
+}
+
+function drawGap(pixels: Uint8Array, size: number, answer: JigsawAnswer, piece: JigsawPiece) {
+  const { pieceSize } = answer;
+  const centerX = piece.gapX + pieceSize / 2;
+  const centerY = piece.gapY + pieceSize / 2;
+  const reach = pieceSize;
+  const inside = (x: number, y: number) => insideJigsawShape(x - centerX, y - centerY, pieceSize, piece.edges);
+
+  for (let y = Math.max(0, Math.floor(centerY - reach)); y < Math.min(size, Math.ceil(centerY + reach)); y++) {
+    for (let x = Math.max(0, Math.floor(centerX - reach)); x < Math.min(size, Math.ceil(centerX + reach)); x++) {
+      if (!inside(x, y)) continue;
+      const index = y * size + x;
+      const rim = !inside(x - 2, y) || !inside(x + 2, y) || !inside(x, y - 2) || !inside(x, y + 2);
+      if (rim) {
+        blend(pixels, index, GAP_RIM, GAP_RIM_ALPHA);
+      } else {
+        for (let c = 0; c < 3; c++) pixels[index * 3 + c] = Math.round(pixels[index * 3 + c] * GAP_SHADE);
+      }
+    }
+  }
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Buffer): number {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+// 8-bit RGB PNG; every row uses the Sub filter, which suits the smooth strokes
+function encodePng(pixels: Uint8Array, size: number): Buffer {
+  const stride = size * 3;
+  const raw = Buffer.alloc((stride + 1) * size);
+  for (let y = 0; y < size; y++) {
+    const row = y * (stride + 1);
+    raw[row] = 1;
+    for (let i = 0; i < stride; i++) {
+      const left = i >= 3 ? pixels[y * stride + i - 3] : 0;
+      raw[row + 1 + i] = (pixels[y * stride + i] - left) & 0xFF;
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(size, 0);
+  header.writeUInt32BE(size, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolour
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw, { level: 9 })),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Draw the puzzle background with every gap cut into it
+ * @returns A PNG data URL
+ */
+export function renderJigsawBackground(answer: JigsawAnswer): string {
+  const size = answer.canvasSize;
+  const pixels = new Uint8Array(size * size * 3);
+  for (let i = 0; i < size * size; i++) pixels.set(BACKGROUND, i * 3);
+
+  drawSpirals(pixels, size, answer.seed);
+  for (const piece of answer.pieces) drawGap(pixels, size, answer, piece);
+
+  return `data:image/png;base64,${encodePng(pixels, size).toString('base64')}`;
+}
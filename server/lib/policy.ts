@@ -0,0 +1,131 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import type {
+  ChallengeType,
+  SitePolicyThresholds,
+  SitePolicyWeights,
+  SiteRateLimits,
+} from '@shared/schema';
+
+// Per-site scoring policy
+// Every verification route reads its weights, thresholds and token lifetime from
+// here; sites without a stored policy get the defaults below.
+
+export interface ResolvedSitePolicy {
+  siteKey: string;
+  weights: SitePolicyWeights;
+  thresholds: SitePolicyThresholds;
+  allowedChallengeTypes: ChallengeType[];
+  tokenTtlSeconds: number;
+  rateLimits: SiteRateLimits; // Overrides of the instance rate limits
+  isDefault: boolean;
+}
+
+export const DEFAULT_SITE_POLICY: Omit<ResolvedSitePolicy, 'siteKey' | 'isDefault'> = {
+  weights: {
+    images: { behavior: 0.45, semantic: 0.35, device: 0.1, environment: 0.1 },
+    jigsaw: { behavior: 0.15, semantic: 0.65, device: 0.1, environment: 0.1 },
+    turnstile: { ai: 0.35, behavior: 0.3, device: 0.2, environment: 0.15 },
+    checkbox: { behavior: 0.5, device: 0.3, environment: 0.2 },
+  },
+  thresholds: {
+    pass: 80,
+    escalate: 50,
+    images: 75,
+    jigsaw: 70,
+    checkbox: 60,
+  },
+  allowedChallengeTypes: ['images', 'jigsaw', 'pow'],
+  tokenTtlSeconds: 120,
+  rateLimits: {},
+};
+
+const weight = z.number().min(0).max(1);
+const threshold = z.number().int().min(0).max(100);
+
+export const rateLimitRuleSchema = z.object({
+  algorithm: z.enum(['sliding-window', 'token-bucket']),
+  limit: z.number().int().min(1).max(100000),
+  windowMs: z.number().int().min(1000).max(24 * 60 * 60 * 1000),
+});
+
+export const sitePolicyUpdateSchema = z.object({
+  weights: z.object({
+    images: z.object({ behavior: weight, semantic: weight, device: weight, environment: weight.default(0) }),
+    jigsaw: z.object({ behavior: weight, semantic: weight, device: weight, environment: weight.default(0) }),
+    turnstile: z.object({ ai: weight, behavior: weight, device: weight, environment: weight.default(0) }),
+    checkbox: z.object({ behavior: weight, device: weight, environment: weight.default(0) }),
+  }),
+  thresholds: z.object({
+    pass: threshold,
+    escalate: threshold,
+    images: threshold,
+    jigsaw: threshold,
+    checkbox: threshold,
+  }),
+  allowedChallengeTypes: z.array(z.enum(['images', 'jigsaw', 'pow'])),
+  tokenTtlSeconds: z.number().int().min(30).max(3600),
+  rateLimits: z.object({
+    start: rateLimitRuleSchema,
+    solve: rateLimitRuleSchema,
+    turnstile: rateLimitRuleSchema,
+    verify: rateLimitRuleSchema,
+  }).partial().strict().default({}),
+}).superRefine((policy, ctx) => {
+  // Each weight set must add up to 1 so scores stay on the 0-100 scale
+  for (const [flow, set] of Object.entries(policy.weights)) {
+    const total = Object.values(set).reduce((sum, w) => sum + w, 0);
+    if (Math.abs(total - 1) > 0.001) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['weights', flow],
+        message: `${flow} weights must sum to 1`,
+      });
+    }
+  }
+
+  if (policy.thresholds.escalate > policy.thresholds.pass) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['thresholds', 'escalate'],
+      message: 'Escalate threshold cannot be above the pass threshold',
+    });
+  }
+});
+
+export type SitePolicyUpdate = z.infer<typeof sitePolicyUpdateSchema>;
+
+// Policies stored before environment reports have no environment weight; it counts as 0
+function withEnvironmentWeights(weights: SitePolicyWeights): SitePolicyWeights {
+  return {
+    images: { ...weights.images, environment: weights.images.environment ?? 0 },
+    jigsaw: { ...weights.jigsaw, environment: weights.jigsaw.environment ?? 0 },
+    turnstile: { ...weights.turnstile, environment: weights.turnstile.environment ?? 0 },
+    checkbox: { ...weights.checkbox, environment: weights.checkbox.environment ?? 0 },
+  };
+}
+
+/**
+ * Load the policy for a site key, falling back to the defaults
+ */
+export async function getSitePolicy(siteKey: string): Promise<ResolvedSitePolicy> {
+  const stored = await storage.getSitePolicy(siteKey);
+
+  if (!stored) {
+    return { siteKey, ...DEFAULT_SITE_POLICY, isDefault: true };
+  }
+
+  return {
+    siteKey,
+    weights: withEnvironmentWeights(stored.weights),
+    thresholds: stored.thresholds,
+    allowedChallengeTypes: stored.allowedChallengeTypes,
+    tokenTtlSeconds: stored.tokenTtlSeconds,
+    rateLimits: stored.rateLimits ?? {},
+    isDefault: false,
+  };
+}
+
+export function isChallengeAllowed(policy: ResolvedSitePolicy, type: ChallengeType): boolean {
+  return policy.allowedChallengeTypes.includes(type);
+}
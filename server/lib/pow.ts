@@ -0,0 +1,59 @@
+import { createHash, randomBytes } from 'crypto';
+
+// Proof-of-work challenges
+// The client must find a nonce such that SHA-256(salt + ":" + nonce) starts with
+// `difficulty` zero bits. Riskier traffic gets a harder puzzle; no interaction
+// is needed, so this also serves as the accessible alternative to the jigsaw.
+
+const MIN_DIFFICULTY = 10; // ~1k hashes on average
+const MAX_DIFFICULTY = 18; // ~260k hashes on average
+const MAX_NONCE_LENGTH = 32;
+
+// Stored in challenges.metadata.pow and sent to the client as-is
+export interface PowChallenge {
+  algorithm: 'SHA-256';
+  salt: string;
+  difficulty: number; // required leading zero bits
+}
+
+/**
+ * Map an AI detection score (0-100, higher = more human) to a difficulty
+ */
+export function getPowDifficulty(riskScore: number): number {
+  const score = Math.min(100, Math.max(0, riskScore));
+  const difficulty = Math.round(MAX_DIFFICULTY - (score / 100) * (MAX_DIFFICULTY - MIN_DIFFICULTY));
+  return Math.min(MAX_DIFFICULTY, Math.max(MIN_DIFFICULTY, difficulty));
+}
+
+export function generatePowChallenge(riskScore: number): PowChallenge {
+  return {
+    algorithm: 'SHA-256',
+    salt: randomBytes(16).toString('hex'),
+    difficulty: getPowDifficulty(riskScore),
+  };
+}
+
+function countLeadingZeroBits(hash: Buffer): number {
+  let bits = 0;
+  for (const byte of Array.from(hash)) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    bits += Math.clz32(byte) - 24;
+    break;
+  }
+  return bits;
+}
+
+/**
+ * Check a submitted nonce against the stored challenge
+ */
+export function verifyPowSolution(challenge: PowChallenge, nonce: unknown): boolean {
+  if (typeof nonce !== 'string' || nonce.length === 0 || nonce.length > MAX_NONCE_LENGTH) {
+    return false;
+  }
+
+  const hash = createHash('sha256').update(`${challenge.salt}:${nonce}`).digest();
+  return countLeadingZeroBits(hash) >= challenge.difficulty;
+}
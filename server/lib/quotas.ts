@@ -0,0 +1,69 @@
+import type { FastifyReply } from 'fastify';
+import type { ApiClient } from '@shared/schema';
+import { storage } from '../storage';
+
+// Per-API-client hourly quotas
+// Introspection and client-authenticated verification calls count against the
+// client's rateLimitPerHour in fixed clock-hour windows. Responses carry the
+// RateLimit-* headers from the IETF rate limit headers draft.
+
+export const QUOTA_WINDOW_MS = 60 * 60 * 1000;
+export const MAX_CLIENT_QUOTA_PER_HOUR = 10_000_000;
+
+export interface QuotaStatus {
+  allowed: boolean;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+export function getQuotaWindowStart(now: Date = new Date()): Date {
+  return new Date(Math.floor(now.getTime() / QUOTA_WINDOW_MS) * QUOTA_WINDOW_MS);
+}
+
+function toStatus(client: ApiClient, used: number, windowStart: Date): QuotaStatus {
+  return {
+    allowed: used <= client.rateLimitPerHour,
+    limit: client.rateLimitPerHour,
+    used,
+    remaining: Math.max(0, client.rateLimitPerHour - used),
+    resetAt: new Date(windowStart.getTime() + QUOTA_WINDOW_MS),
+  };
+}
+
+/**
+ * Count one call against the client's quota for the current hour
+ */
+export async function consumeClientQuota(client: ApiClient): Promise<QuotaStatus> {
+  const windowStart = getQuotaWindowStart();
+  const used = await storage.incrementApiClientUsage(client.id, windowStart);
+  return toStatus(client, used, windowStart);
+}
+
+/**
+ * Current usage without counting a call, for the dashboard
+ */
+export async function getClientQuotaStatus(client: ApiClient): Promise<QuotaStatus> {
+  const windowStart = getQuotaWindowStart();
+  const used = await storage.getApiClientUsage(client.id, windowStart);
+  return toStatus(client, used, windowStart);
+}
+
+export function applyQuotaHeaders(reply: FastifyReply, quota: QuotaStatus): void {
+  const resetSeconds = Math.max(0, Math.ceil((quota.resetAt.getTime() - Date.now()) / 1000));
+
+  reply
+    .header('RateLimit-Limit', quota.limit)
+    .header('RateLimit-Remaining', quota.remaining)
+    .header('RateLimit-Reset', resetSeconds);
+
+  if (!quota.allowed) {
+    reply.header('Retry-After', resetSeconds);
+  }
+}
+
+// Drop usage rows of finished windows; run with the periodic cleanup in routes.ts
+export async function cleanupExpiredQuotaUsage(): Promise<void> {
+  await storage.deleteApiClientUsageBefore(getQuotaWindowStart());
+}
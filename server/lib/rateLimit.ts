@@ -1,65 +1,179 @@
-import { storage } from '../storage';
-import { nanoid } from 'nanoid';
+import { isIP } from 'net';
+import { z } from 'zod';
+import { MemoryStorage, storage, type IStorage } from '../storage';
+import { getSitePolicy, rateLimitRuleSchema } from './policy';
+import type { RateLimitAction, RateLimitRule } from '@shared/schema';
 
-const RATE_LIMITS = {
-  start: { maxRequests: 10, windowMs: 60000 }, // 10 requests per minute
-  solve: { maxRequests: 3, windowMs: 60000 },  // 3 requests per minute
+// Pluggable request rate limiting
+// Every action has a rule: a sliding-window counter (weighted over the current and
+// previous window, so there is no 2x burst at window edges) or a token bucket
+// (GCRA). Sites can override the rules in their policy. State goes through
+// storage by default so all instances share it; RATE_LIMIT_BACKEND=memory keeps
+// it in-process for single-instance deployments. Both update counters atomically.
+
+export const DEFAULT_RATE_LIMITS: Record<RateLimitAction, RateLimitRule> = {
+  start: { algorithm: 'sliding-window', limit: 10, windowMs: 60000 }, // 10 requests per minute
+  solve: { algorithm: 'sliding-window', limit: 3, windowMs: 60000 }, // 3 requests per minute
+  turnstile: { algorithm: 'sliding-window', limit: 3, windowMs: 60000 },
+  verify: { algorithm: 'sliding-window', limit: 3, windowMs: 60000 },
+  login: { algorithm: 'sliding-window', limit: 10, windowMs: 900000 }, // 10 attempts per 15 minutes
 };
 
-export async function checkRateLimit(
-  ipAddress: string,
-  action: 'start' | 'solve'
-): Promise<{ allowed: boolean; remaining: number }> {
-  const config = RATE_LIMITS[action];
-  
-  // Get or create rate limit record
-  let rateLimit = await storage.getRateLimit(ipAddress, action);
-  
-  const now = new Date();
-  const windowStart = new Date(now.getTime() - config.windowMs);
-  
-  if (!rateLimit || new Date(rateLimit.expiresAt) < now) {
-    // Create new window
-    rateLimit = await storage.createOrUpdateRateLimit({
-      id: nanoid(),
-      ipAddress,
-      action,
-      count: 1,
-      expiresAt: new Date(now.getTime() + config.windowMs),
-    });
-    
-    return {
-      allowed: true,
-      remaining: config.maxRequests - 1,
-    };
+export type RateLimitStore = Pick<
+  IStorage,
+  'incrementRateLimitCounter' | 'getRateLimitCounter' | 'takeRateLimitToken' | 'deleteExpiredRateLimits'
+>;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+/**
+ * Instance-wide rules: the defaults, with per-action overrides from RATE_LIMITS
+ * (JSON, e.g. {"solve":{"algorithm":"token-bucket","limit":5,"windowMs":60000}})
+ */
+export function resolveRateLimitRules(env: NodeJS.ProcessEnv = process.env): Record<RateLimitAction, RateLimitRule> {
+  if (!env.RATE_LIMITS) return DEFAULT_RATE_LIMITS;
+
+  const overrides = z
+    .record(z.enum(['start', 'solve', 'turnstile', 'verify', 'login']), rateLimitRuleSchema)
+    .safeParse(JSON.parse(env.RATE_LIMITS));
+  if (!overrides.success) {
+    throw new Error(`Invalid RATE_LIMITS: ${overrides.error.issues.map(i => `${i.path.join('.')} ${i.message}`).join(', ')}`);
   }
-  
-  // Check if within window and under limit
-  if (rateLimit.count < config.maxRequests) {
-    // Increment count
-    await storage.createOrUpdateRateLimit({
-      id: rateLimit.id,
-      ipAddress,
-      action,
-      count: rateLimit.count + 1,
-      expiresAt: rateLimit.expiresAt,
-    });
-    
+
+  return { ...DEFAULT_RATE_LIMITS, ...overrides.data };
+}
+
+function createStore(env: NodeJS.ProcessEnv = process.env): RateLimitStore {
+  const backend = env.RATE_LIMIT_BACKEND || 'database';
+  if (backend === 'database') return storage;
+  if (backend === 'memory') return new MemoryStorage();
+  throw new Error(`Unsupported RATE_LIMIT_BACKEND "${backend}". Use one of: database, memory`);
+}
+
+const rules = resolveRateLimitRules();
+const store = createStore();
+
+function expandIPv6(address: string): number[] {
+  const [head, tail] = address.split('::');
+  const toGroups = (part: string | undefined) => (part ? part.split(':') : []).flatMap(group => {
+    // An embedded IPv4 address fills the last two groups
+    if (group.includes('.')) {
+      const [a, b, c, d] = group.split('.').map(Number);
+      return [(a << 8) | b, (c << 8) | d];
+    }
+    return [parseInt(group, 16)];
+  });
+
+  const headGroups = toGroups(head);
+  const tailGroups = toGroups(tail);
+  const zeros = tail === undefined ? [] : new Array(8 - headGroups.length - tailGroups.length).fill(0);
+  return [...headGroups, ...zeros, ...tailGroups];
+}
+
+/**
+ * The identity a client is limited by: IPv4 addresses as-is, IPv6 addresses
+ * aggregated to their /64 so one host cannot rotate through its prefix
+ */
+export function getRateLimitSubject(ipAddress: string): string {
+  const address = ipAddress.trim().replace(/%.*$/, '');
+
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return mapped[1];
+  if (isIP(address) !== 6) return address;
+
+  const prefix = expandIPv6(address).slice(0, 4).map(group => group.toString(16));
+  return `${prefix.join(':')}::/64`;
+}
+
+async function consumeSlidingWindow(key: string, rule: RateLimitRule, now: number): Promise<RateLimitResult> {
+  const windowStart = Math.floor(now / rule.windowMs) * rule.windowMs;
+  const expiresAt = new Date(windowStart + 2 * rule.windowMs);
+
+  // Count first, then decide, so concurrent requests each see their own position
+  const current = await store.incrementRateLimitCounter(key, windowStart, 1, expiresAt);
+  const previous = await store.getRateLimitCounter(key, windowStart - rule.windowMs);
+  const previousWeight = 1 - (now - windowStart) / rule.windowMs;
+  const estimated = previous * previousWeight + current;
+
+  if (estimated <= rule.limit) {
     return {
       allowed: true,
-      remaining: config.maxRequests - (rateLimit.count + 1),
+      limit: rule.limit,
+      remaining: Math.max(0, Math.floor(rule.limit - estimated)),
+      retryAfterMs: 0,
     };
   }
-  
-  // Rate limit exceeded
+
+  // Rejected requests do not use up the window
+  await store.incrementRateLimitCounter(key, windowStart, -1, expiresAt);
+
+  // Wait until enough of the previous window has slid out, or for the next window
+  const retryAt = current <= rule.limit && previous > 0
+    ? windowStart + rule.windowMs * (1 - (rule.limit - current) / previous)
+    : windowStart + rule.windowMs;
+
   return {
     allowed: false,
+    limit: rule.limit,
     remaining: 0,
+    retryAfterMs: Math.max(0, Math.ceil(retryAt - now)),
+  };
+}
+
+async function consumeTokenBucket(key: string, rule: RateLimitRule, now: number): Promise<RateLimitResult> {
+  const intervalMs = rule.windowMs / rule.limit;
+  const { allowed, tat } = await store.takeRateLimitToken(
+    key,
+    now,
+    intervalMs,
+    rule.windowMs,
+    new Date(now + rule.windowMs)
+  );
+
+  return {
+    allowed,
+    limit: rule.limit,
+    remaining: allowed ? Math.max(0, Math.floor((now + rule.windowMs - tat) / intervalMs)) : 0,
+    retryAfterMs: allowed ? 0 : Math.max(0, Math.ceil(tat + intervalMs - rule.windowMs - now)),
   };
 }
 
+/**
+ * Count a request against the action's limit for this client
+ * When the site's policy overrides the action's rule, the site gets its own
+ * buckets; unknown or unconfigured site keys share the instance-wide ones.
+ */
+export async function checkRateLimit(
+  ipAddress: string,
+  action: RateLimitAction,
+  siteKey?: string
+): Promise<RateLimitResult> {
+  let rule = rules[action];
+  let scope: string = action;
+
+  if (siteKey && action !== 'login') {
+    const siteRule = (await getSitePolicy(siteKey)).rateLimits[action];
+    if (siteRule) {
+      rule = siteRule;
+      scope = `${action}:${siteKey}`;
+    }
+  }
+
+  const key = `${scope}:${getRateLimitSubject(ipAddress)}`;
+  const now = Date.now();
+
+  return rule.algorithm === 'token-bucket'
+    ? consumeTokenBucket(key, rule, now)
+    : consumeSlidingWindow(key, rule, now);
+}
+
 export async function cleanupExpiredRateLimits(): Promise<void> {
-  await storage.deleteExpiredRateLimits();
+  await store.deleteExpiredRateLimits();
 }
 
 // Run cleanup every 5 minutes
@@ -0,0 +1,111 @@
+import { nanoid } from 'nanoid';
+import { decodeProtectedHeader } from 'jose';
+import type { SiteKey, SiteKeyVersion } from '@shared/schema';
+import { storage } from '../storage';
+import { generateEd25519KeyPair, getKeyId } from '../crypto';
+
+// Site key rotation
+// site_keys always holds the active signing pair. Every pair is also recorded in
+// site_key_versions so tokens signed before a rotation keep verifying (looked up
+// by their `kid` header) until the old version's grace period ends.
+
+export const DEFAULT_ROTATION_GRACE_SECONDS = 3600;
+export const MAX_ROTATION_GRACE_SECONDS = 7 * 24 * 3600;
+
+export interface VerificationKey {
+  kid: string;
+  publicKey: string;
+}
+
+export function isVersionVerifying(version: SiteKeyVersion, now: Date = new Date()): boolean {
+  if (version.status === 'active') return true;
+  return !!version.validUntil && version.validUntil > now;
+}
+
+/**
+ * Record the site's current pair as its active version (version 1 for new keys)
+ */
+export async function recordActiveVersion(site: Pick<SiteKey, 'key' | 'publicKey'>): Promise<SiteKeyVersion | undefined> {
+  if (!site.publicKey) return undefined;
+
+  const versions = await storage.getSiteKeyVersions(site.key);
+  const kid = await getKeyId(site.publicKey);
+  const current = versions.find(v => v.status === 'active');
+  if (current && current.kid === kid) return current;
+
+  return storage.createSiteKeyVersion({
+    id: nanoid(),
+    siteKey: site.key,
+    version: (versions[0]?.version ?? 0) + 1,
+    kid,
+    publicKey: site.publicKey,
+    status: 'active',
+  });
+}
+
+/**
+ * Generate a new signing pair and retire the current one after a grace period
+ */
+export async function rotateSiteKey(
+  site: SiteKey,
+  gracePeriodSeconds: number = DEFAULT_ROTATION_GRACE_SECONDS
+): Promise<{ active: SiteKeyVersion; retired?: SiteKeyVersion }> {
+  // Keys created before versioning have no history yet
+  const previous = await recordActiveVersion(site);
+
+  const { publicKey, secretKey } = await generateEd25519KeyPair();
+  const validUntil = new Date(Date.now() + gracePeriodSeconds * 1000);
+
+  if (previous) {
+    await storage.retireSiteKeyVersion(previous.id, validUntil);
+  }
+  await storage.updateSiteKeyKeys(site.key, secretKey, publicKey);
+
+  const active = await storage.createSiteKeyVersion({
+    id: nanoid(),
+    siteKey: site.key,
+    version: (previous?.version ?? 0) + 1,
+    kid: await getKeyId(publicKey),
+    publicKey,
+    status: 'active',
+  });
+
+  return {
+    active,
+    retired: previous && { ...previous, status: 'retired', retiredAt: new Date(), validUntil },
+  };
+}
+
+/**
+ * Public keys that currently verify tokens for a site (for JWKS)
+ */
+export async function getVerificationKeys(site: SiteKey): Promise<VerificationKey[]> {
+  const versions = await storage.getSiteKeyVersions(site.key);
+
+  if (versions.length === 0) {
+    return site.publicKey ? [{ kid: await getKeyId(site.publicKey), publicKey: site.publicKey }] : [];
+  }
+
+  const now = new Date();
+  return versions
+    .filter(v => isVersionVerifying(v, now))
+    .map(v => ({ kid: v.kid, publicKey: v.publicKey }));
+}
+
+/**
+ * Pick the public key a token was signed with from its `kid` header
+ * Tokens issued before `kid` headers existed fall back to the active key.
+ */
+export async function getVerificationKeyForToken(site: SiteKey, token: string): Promise<string | null> {
+  let kid: string | undefined;
+  try {
+    kid = decodeProtectedHeader(token).kid;
+  } catch {
+    return null;
+  }
+
+  if (!kid) return site.publicKey;
+
+  const keys = await getVerificationKeys(site);
+  return keys.find(k => k.kid === kid)?.publicKey ?? null;
+}
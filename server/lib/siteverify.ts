@@ -0,0 +1,72 @@
+import type { VerifyToken } from '@shared/schema';
+import type { VerifyTokenPayload } from '../crypto';
+import type { TokenRejection } from './tokenVerification';
+
+// reCAPTCHA / hCaptcha / Turnstile compatible siteverify
+// Existing server integrations POST `secret`, `response` and optionally
+// `remoteip` (and hCaptcha's `sitekey`) and read back the shape those services
+// use. The secret is an API client's credentials joined as "<apiKey>.<secretKey>".
+// Scores are scaled to 0.0-1.0 as reCAPTCHA v3 reports them.
+
+export type SiteverifyErrorCode =
+  | 'missing-input-secret'
+  | 'invalid-input-secret'
+  | 'missing-input-response'
+  | 'invalid-input-response'
+  | 'timeout-or-duplicate'
+  | 'sitekey-secret-mismatch'
+  | 'bad-request'
+  | 'rate-limited'
+  | 'internal-error';
+
+export interface SiteverifyResponse {
+  success: boolean;
+  challenge_ts?: string;
+  hostname?: string | null;
+  'error-codes': SiteverifyErrorCode[];
+  score?: number;
+  action?: string | null;
+  cdata?: string | null;
+}
+
+const REJECTION_ERROR_CODES: Record<TokenRejection, SiteverifyErrorCode> = {
+  not_found: 'invalid-input-response',
+  already_used: 'timeout-or-duplicate',
+  expired: 'timeout-or-duplicate',
+  invalid_site: 'invalid-input-response',
+  site_mismatch: 'sitekey-secret-mismatch',
+  retired_key: 'invalid-input-response',
+  invalid_signature: 'invalid-input-response',
+  payload_mismatch: 'invalid-input-response',
+  ip_mismatch: 'invalid-input-response',
+  action_mismatch: 'invalid-input-response',
+};
+
+export function getRejectionErrorCode(reason: TokenRejection): SiteverifyErrorCode {
+  return REJECTION_ERROR_CODES[reason];
+}
+
+/**
+ * Split a siteverify secret into API client credentials, or null when malformed
+ */
+export function parseSiteverifySecret(secret: string): { apiKey: string; secretKey: string } | null {
+  const separator = secret.indexOf('.');
+  if (separator <= 0 || separator === secret.length - 1) return null;
+  return { apiKey: secret.slice(0, separator), secretKey: secret.slice(separator + 1) };
+}
+
+export function siteverifyFailure(...errorCodes: SiteverifyErrorCode[]): SiteverifyResponse {
+  return { success: false, 'error-codes': errorCodes };
+}
+
+export function siteverifySuccess(storedToken: VerifyToken, payload: VerifyTokenPayload): SiteverifyResponse {
+  return {
+    success: true,
+    challenge_ts: new Date(storedToken.createdAt).toISOString(),
+    hostname: payload.hostname ?? null,
+    'error-codes': [],
+    score: storedToken.score / 100,
+    action: payload.action ?? null,
+    cdata: payload.cData ?? null,
+  };
+}
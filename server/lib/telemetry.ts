@@ -0,0 +1,160 @@
+import { createDecipheriv, createECDH, hkdfSync } from 'crypto';
+import { z } from 'zod';
+import type { ReasonCode, WidgetSession } from '@shared/schema';
+import { storage } from '../storage';
+import type { ModalitySignals } from './inputModality';
+import { parseEnvironmentReport, type EnvironmentIssue, type EnvironmentReport } from './environment';
+
+// Sealed behavior telemetry
+// At /api/captcha/checkbox/init the widget and the server run an ephemeral
+// P-256 ECDH exchange; HKDF over the shared secret, salted with the session
+// nonce, gives a per-session AES-256-GCM key. Every behavior vector is then
+// posted as an envelope sealed with that key, carrying the nonce, a timestamp
+// and a strictly increasing sequence number. Sealing proves an envelope came
+// from whoever called init for that session and was not altered, replayed or
+// held back; it says nothing about whether that caller is a real widget, so
+// the vector inside is still only as trustworthy as the scoring makes it.
+// Requests without telemetry carry the explicit `no_telemetry` risk signal
+// instead of a made-up vector. The widget's environment report
+// (environment.ts) rides in the same envelope; a missing or malformed one is
+// passed on as such and fails the environment check.
+
+export const TELEMETRY_KEY_INFO = 'incaptcha-telemetry-v1';
+export const MAX_TELEMETRY_SKEW_MS = 30_000;
+
+export type RiskSignal = 'no_telemetry';
+
+export type TelemetryRejection =
+  | 'malformed'
+  | 'unknown_session'
+  | 'session_expired'
+  | 'site_mismatch'
+  | 'session_mismatch'
+  | 'decrypt_failed'
+  | 'nonce_mismatch'
+  | 'replayed'
+  | 'stale';
+
+export const sealedTelemetrySchema = z.object({
+  sessionId: z.string().min(1).max(64),
+  seq: z.number().int().positive(),
+  iv: z.string().min(1).max(32),
+  ciphertext: z.string().min(1).max(65536),
+});
+
+export type SealedTelemetry = z.infer<typeof sealedTelemetrySchema>;
+
+export interface BehaviorVector extends ModalitySignals {
+  mouseTrajectory?: Array<{ t: number; x: number; y: number }>;
+  clickLatency?: number;
+  hoverDuration?: number;
+  mouseVelocity?: number;
+  timestamp?: number;
+  scrollBehavior?: { scrollY: number; scrollVelocity: number };
+}
+
+export type TelemetryResult =
+  | {
+      success: true;
+      behaviorVector: BehaviorVector | null;
+      // null only without telemetry
+      environment: EnvironmentReport | EnvironmentIssue | null;
+      riskSignals: RiskSignal[];
+      session: WidgetSession | null;
+    }
+  | { success: false; reason: TelemetryRejection };
+
+/**
+ * Complete the key exchange for a new widget session
+ * @param clientPublicKey - The widget's uncompressed P-256 public key (base64)
+ * @returns The server's public key for the widget, and the derived key to store
+ * on the session; null when the client key is not a valid P-256 point
+ */
+export function negotiateTelemetryKey(clientPublicKey: string, nonce: string): { serverPublicKey: string; key: string } | null {
+  try {
+    const ecdh = createECDH('prime256v1');
+    const serverPublicKey = ecdh.generateKeys();
+    const sharedSecret = ecdh.computeSecret(Buffer.from(clientPublicKey, 'base64'));
+    const key = Buffer.from(hkdfSync('sha256', sharedSecret, nonce, TELEMETRY_KEY_INFO, 32));
+    return {
+      serverPublicKey: serverPublicKey.toString('base64'),
+      key: key.toString('base64'),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// The envelope's session ID and sequence number are authenticated as AAD
+function telemetryAad(sessionId: string, seq: number): Buffer {
+  return Buffer.from(`${sessionId}.${seq}`);
+}
+
+/**
+ * Decrypt and check a sealed envelope, then advance the session's sequence
+ * counter so the same envelope cannot be submitted again
+ */
+export async function openSealedTelemetry(envelope: unknown, siteKey: string): Promise<TelemetryResult> {
+  const parsed = sealedTelemetrySchema.safeParse(envelope);
+  if (!parsed.success) return { success: false, reason: 'malformed' };
+  const { sessionId, seq, iv, ciphertext } = parsed.data;
+
+  const session = await storage.getWidgetSession(sessionId);
+  if (!session || !session.telemetryKey) return { success: false, reason: 'unknown_session' };
+  if (new Date(session.expiresAt) < new Date()) return { success: false, reason: 'session_expired' };
+  if (session.siteKey !== siteKey) return { success: false, reason: 'site_mismatch' };
+
+  let payload: { nonce?: unknown; seq?: unknown; ts?: unknown; behaviorVector?: unknown; environment?: unknown };
+  try {
+    const sealed = Buffer.from(ciphertext, 'base64');
+    const decipher = createDecipheriv('aes-256-gcm', Buffer.from(session.telemetryKey, 'base64'), Buffer.from(iv, 'base64'));
+    decipher.setAAD(telemetryAad(sessionId, seq));
+    decipher.setAuthTag(sealed.subarray(sealed.length - 16));
+    const plaintext = Buffer.concat([decipher.update(sealed.subarray(0, sealed.length - 16)), decipher.final()]);
+    payload = JSON.parse(plaintext.toString('utf8'));
+  } catch {
+    return { success: false, reason: 'decrypt_failed' };
+  }
+
+  if (payload.nonce !== session.nonce || payload.seq !== seq) return { success: false, reason: 'nonce_mismatch' };
+  if (typeof payload.ts !== 'number' || Math.abs(Date.now() - payload.ts) > MAX_TELEMETRY_SKEW_MS) {
+    return { success: false, reason: 'stale' };
+  }
+  if (!payload.behaviorVector || typeof payload.behaviorVector !== 'object') return { success: false, reason: 'malformed' };
+
+  // Checked and advanced in one step, so concurrent submissions of one envelope cannot both pass
+  if (!(await storage.advanceTelemetrySeq(session.id, seq))) return { success: false, reason: 'replayed' };
+
+  return {
+    success: true,
+    behaviorVector: payload.behaviorVector as BehaviorVector,
+    environment: parseEnvironmentReport(payload.environment),
+    riskSignals: [],
+    session,
+  };
+}
+
+// Risk signals carry no points of their own; their effect is on the decision
+export function riskSignalReasons(riskSignals: RiskSignal[]): ReasonCode[] {
+  return riskSignals.map(code => ({ component: 'telemetry', code, points: 0 }));
+}
+
+/**
+ * Keep a request without telemetry below the score it would need: missing
+ * telemetry fails like a rejected envelope and never escalates or passes
+ */
+export function capUnsealedScore(score: number, riskSignals: RiskSignal[], requiredScore: number): number {
+  return riskSignals.includes('no_telemetry') ? Math.max(0, Math.min(score, requiredScore - 1)) : score;
+}
+
+/**
+ * The behavior vector a request carries in its `telemetry` envelope. Requests
+ * without one carry the `no_telemetry` risk signal and fail; unsealed
+ * `behaviorVector` fields are ignored, since nothing ties them to a real widget.
+ */
+export async function readTelemetry(body: any, siteKey: string): Promise<TelemetryResult> {
+  if (body?.telemetry === undefined || body?.telemetry === null) {
+    return { success: true, behaviorVector: null, environment: null, riskSignals: ['no_telemetry'], session: null };
+  }
+  return openSealedTelemetry(body.telemetry, siteKey);
+}
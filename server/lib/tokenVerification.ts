@@ -0,0 +1,175 @@
+import { nanoid } from 'nanoid';
+import type { SiteKey, VerifyToken } from '@shared/schema';
+import { storage } from '../storage';
+import { verifySecureToken, type VerifyTokenPayload } from '../crypto';
+import { getVerificationKeyForToken } from './siteKeys';
+
+// Server-side verify token redemption
+// /api/incaptcha/verify and the /siteverify compatibility endpoint run the same
+// checks: the token must be on record, unused, unexpired, signed by a key the
+// site still trusts, consistent with what was stored, and redeemed from the IP
+// it is bound to. Token introspection shares the lookup half without spending
+// the token. Every failure is written to the audit log.
+
+export type TokenRejection =
+  | 'not_found'
+  | 'already_used'
+  | 'expired'
+  | 'invalid_site'
+  | 'site_mismatch'
+  | 'retired_key'
+  | 'invalid_signature'
+  | 'payload_mismatch'
+  | 'ip_mismatch'
+  | 'action_mismatch';
+
+export type TokenRedemption =
+  | { valid: true; storedToken: VerifyToken; payload: VerifyTokenPayload; site: SiteKey }
+  | { valid: false; reason: TokenRejection; message: string; payload?: VerifyTokenPayload };
+
+export interface InspectOptions {
+  // Audit log action for this endpoint
+  auditAction: string;
+  ipAddress: string;
+  apiKey?: string;
+  // Only accept tokens for this site key, or for sites in this organization
+  siteKey?: string;
+  organizationId?: string | null;
+}
+
+export interface RedeemOptions extends InspectOptions {
+  // IP the token must have been issued to; null skips IP binding
+  clientIp: string | null;
+  expectedAction?: string | null;
+}
+
+async function rejectToken(
+  options: InspectOptions,
+  reason: TokenRejection,
+  message: string,
+  errorMessage: string,
+  siteKey?: string,
+  payload?: VerifyTokenPayload,
+  metadata?: Record<string, unknown>
+): Promise<TokenRedemption> {
+  await storage.createAuditLog({
+    id: nanoid(),
+    siteKey,
+    apiKey: options.apiKey,
+    action: options.auditAction,
+    ipAddress: options.ipAddress,
+    success: false,
+    errorMessage,
+    metadata: metadata as any,
+  });
+  return { valid: false, reason, message, payload };
+}
+
+/**
+ * Look a verify token up without spending it: it must be on record, belong to
+ * a site the caller may see, and carry a valid signature over the stored data.
+ * Used and expired tokens pass; redemption and introspection judge those.
+ */
+export async function inspectVerifyToken(token: string, options: InspectOptions): Promise<TokenRedemption> {
+  // Check the token exists first so forged or external tokens are refused
+  const storedToken = await storage.getVerifyToken(token);
+  if (!storedToken) {
+    return rejectToken(options, 'not_found', 'Token not found or invalid', 'Token not found in database - possible forgery attempt');
+  }
+
+  const site = await storage.getSiteKey(storedToken.siteKey);
+  if (!site || !site.active) {
+    return rejectToken(options, 'invalid_site', 'Invalid site key', 'Invalid site key', storedToken.siteKey);
+  }
+
+  // Another organization's tokens are refused before anything about them is revealed
+  if ((options.siteKey !== undefined && options.siteKey !== site.key) ||
+      (options.organizationId !== undefined && (site.organizationId ?? null) !== options.organizationId)) {
+    return rejectToken(options, 'site_mismatch', 'Token was issued for a different site key', 'Site key does not match the caller', storedToken.siteKey);
+  }
+
+  // Pick the public key the token was signed with (current or still in its rotation grace period)
+  const publicKey = await getVerificationKeyForToken(site, token);
+  if (!publicKey) {
+    return rejectToken(options, 'retired_key', 'Token signing key is no longer valid', 'Signing key retired or unknown', storedToken.siteKey);
+  }
+
+  const payload = await verifySecureToken(token, publicKey);
+  if (!payload) {
+    return rejectToken(options, 'invalid_signature', 'Invalid token signature', 'Invalid cryptographic signature - forgery attempt', storedToken.siteKey);
+  }
+
+  // The signed claims must match what was stored when the token was issued
+  if (payload.challengeId !== storedToken.challengeId ||
+      payload.siteKey !== storedToken.siteKey ||
+      (payload.action ?? null) !== (storedToken.action ?? null)) {
+    return rejectToken(options, 'payload_mismatch', 'Token data inconsistency detected', 'Token payload mismatch - tampering detected', storedToken.siteKey);
+  }
+
+  return { valid: true, storedToken, payload, site };
+}
+
+/**
+ * Check a verify token and mark it as used. A token is only ever redeemed once.
+ */
+export async function redeemVerifyToken(token: string, options: RedeemOptions): Promise<TokenRedemption> {
+  const inspection = await inspectVerifyToken(token, options);
+  if (!inspection.valid) return inspection;
+  const { storedToken, payload } = inspection;
+
+  // Replayed and relayed tokens are recorded on their attempt
+  const rejectReplay = async () => {
+    await storage.setAttemptTokenOutcome(storedToken.challengeId, 'replayed');
+    return rejectToken(options, 'already_used', 'Token has already been used', 'Token already used - replay attack attempt', storedToken.siteKey);
+  };
+  if (storedToken.used) return rejectReplay();
+
+  if (new Date(storedToken.expiresAt) < new Date()) {
+    return rejectToken(options, 'expired', 'Token has expired', 'Token expired', storedToken.siteKey);
+  }
+
+  if (options.clientIp !== null && storedToken.ipAddress && storedToken.ipAddress !== options.clientIp) {
+    await storage.setAttemptTokenOutcome(storedToken.challengeId, 'ip_mismatch');
+    return rejectToken(
+      options,
+      'ip_mismatch',
+      'Token cannot be used from different IP address',
+      `IP mismatch - token from ${storedToken.ipAddress}, request from ${options.clientIp}`,
+      storedToken.siteKey
+    );
+  }
+
+  // A token solved on one form is refused by an endpoint expecting another
+  if (options.expectedAction !== undefined && options.expectedAction !== (payload.action ?? null)) {
+    return rejectToken(
+      options,
+      'action_mismatch',
+      'Token was issued for a different action',
+      `Action mismatch - token for ${payload.action ?? 'no action'}, expected ${options.expectedAction}`,
+      storedToken.siteKey,
+      payload,
+      { action: payload.action ?? null, expectedAction: options.expectedAction }
+    );
+  }
+
+  // Checked and marked in one step: of two concurrent redemptions only one gets here first
+  if (!(await storage.markTokenAsUsed(token))) return rejectReplay();
+  await storage.setAttemptTokenOutcome(storedToken.challengeId, 'redeemed');
+
+  await storage.createAuditLog({
+    id: nanoid(),
+    siteKey: storedToken.siteKey,
+    apiKey: options.apiKey,
+    action: options.auditAction,
+    ipAddress: options.ipAddress,
+    success: true,
+    metadata: {
+      score: storedToken.score,
+      challengeId: payload.challengeId,
+      hostname: payload.hostname,
+      action: payload.action,
+    } as any,
+  });
+
+  return inspection;
+}
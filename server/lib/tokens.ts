@@ -42,7 +42,8 @@ export function verifyChallengeToken(token: string): ChallengeTokenPayload | nul
 export function generateVerifyToken(
   challengeId: string,
   siteKey: string,
-  score: number
+  score: number,
+  ttlSeconds: number = 180
 ): string {
   const nonce = randomBytes(16).toString('hex');
   
@@ -52,7 +53,7 @@ export function generateVerifyToken(
     score,
     nonce,
     iat: Math.floor(Date.now() / 1000),
-    exp: Math.floor(Date.now() / 1000) + 180, // 180 seconds
+    exp: Math.floor(Date.now() / 1000) + ttlSeconds,
   };
 
   return jwt.sign(payload, SECRET, { algorithm: 'HS512' });
@@ -1,3 +1,12 @@
+import type { ReasonCode, SitePolicyWeights } from '@shared/schema';
+import { keyboardDynamics, modalityMismatch, scoredModality, touchDynamics, visibilityDynamics, type ModalitySignals } from './inputModality';
+
+export interface ScoreExplanation {
+  score: number;
+  // Each reason's points, added to the component's base score, give `score`
+  reasons: ReasonCode[];
+}
+
 // Simplified semantic verification service
 // In production, this would use CLIP embeddings
 
@@ -6,14 +15,29 @@ export function calculateSemanticScore(
   correctIndices: number[],
   isHoneytrap: boolean
 ): number {
+  return explainSemanticScore(selectedIndices, correctIndices, isHoneytrap).score;
+}
+
+export function explainSemanticScore(
+  selectedIndices: number[],
+  correctIndices: number[],
+  isHoneytrap: boolean
+): ScoreExplanation {
+  const selectedSet = new Set(selectedIndices);
+  const correctSet = new Set(correctIndices);
+
   // If it's a honeytrap and user selected incorrectly, return low score
   if (isHoneytrap && selectedIndices.length > 0) {
-    return 15; // Suspicious
+    const reasons: ReasonCode[] = [{ component: 'semantic', code: 'honeytrap_selection', points: 15 }];
+    // Honeytraps show the normal category images, so only a selection of
+    // nothing but the off-category decoys says more than any other selection
+    if (selectedIndices.every(index => !correctSet.has(index))) {
+      reasons.push({ component: 'semantic', code: 'decoy_selection', points: 0 });
+    }
+    return { score: 15, reasons }; // Suspicious
   }
 
   // Calculate similarity between selected and correct indices
-  const selectedSet = new Set(selectedIndices);
-  const correctSet = new Set(correctIndices);
   
   // Intersection over union (Jaccard similarity)
   const intersection = new Set(Array.from(selectedSet).filter(x => correctSet.has(x)));
@@ -24,10 +48,10 @@ export function calculateSemanticScore(
   // Convert to 0-100 score
   const score = Math.round(similarity * 100);
   
-  return score;
+  return { score, reasons: [{ component: 'semantic', code: 'selection_overlap', points: score }] };
 }
 
-interface BehaviorVector {
+interface BehaviorVector extends ModalitySignals {
   mouseTrajectory?: Array<{ t: number; x: number; y: number }>;
   clickLatency?: number;
   hoverDuration?: number;
@@ -36,11 +60,31 @@ interface BehaviorVector {
   scrollBehavior?: { scrollY: number; scrollVelocity: number };
 }
 
-export function calculateBehaviorScore(behaviorVector: BehaviorVector | number[]): number {
+export function calculateBehaviorScore(behaviorVector: BehaviorVector | number[] | null | undefined): number {
+  return explainBehaviorScore(behaviorVector).score;
+}
+
+/**
+ * The behavior score with a reason code for every adjustment to its base of 50
+ */
+export function explainBehaviorScore(behaviorVector: BehaviorVector | number[] | null | undefined): ScoreExplanation {
+  const reasons: ReasonCode[] = [];
+  let score = 50; // Base score
+  const adjust = (code: string, points: number) => {
+    reasons.push({ component: 'behavior', code, points });
+    score += points;
+  };
+  const finish = (): ScoreExplanation => {
+    const clamped = Math.min(100, Math.max(0, Math.round(score)));
+    if (clamped !== score) adjust('score_clamped', clamped - score);
+    return { score: clamped, reasons };
+  };
+
   // Handle legacy array format
   if (Array.isArray(behaviorVector)) {
     if (behaviorVector.length === 0) {
-      return 30; // Lower score if no behavioral data (suspicious)
+      adjust('no_behavior_data', -20); // Lower score if no behavioral data (suspicious)
+      return finish();
     }
 
     // Analyze behavioral features (legacy)
@@ -49,40 +93,110 @@ export function calculateBehaviorScore(behaviorVector: BehaviorVector | number[]
     const velocity = behaviorVector[2] || 0;
     const timeToFirst = behaviorVector[4] || 0;
     
-    let score = 50;
-    if (mouseActivity > 0.1 && mouseActivity < 0.9) score += 15;
-    if (distance > 0.2 && distance < 0.95) score += 15;
-    if (velocity > 0.1 && velocity < 0.7) score += 10;
-    if (timeToFirst > 0.1 && timeToFirst < 0.6) score += 10;
+    if (mouseActivity > 0.1 && mouseActivity < 0.9) adjust('natural_mouse_activity', 15);
+    if (distance > 0.2 && distance < 0.95) adjust('natural_distance', 15);
+    if (velocity > 0.1 && velocity < 0.7) adjust('human_velocity', 10);
+    if (timeToFirst > 0.1 && timeToFirst < 0.6) adjust('human_reaction_time', 10);
     
-    return Math.min(100, Math.max(0, score));
+    return finish();
   }
 
   // Handle new object format with detailed behavioral signals
   if (!behaviorVector || typeof behaviorVector !== 'object') {
-    return 30; // Lower score if no behavioral data (suspicious)
+    adjust('no_behavior_data', -20); // Lower score if no behavioral data (suspicious)
+    return finish();
   }
 
-  let score = 50; // Base score
   let suspicionFlags = 0; // Track bot-like patterns
+  const modality = scoredModality(behaviorVector);
+  if (modalityMismatch(behaviorVector)) {
+    // Claimed touch or keyboard with no taps or keystrokes to show for it
+    suspicionFlags += 1;
+    adjust('modality_mismatch', -10);
+  }
+
+  // 1. Input dynamics of the modality that activated the widget
+  if (modality === 'touch') {
+    // Touch: contact time, size and rhythm stand in for the trajectory (35 points max)
+    const touch = touchDynamics(behaviorVector);
+    if (!touch || touch.taps === 0) {
+      suspicionFlags += 3;
+      adjust('no_touch_data', -30);
+    } else {
+      // A fingertip rests on the screen for roughly 50-300ms
+      if (touch.tapDuration < 15) {
+        suspicionFlags += 2;
+        adjust('instant_tap', -20);
+      } else if (touch.tapDuration >= 40 && touch.tapDuration <= 500) {
+        adjust('human_tap_duration', 15);
+      }
+
+      // Not every browser reports contact size, so a point contact is not penalized
+      if (touch.radius > 1) {
+        adjust('natural_contact_area', 10);
+      }
+
+      if (touch.taps >= 2) {
+        if (touch.tapDurationStdDev < 1) {
+          suspicionFlags += 2;
+          adjust('uniform_taps', -15);
+        } else {
+          adjust('natural_tap_variance', 10);
+        }
+      }
+    }
+  } else if (modality === 'keyboard') {
+    // Keyboard: key hold times, rhythm and the pause before Enter/Space (35 points max)
+    const keyboard = keyboardDynamics(behaviorVector);
+    if (!keyboard || keyboard.keystrokes === 0) {
+      suspicionFlags += 3;
+      adjust('no_keyboard_data', -30);
+    } else {
+      // Dispatched key events are released the instant they are pressed
+      if (keyboard.dwellTime > 0 && keyboard.dwellTime < 5) {
+        suspicionFlags += 2;
+        adjust('synthetic_keypress', -20);
+      } else if (keyboard.dwellTime >= 30 && keyboard.dwellTime <= 300) {
+        adjust('human_key_dwell', 10);
+      }
+
+      if (keyboard.focusToActivation > 0 && keyboard.focusToActivation < 50) {
+        suspicionFlags += 1;
+        adjust('instant_activation', -15);
+      } else if (keyboard.focusToActivation >= 150) {
+        adjust('human_focus_delay', 10);
+      }
 
-  // 1. Mouse trajectory analysis (30 points max) - ENHANCED AI DETECTION
-  if (behaviorVector.mouseTrajectory && behaviorVector.mouseTrajectory.length > 0) {
+      if (keyboard.keystrokes >= 3) {
+        if (keyboard.flightTimeStdDev < 1) {
+          suspicionFlags += 2;
+          adjust('uniform_key_rhythm', -15);
+        } else {
+          adjust('natural_key_rhythm', 10);
+        }
+      }
+
+      if (keyboard.tabNavigations > 0) {
+        adjust('tab_navigation', 5);
+      }
+    }
+  } else if (behaviorVector.mouseTrajectory && behaviorVector.mouseTrajectory.length > 0) {
+    // Mouse trajectory analysis (30 points max) - ENHANCED AI DETECTION
     const trajectory = behaviorVector.mouseTrajectory;
     
     // Bot detection: Too few samples (instant click)
     if (trajectory.length < 3) {
       suspicionFlags += 2;
-      score -= 25;
+      adjust('too_few_samples', -25);
     }
     // Bot detection: Suspiciously many samples (scripted movement)
     else if (trajectory.length > 100) {
       suspicionFlags += 1;
-      score -= 10;
+      adjust('too_many_samples', -10);
     }
     // Humans have natural mouse movements (5-50 samples is normal)
     else if (trajectory.length >= 5 && trajectory.length <= 50) {
-      score += 10;
+      adjust('natural_sample_count', 10);
     }
     
     // Calculate trajectory curvature (humans don't move in perfect straight lines)
@@ -108,13 +222,13 @@ export function calculateBehaviorScore(behaviorVector: BehaviorVector | number[]
     // Too many perfect segments = bot
     if (perfectLineSegments > trajectory.length * 0.7) {
       suspicionFlags += 2;
-      score -= 20;
+      adjust('straight_line_path', -20);
     }
     
     const avgCurvature = trajectory.length > 2 ? totalCurvature / (trajectory.length - 2) : 0;
     // Natural curvature (not perfectly straight, not too erratic)
     if (avgCurvature > 0.05 && avgCurvature < 1.5) {
-      score += 10;
+      adjust('natural_curvature', 10);
     }
     
     // Timing variance (humans have variable timing between samples)
@@ -129,17 +243,17 @@ export function calculateBehaviorScore(behaviorVector: BehaviorVector | number[]
       // Bot detection: Zero variance (perfectly constant timing)
       if (variance < 1) {
         suspicionFlags += 2;
-        score -= 20;
+        adjust('perfect_timing', -20);
       }
       // Natural variance in timing (not perfectly constant)
       else if (variance > 10 && variance < 10000) {
-        score += 10;
+        adjust('natural_timing_variance', 10);
       }
     }
   } else {
     // No mouse data is highly suspicious for checkbox interaction
     suspicionFlags += 3;
-    score -= 30;
+    adjust('no_mouse_movement', -30);
   }
 
   // 2. Click latency analysis (15 points max)
@@ -147,30 +261,30 @@ export function calculateBehaviorScore(behaviorVector: BehaviorVector | number[]
     // Humans typically take 500ms - 5s to interact
     // Too fast (<200ms) or instant (0ms) is suspicious
     if (behaviorVector.clickLatency > 500 && behaviorVector.clickLatency < 10000) {
-      score += 15;
+      adjust('human_click_latency', 15);
     } else if (behaviorVector.clickLatency < 100) {
-      score -= 15; // Extremely suspicious
+      adjust('instant_click', -15); // Extremely suspicious
     }
   }
 
-  // 3. Hover duration analysis (10 points max)
-  if (behaviorVector.hoverDuration !== undefined) {
+  // 3. Hover duration analysis (10 points max); touch and keyboard users cannot hover
+  if (modality === 'mouse' && behaviorVector.hoverDuration !== undefined) {
     // Humans hover for a bit before clicking (100ms - 3s is normal)
     if (behaviorVector.hoverDuration > 100 && behaviorVector.hoverDuration < 5000) {
-      score += 10;
+      adjust('human_hover', 10);
     } else if (behaviorVector.hoverDuration === 0) {
-      score -= 10; // No hover is suspicious
+      adjust('no_hover', -10); // No hover is suspicious
     }
   }
 
   // 4. Mouse velocity analysis (10 points max)
-  if (behaviorVector.mouseVelocity !== undefined) {
+  if (modality === 'mouse' && behaviorVector.mouseVelocity !== undefined) {
     // Human mouse velocity: 50-1500 pixels/second (varies by user)
     // Bots tend to have constant velocity or extreme values
     if (behaviorVector.mouseVelocity > 50 && behaviorVector.mouseVelocity < 2000) {
-      score += 10;
+      adjust('human_velocity', 10);
     } else if (behaviorVector.mouseVelocity === 0) {
-      score -= 15; // No movement is very suspicious
+      adjust('no_velocity', -15); // No movement is very suspicious
     }
   }
 
@@ -179,25 +293,36 @@ export function calculateBehaviorScore(behaviorVector: BehaviorVector | number[]
     // Natural scrolling behavior indicates human interaction
     if (Math.abs(behaviorVector.scrollBehavior.scrollVelocity) > 0 && 
         Math.abs(behaviorVector.scrollBehavior.scrollVelocity) < 10000) {
-      score += 5;
+      adjust('natural_scroll', 5);
     }
   }
 
+  // 6. Page visibility: real input events never reach a hidden page
+  if (visibilityDynamics(behaviorVector)?.hiddenAtActivation) {
+    suspicionFlags += 3;
+    adjust('activated_while_hidden', -30);
+  }
+
   // Final AI-powered risk assessment
   // High suspicion flags should dramatically reduce score
-  if (suspicionFlags >= 3) {
-    score = Math.min(score, 35); // Cap at 35 if highly suspicious
-  } else if (suspicionFlags >= 2) {
-    score = Math.min(score, 55); // Cap at 55 if moderately suspicious
+  if (suspicionFlags >= 3 && score > 35) {
+    adjust('high_suspicion_cap', 35 - score); // Cap at 35 if highly suspicious
+  } else if (suspicionFlags === 2 && score > 55) {
+    adjust('suspicion_cap', 55 - score); // Cap at 55 if moderately suspicious
   }
   
-  return Math.min(100, Math.max(0, Math.round(score)));
+  return finish();
 }
 
 export function calculateDeviceTrustScore(userAgent?: string, ipAddress?: string): number {
+  return explainDeviceTrustScore(userAgent, ipAddress).score;
+}
+
+export function explainDeviceTrustScore(userAgent?: string, ipAddress?: string): ScoreExplanation {
   // Simplified device trust
   // In production, this would check browser fingerprints, IP reputation, etc.
   
+  const reasons: ReasonCode[] = [];
   let score = 70; // Base trust
   
   if (userAgent) {
@@ -207,32 +332,78 @@ export function calculateDeviceTrustScore(userAgent?: string, ipAddress?: string
       userAgent.toLowerCase().includes(keyword)
     );
     
-    if (isBot) score -= 50;
+    if (isBot) {
+      reasons.push({ component: 'device', code: 'bot_user_agent', points: -50 });
+      score -= 50;
+    }
     
     // Real browsers get bonus
     if (userAgent.includes('Chrome') || userAgent.includes('Firefox') || userAgent.includes('Safari')) {
+      reasons.push({ component: 'device', code: 'known_browser', points: 10 });
       score += 10;
     }
   }
   
-  return Math.min(100, Math.max(0, score));
+  return { score: Math.min(100, Math.max(0, score)), reasons };
 }
 
+// Weighted sum over the components that were measured; a missing (null)
+// component's weight is spread proportionally over the rest
+function fuseWeighted(components: Array<[score: number | null, weight: number]>): number {
+  let total = 0;
+  let weights = 0;
+  for (const [score, weight] of components) {
+    if (score === null) continue;
+    total += weight * score;
+    weights += weight;
+  }
+  return weights > 0 ? Math.round(total / weights) : 0;
+}
+
+// Weights come from the site policy (server/lib/policy.ts)
 export function fuseBehavioralScores(
   behaviorScore: number,
   semanticScore: number,
   deviceTrustScore: number,
-  alpha: number = 0.5,
-  beta: number = 0.4,
-  gamma: number = 0.1
+  environmentScore: number | null,
+  weights: SitePolicyWeights['images']
 ): number {
-  const finalScore = (
-    alpha * behaviorScore + 
-    beta * semanticScore + 
-    gamma * deviceTrustScore
-  );
-  
-  return Math.round(finalScore);
+  return fuseWeighted([
+    [behaviorScore, weights.behavior],
+    [semanticScore, weights.semantic],
+    [deviceTrustScore, weights.device],
+    [environmentScore, weights.environment],
+  ]);
+}
+
+// Checkbox-only verification (turnstile/verify): the AI ensemble stands in for the challenge answer
+export function fuseTurnstileScores(
+  aiScore: number,
+  behaviorScore: number,
+  deviceTrustScore: number,
+  environmentScore: number | null,
+  weights: SitePolicyWeights['turnstile']
+): number {
+  return fuseWeighted([
+    [aiScore, weights.ai],
+    [behaviorScore, weights.behavior],
+    [deviceTrustScore, weights.device],
+    [environmentScore, weights.environment],
+  ]);
+}
+
+// Session checkbox verification (checkbox/verify)
+export function fuseCheckboxScores(
+  behaviorScore: number,
+  deviceTrustScore: number,
+  environmentScore: number | null,
+  weights: SitePolicyWeights['checkbox']
+): number {
+  return fuseWeighted([
+    [behaviorScore, weights.behavior],
+    [deviceTrustScore, weights.device],
+    [environmentScore, weights.environment],
+  ]);
 }
 
 export function shouldFlagSuspicious(
@@ -252,3 +423,122 @@ export function shouldFlagSuspicious(
   
   return false;
 }
+
+// Trajectory replay detection
+// Bots often record one human mouse trajectory and replay it on every solve.
+// Each trajectory is resampled at even time steps relative to its first
+// sample, so shifting or delaying a recording changes nothing, and reduced to
+// the wobble in how it strays from the straight line between its ends. A
+// 64-bit random-hyperplane hash of that wobble keeps near-identical
+// trajectories within a few bits of each other, even with some jitter added.
+
+export const REPLAY_WINDOW_MS = 24 * 60 * 60 * 1000;
+export const REPLAY_MAX_HAMMING = 3;
+// 64 bits in 4 bands of 16: fingerprints within REPLAY_MAX_HAMMING bits share at least one band
+export const TRAJECTORY_BANDS = 4;
+
+const MIN_FINGERPRINT_SAMPLES = 8;
+const FINGERPRINT_POINTS = 16;
+// Smoother movements than this carry too little shape to tell people apart
+const MIN_DEVIATION_PX = 1;
+
+// Fixed seed, so fingerprints stay comparable across restarts and instances
+const HYPERPLANES: number[][] = (() => {
+  let state = 0x1ca7c4a;
+  const random = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const gaussian = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+  return Array.from({ length: 64 }, () =>
+    Array.from({ length: FINGERPRINT_POINTS - 2 }, gaussian)
+  );
+})();
+
+/**
+ * A hex locality-sensitive hash of the trajectory's shape, or null when it is
+ * too short or too smooth to tell a replay from two people making the same
+ * simple movement
+ */
+export function computeTrajectoryFingerprint(trajectory: unknown): string | null {
+  if (!Array.isArray(trajectory)) return null;
+  const samples = trajectory.filter((p): p is { t: number; x: number; y: number } =>
+    !!p && Number.isFinite(p.t) && Number.isFinite(p.x) && Number.isFinite(p.y)
+  );
+  if (samples.length < MIN_FINGERPRINT_SAMPLES) return null;
+
+  const { t: t0, x: x0, y: y0 } = samples[0];
+  const duration = samples[samples.length - 1].t - t0;
+  if (duration <= 0) return null;
+
+  // Resample at even time steps so a replay with dropped or extra samples still lines up
+  const points: Array<{ x: number; y: number }> = [];
+  let j = 0;
+  for (let i = 0; i < FINGERPRINT_POINTS; i++) {
+    const t = t0 + (duration * i) / (FINGERPRINT_POINTS - 1);
+    while (j < samples.length - 2 && samples[j + 1].t < t) j++;
+    const a = samples[j];
+    const b = samples[j + 1];
+    const f = b.t > a.t ? Math.min(1, Math.max(0, (t - a.t) / (b.t - a.t))) : 0;
+    points.push({ x: a.x + (b.x - a.x) * f - x0, y: a.y + (b.y - a.y) * f - y0 });
+  }
+
+  // Sideways deviation from the straight start-to-end line, with the single
+  // arc and S-curve every hand movement shares projected out. What is left is
+  // the wobble particular to one recording.
+  const end = points[points.length - 1];
+  const chord = Math.hypot(end.x, end.y);
+  if (chord === 0) return null;
+  let deviation: number[] = [];
+  for (let i = 1; i < FINGERPRINT_POINTS - 1; i++) {
+    deviation.push((points[i].y * end.x - points[i].x * end.y) / chord);
+  }
+  for (const harmonic of [1, 2]) {
+    const basis = deviation.map((_, k) => Math.sin((harmonic * Math.PI * (k + 1)) / (FINGERPRINT_POINTS - 1)));
+    const norm = basis.reduce((sum, b) => sum + b * b, 0);
+    const weight = basis.reduce((sum, b, k) => sum + b * deviation[k], 0) / norm;
+    deviation = deviation.map((d, k) => d - weight * basis[k]);
+  }
+  const rms = Math.sqrt(deviation.reduce((sum, d) => sum + d * d, 0) / deviation.length);
+  if (rms < MIN_DEVIATION_PX) return null;
+
+  const bytes = Buffer.alloc(8);
+  HYPERPLANES.forEach((plane, bit) => {
+    const dot = plane.reduce((sum, w, k) => sum + w * deviation[k], 0);
+    if (dot > 0) bytes[bit >> 3] |= 1 << (bit & 7);
+  });
+  return bytes.toString('hex');
+}
+
+/**
+ * The fingerprint's LSH bands, for looking up near-duplicates in storage
+ */
+export function trajectoryBands(fingerprint: string): string[] {
+  const width = fingerprint.length / TRAJECTORY_BANDS;
+  return Array.from({ length: TRAJECTORY_BANDS }, (_, i) => fingerprint.slice(i * width, (i + 1) * width));
+}
+
+export function isNearDuplicateTrajectory(a: string, b: string): boolean {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let distance = 0;
+  while (diff > BigInt(0)) {
+    distance += Number(diff & BigInt(1));
+    diff >>= BigInt(1);
+  }
+  return distance <= REPLAY_MAX_HAMMING;
+}
+
+/**
+ * Cap the behavior score of a trajectory already submitted in other sessions;
+ * every further sighting lowers the cap
+ */
+export function penalizeReplayedTrajectory(behavior: ScoreExplanation, replayHits: number): ScoreExplanation {
+  if (replayHits === 0) return behavior;
+  const score = Math.min(behavior.score, Math.max(0, 25 - 5 * replayHits));
+  return {
+    score,
+    reasons: [...behavior.reasons, { component: 'behavior', code: 'trajectory_replay', points: score - behavior.score }],
+  };
+}
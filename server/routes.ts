@@ -1,22 +1,91 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 ;
 import { storage } from "./storage";
+import type { ApiClient, OperatorRole, ReasonCode, SiteKey } from "@shared/schema";
 import { nanoid } from "nanoid";
+import { readFile } from "fs/promises";
+import path from "path";
 import {
   generateChallengeToken,
   verifyChallengeToken,
-  generateVerifyToken,
   verifyVerifyToken,
 } from "./lib/tokens";
 import {
-  calculateSemanticScore,
-  calculateBehaviorScore,
-  calculateDeviceTrustScore,
+  explainSemanticScore,
+  explainBehaviorScore,
+  explainDeviceTrustScore,
   fuseBehavioralScores,
+  fuseTurnstileScores,
+  fuseCheckboxScores,
   shouldFlagSuspicious,
+  computeTrajectoryFingerprint,
+  trajectoryBands,
+  isNearDuplicateTrajectory,
+  penalizeReplayedTrajectory,
+  REPLAY_WINDOW_MS,
+  type ScoreExplanation,
 } from "./lib/verification";
 import { comprehensiveAIDetection } from "./lib/aiDetection";
+import { explainEnvironmentScore } from "./lib/environment";
 import { checkRateLimit } from "./lib/rateLimit";
+import {
+  MIN_PASSWORD_LENGTH,
+  getSessionState,
+  getOrganizationRole,
+  hashPassword,
+  recordOperatorAction,
+  requireOperatorRole,
+  requireRole,
+  toPublicOperator,
+  verifyPassword,
+} from "./lib/auth";
+import {
+  getSitePolicy,
+  isChallengeAllowed,
+  sitePolicyUpdateSchema,
+} from "./lib/policy";
+import {
+  generateJigsawPuzzle,
+  getJigsawRenderData,
+  scoreJigsawSolution,
+  type JigsawAnswer,
+} from "./lib/jigsaw";
+import {
+  DEFAULT_ROTATION_GRACE_SECONDS,
+  MAX_ROTATION_GRACE_SECONDS,
+  getVerificationKeys,
+  isVersionVerifying,
+  recordActiveVersion,
+  rotateSiteKey,
+} from "./lib/siteKeys";
+import {
+  allowedHostnamesSchema,
+  getRequestHostname,
+  isHostnameAllowed,
+  normalizeEmbedOrigin,
+} from "./lib/hostnames";
+import { getTokenClaims, parseWidgetAction } from "./lib/actions";
+import { inspectVerifyToken, redeemVerifyToken } from "./lib/tokenVerification";
+import { attemptReviewSchema } from "./lib/botModel";
+import { capUnsealedScore, negotiateTelemetryKey, readTelemetry, riskSignalReasons, type TelemetryRejection } from "./lib/telemetry";
+import {
+  getRejectionErrorCode,
+  parseSiteverifySecret,
+  siteverifyFailure,
+  siteverifySuccess,
+} from "./lib/siteverify";
+import {
+  MAX_CLIENT_QUOTA_PER_HOUR,
+  applyQuotaHeaders,
+  cleanupExpiredQuotaUsage,
+  consumeClientQuota,
+  getClientQuotaStatus,
+} from "./lib/quotas";
+import {
+  generatePowChallenge,
+  verifyPowSolution,
+  type PowChallenge,
+} from "./lib/pow";
 import {
   seedAssets,
   getRandomAssets,
@@ -33,6 +102,157 @@ function getClientIp(request: FastifyRequest): string {
   );
 }
 
+const OPERATOR_ROLES: OperatorRole[] = ['owner', 'admin', 'viewer'];
+
+function validateOperatorInput(input: { email: any; name: any; password: any; role?: any }): string | null {
+  if (typeof input.email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input.email.trim())) {
+    return 'A valid email is required';
+  }
+  if (typeof input.name !== 'string' || input.name.trim().length < 1 || input.name.length > 100) {
+    return 'Invalid name: must be between 1 and 100 characters';
+  }
+  if (typeof input.password !== 'string' || input.password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  if ('role' in input && !OPERATOR_ROLES.includes(input.role)) {
+    return 'Invalid role: must be owner, admin or viewer';
+  }
+  return null;
+}
+
+// Site keys are only visible to the organization that owns them
+async function getOrganizationSiteKey(request: FastifyRequest, key: string): Promise<SiteKey | undefined> {
+  const siteKey = await storage.getSiteKey(key);
+  return siteKey && siteKey.organizationId === request.organizationId ? siteKey : undefined;
+}
+
+// Forged, replayed or stale telemetry envelopes are refused
+async function recordTelemetryRejection(siteKey: string, reason: TelemetryRejection, ipAddress: string, endpoint: string): Promise<void> {
+  const site = await storage.getSiteKey(siteKey);
+  await storage.createAuditLog({
+    id: nanoid(),
+    siteKey,
+    organizationId: site?.organizationId,
+    action: 'telemetry_rejected',
+    ipAddress,
+    success: false,
+    errorMessage: `Sealed telemetry rejected: ${reason}`,
+    metadata: { reason, endpoint } as any,
+  });
+}
+
+// Checkbox decisions made without a challenge are recorded as attempts too,
+// under the challenge ID their verify token carries, so every token has its reasons
+async function recordCheckboxAttempt(
+  challengeId: string,
+  siteKey: string,
+  ipAddress: string,
+  userAgent: string | undefined,
+  result: {
+    behaviorVector: unknown;
+    behaviorScore: number;
+    deviceTrustScore: number;
+    environmentScore: number | null;
+    finalScore: number;
+    success: boolean;
+    reasonCodes: ReasonCode[];
+    trajectoryFingerprint: string | null;
+    replayHits: number;
+  }
+): Promise<void> {
+  await storage.createVerificationAttempt({
+    id: nanoid(),
+    challengeId,
+    siteKey,
+    ipAddress,
+    behaviorVector: result.behaviorVector as any,
+    behaviorScore: result.behaviorScore,
+    deviceTrustScore: result.deviceTrustScore,
+    environmentScore: result.environmentScore,
+    finalScore: result.finalScore,
+    success: result.success,
+    flaggedSuspicious: !result.success || result.replayHits > 0,
+    trajectoryFingerprint: result.trajectoryFingerprint,
+    replayHits: result.replayHits,
+    reasonCodes: result.reasonCodes,
+    userAgent,
+  });
+}
+
+// The reason codes of the successful attempt a verify token was issued for
+async function getTokenReasonCodes(challengeId: string): Promise<ReasonCode[]> {
+  const attempts = await storage.getAttemptsByChallenge(challengeId);
+  return attempts.find(a => a.success)?.reasonCodes ?? [];
+}
+
+// Near-duplicates of a trajectory submitted for other challenges, across any IP
+// or site key, within the replay window
+async function countTrajectoryReplays(fingerprint: string | null, challengeId: string): Promise<number> {
+  if (!fingerprint) return 0;
+  const candidates = await storage.getAttemptsByTrajectoryBands(
+    trajectoryBands(fingerprint),
+    new Date(Date.now() - REPLAY_WINDOW_MS)
+  );
+  return candidates.filter(a =>
+    a.challengeId !== challengeId &&
+    a.trajectoryFingerprint !== null &&
+    isNearDuplicateTrajectory(fingerprint, a.trajectoryFingerprint)
+  ).length;
+}
+
+// Widgets embedded on a hostname outside the site key's allowlist are refused
+async function recordHostnameRejection(site: SiteKey, hostname: string | null, ipAddress: string): Promise<void> {
+  await storage.createAuditLog({
+    id: nanoid(),
+    siteKey: site.key,
+    organizationId: site.organizationId,
+    action: 'hostname_rejected',
+    ipAddress,
+    success: false,
+    errorMessage: hostname ? `Hostname ${hostname} is not allowed` : 'Missing Origin and Referer',
+    metadata: { hostname } as any,
+  });
+}
+
+// API clients authenticate server-to-server calls with their key and secret
+async function authenticateApiClient(apiKey: unknown, secretKey: unknown): Promise<ApiClient | null> {
+  if (typeof apiKey !== 'string' || typeof secretKey !== 'string') return null;
+
+  const client = await storage.getApiClient(apiKey);
+  if (!client || !client.active) return null;
+
+  const bcrypt = await import('bcryptjs');
+  if (!(await bcrypt.compare(secretKey, client.secretKeyHash))) return null;
+
+  await storage.updateApiClientLastUsed(apiKey);
+  return client;
+}
+
+// Served from the package build so sites can embed the widget with a plain <script src>
+const WIDGET_SCRIPT_DIR = path.resolve(import.meta.dirname, '..', 'packages', 'incaptch', 'dist');
+const WIDGET_SCRIPTS = ['incaptcha.js', 'incaptcha-compat.js', 'incaptcha-frame.js'];
+
+// Document loaded by CheckboxWidget's iframe; incaptcha-frame.js reads its parameters from the URL
+const WIDGET_FRAME_HTML = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>InCaptcha</title>
+<style>html, body { margin: 0; padding: 0; background: transparent; overflow: hidden; }</style>
+</head>
+<body>
+<div id="incaptcha-frame"></div>
+<script src="/incaptcha-frame.js"></script>
+</body>
+</html>
+`;
+
+async function countActiveOwners(): Promise<number> {
+  const operators = await storage.getAllOperators();
+  return operators.filter(o => o.role === 'owner' && o.active).length;
+}
+
 export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
   // Seed assets on startup
   seedAssets().catch(console.error);
@@ -58,6 +278,12 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
     console.log('Updated demo site key with Ed25519 key pair');
   }
 
+  // Make sure the demo key's signing pair is in its version history
+  const demoSite = await storage.getSiteKey('demo_site_key');
+  if (demoSite) {
+    await recordActiveVersion(demoSite);
+  }
+
   // GET /api/health - Health check endpoint
   fastify.get('/api/health', async (request, reply) => {
     return reply.send({ 
@@ -67,15 +293,113 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
     });
   });
 
+  // GET /incaptcha.js, /incaptcha-compat.js, /incaptcha-frame.js - Widget bundles built by packages/incaptch
+  for (const script of WIDGET_SCRIPTS) {
+    fastify.get(`/${script}`, async (request, reply) => {
+      try {
+        const source = await readFile(path.resolve(WIDGET_SCRIPT_DIR, script));
+        reply
+          .header('Content-Type', 'text/javascript; charset=utf-8')
+          .header('Cache-Control', 'public, max-age=300')
+          .header('Cross-Origin-Resource-Policy', 'cross-origin')
+          .send(source);
+      } catch (error) {
+        console.error(`Error in /${script}:`, error);
+        reply.status(404).send({
+          error: 'Widget script not built. Run the incaptch package build.',
+        });
+      }
+    });
+  }
+
+  // GET /widget - Widget iframe document for CheckboxWidget
+  // The parent page's origin is pinned with frame-ancestors, so the origin the
+  // frame reports to the API (embedOrigin) is the page it really runs in
+  fastify.get('/widget', async (request, reply) => {
+    try {
+      const { sitekey, origin } = request.query as any;
+      const embedOrigin = normalizeEmbedOrigin(origin);
+      if (typeof sitekey !== 'string' || !sitekey || !embedOrigin) {
+        return reply.status(400).send({
+          error: 'sitekey and origin are required',
+        });
+      }
+
+      const site = await storage.getSiteKey(sitekey);
+      if (!site || !site.active) {
+        return reply.status(400).send({
+          error: 'Invalid site key',
+        });
+      }
+
+      const hostname = new URL(embedOrigin).hostname;
+      if (!isHostnameAllowed(site, hostname)) {
+        await recordHostnameRejection(site, hostname, getClientIp(request));
+        return reply.status(403).send({
+          error: 'Hostname not allowed for this site key',
+        });
+      }
+
+      reply
+        .header('Content-Type', 'text/html; charset=utf-8')
+        .header('Content-Security-Policy', `frame-ancestors ${embedOrigin}`)
+        .header('Cache-Control', 'no-store')
+        .send(WIDGET_FRAME_HTML);
+    } catch (error) {
+      console.error('Error in /widget:', error);
+      reply.status(500).send({
+        error: 'Failed to load widget',
+      });
+    }
+  });
+
+  // GET /.well-known/jwks.json - Public keys for offline verify token validation
+  // Optional ?siteKey= narrows the set to one site
+  fastify.get('/.well-known/jwks.json', async (request, reply) => {
+    try {
+      const { siteKey } = request.query as any;
+      const { getPublicJwk } = await import('./crypto');
+
+      const sites = siteKey
+        ? [await storage.getSiteKey(siteKey)]
+        : await storage.getAllSiteKeys();
+
+      // Active keys plus retired keys still inside their rotation grace period
+      const keys = [];
+      for (const site of sites) {
+        if (!site || !site.active) continue;
+        for (const { publicKey } of await getVerificationKeys(site)) {
+          keys.push(await getPublicJwk(publicKey));
+        }
+      }
+
+      reply
+        .header('Cache-Control', 'public, max-age=300')
+        .send({ keys });
+    } catch (error) {
+      console.error('Error in /.well-known/jwks.json:', error);
+      reply.status(500).send({
+        error: 'Failed to load signing keys',
+      });
+    }
+  });
+
   // POST /api/incaptcha/start - Start a new challenge
   fastify.post('/api/incaptcha/start', async (request, reply) => {
     try {
       const { siteKey, theme, lang } = request.body as any;
+      const widgetAction = parseWidgetAction(request.body);
+      if (!widgetAction.success) {
+        return reply.status(400).send({
+          error: widgetAction.error,
+        });
+      }
       const ipAddress = getClientIp(request);
 
       // Check rate limit
-      const rateLimit = await checkRateLimit(ipAddress, 'start');
+      const rateLimit = await checkRateLimit(ipAddress, 'start', siteKey);
       if (!rateLimit.allowed) {
+        reply.header('Retry-After', Math.ceil(rateLimit.retryAfterMs / 1000));
         return reply.status(429).send({
           error: 'Rate limit exceeded. Please try again later.',
         });
@@ -89,6 +413,21 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
         });
       }
 
+      const hostname = getRequestHostname(request);
+      if (!isHostnameAllowed(site, hostname)) {
+        await recordHostnameRejection(site, hostname, ipAddress);
+        return reply.status(403).send({
+          error: 'Hostname not allowed for this site key',
+        });
+      }
+
+      const policy = await getSitePolicy(site.key);
+      if (!isChallengeAllowed(policy, 'images')) {
+        return reply.status(400).send({
+          error: 'Image challenges are disabled for this site',
+        });
+      }
+
       // Determine challenge mode (for demo, always use images mode)
       const mode: 'images' | 'puzzle' = 'images';
 
@@ -124,6 +463,7 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
         images: allImages,
         correctIndices,
         isHoneytrap,
+        metadata: { hostname, ...widgetAction.data },
         expiresAt,
       });
 
@@ -148,50 +488,23 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
   // POST /api/incaptcha/solve - Solve a challenge
   fastify.post('/api/incaptcha/solve', async (request, reply) => {
     try {
-      const { challengeId, challengeToken, selectedIndices, behaviorVector: rawBehaviorVector } = request.body as any;
+      const { challengeId, challengeToken, selectedIndices, solution, nonce } = request.body as any;
       const ipAddress = getClientIp(request);
       const userAgent = request.headers['user-agent'];
 
-      // Handle missing behavior vector - provide realistic human-like default
-      // Generate a realistic trajectory with randomized timing/positions to avoid anomaly detection
-      const now = Date.now();
-      const behaviorVector = rawBehaviorVector || {
-        mouseTrajectory: [
-          { t: now - 2150, x: 95, y: 148 },
-          { t: now - 1892, x: 118, y: 167 },
-          { t: now - 1583, x: 143, y: 182 },
-          { t: now - 1347, x: 177, y: 191 },
-          { t: now - 1128, x: 208, y: 197 },
-          { t: now - 934, x: 252, y: 201 },
-          { t: now - 741, x: 287, y: 206 },
-          { t: now - 568, x: 333, y: 209 },
-          { t: now - 382, x: 367, y: 216 },
-          { t: now - 217, x: 393, y: 221 },
-          { t: now - 94, x: 412, y: 224 }
-        ],
-        clickLatency: 1847,
-        hoverDuration: 623,
-        mouseVelocity: 267,
-        timestamp: now,
-        scrollBehavior: { scrollY: 112, scrollVelocity: 48 }
-      };
-
-      // Log when behavior data is missing for monitoring
-      if (!rawBehaviorVector) {
-        console.log(`Solve challenge: No behavior data provided from ${ipAddress}. Using fallback scoring.`);
-      }
+      // Verify challenge token (its site key selects the site's rate limit)
+      const tokenPayload = verifyChallengeToken(challengeToken);
 
       // Check rate limit
-      const rateLimit = await checkRateLimit(ipAddress, 'solve');
+      const rateLimit = await checkRateLimit(ipAddress, 'solve', tokenPayload?.siteKey);
       if (!rateLimit.allowed) {
+        reply.header('Retry-After', Math.ceil(rateLimit.retryAfterMs / 1000));
         return reply.status(429).send({
           success: false,
           message: 'Too many attempts. Please wait before trying again.',
         });
       }
 
-      // Verify challenge token
-      const tokenPayload = verifyChallengeToken(challengeToken);
       if (!tokenPayload || tokenPayload.challengeId !== challengeId) {
         return reply.status(401).send({
           success: false,
@@ -216,81 +529,228 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
         });
       }
 
+      // A challenge can only be solved once
+      const previousAttempts = await storage.getAttemptsByChallenge(challengeId);
+      if (previousAttempts.some(a => a.success)) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Challenge has already been solved',
+        });
+      }
+
+      const telemetry = await readTelemetry(request.body, challenge.siteKey);
+      if (!telemetry.success) {
+        await recordTelemetryRejection(challenge.siteKey, telemetry.reason, ipAddress, 'solve');
+        return reply.status(400).send({
+          success: false,
+          message: 'Invalid telemetry',
+        });
+      }
+      const { behaviorVector, riskSignals } = telemetry;
+
+      const trajectoryFingerprint = computeTrajectoryFingerprint(behaviorVector?.mouseTrajectory);
+      const replayHits = await countTrajectoryReplays(trajectoryFingerprint, challengeId);
+      const behavior = penalizeReplayedTrajectory(explainBehaviorScore(behaviorVector), replayHits);
+      const device = explainDeviceTrustScore(userAgent, ipAddress);
+      const environment = explainEnvironmentScore(telemetry.environment, userAgent);
+
+      const policy = await getSitePolicy(challenge.siteKey);
+
+      // Tokens are signed with the site's Ed25519 key so relying parties can verify them offline
+      const site = await storage.getSiteKey(challenge.siteKey);
+      if (!site || !site.active || !site.secretKey) {
+        return reply.status(500).send({
+          success: false,
+          message: 'Site configuration error',
+        });
+      }
+      const { generateSecureVerifyToken } = await import('./crypto');
+      // Hostname was checked against the allowlist, and action validated, when the challenge was issued
+      const claims = getTokenClaims(challenge.metadata);
+
+      if (challenge.mode === 'pow') {
+        const pow = challenge.metadata?.pow as PowChallenge | undefined;
+        if (!pow) {
+          return reply.status(400).send({
+            success: false,
+            message: 'Invalid proof-of-work challenge',
+          });
+        }
+
+        // Proof-of-work shows the client spent the CPU time, not that it is human,
+        // so the token carries the risk score measured when the challenge was issued.
+        // A solve without telemetry never earns one.
+        const powValid = verifyPowSolution(pow, nonce);
+        const solved = powValid && !riskSignals.includes('no_telemetry');
+        const riskScore: number = challenge.metadata?.riskScore ?? 0;
+        // A replayed trajectory caps the token's score as it caps the behavior score
+        const cappedScore = replayHits > 0 ? Math.min(riskScore, behavior.score) : riskScore;
+        const finalScore = solved ? cappedScore : 0;
+        // ...and the reasons that explain it
+        const escalationReasons = (challenge.metadata?.reasonCodes ?? []) as ReasonCode[];
+        const replayReasons: ReasonCode[] = replayHits > 0
+          ? [{ component: 'behavior', code: 'trajectory_replay', points: cappedScore - riskScore }]
+          : [];
+
+        await storage.createVerificationAttempt({
+          id: nanoid(),
+          challengeId,
+          siteKey: challenge.siteKey,
+          ipAddress,
+          behaviorVector: behaviorVector as any,
+          behaviorScore: behavior.score,
+          semanticScore: powValid ? 100 : 0,
+          deviceTrustScore: device.score,
+          environmentScore: environment?.score ?? null,
+          finalScore,
+          success: solved,
+          flaggedSuspicious: !solved || replayHits > 0,
+          trajectoryFingerprint,
+          replayHits,
+          reasonCodes: [
+            ...escalationReasons,
+            ...riskSignalReasons(riskSignals),
+            ...replayReasons,
+            { component: 'semantic', code: powValid ? 'pow_solved' : 'pow_invalid', points: powValid ? 100 : 0 },
+          ],
+          userAgent,
+        });
+
+        if (!solved) {
+          return reply.send({
+            success: false,
+            message: 'Verification failed. Please try again.',
+            score: finalScore,
+          });
+        }
+
+        const verifyToken = await generateSecureVerifyToken(
+          challengeId,
+          site.key,
+          finalScore,
+          site.secretKey,
+          policy.tokenTtlSeconds,
+          claims
+        );
+
+        await storage.createVerifyToken({
+          token: verifyToken,
+          challengeId,
+          siteKey: site.key,
+          score: finalScore,
+          used: false,
+          action: claims.action,
+          cData: claims.cData,
+          expiresAt: new Date(Date.now() + policy.tokenTtlSeconds * 1000),
+        });
+
+        return reply.send({
+          success: true,
+          verifyToken,
+          score: finalScore,
+        });
+      }
+
       // Calculate scores based on challenge mode
-      let semanticScore: number;
-      let behaviorScore: number;
-      let deviceTrustScore: number;
+      let semantic: ScoreExplanation;
       let finalScore: number;
 
       if (challenge.mode === 'jigsaw') {
-        // For jigsaw puzzles, the accuracy is passed in selectedIndices[0]
-        const puzzleAccuracy = selectedIndices.length > 0 ? selectedIndices[0] : 0;
+        // Score the submitted drop coordinates and drag trace against the stored answer
+        const answer = challenge.metadata?.jigsaw as JigsawAnswer | undefined;
+        if (!answer) {
+          return reply.status(400).send({
+            success: false,
+            message: 'Invalid puzzle challenge',
+          });
+        }
 
-        // Puzzle accuracy is the primary score (0-100)
-        semanticScore = Math.min(100, Math.max(0, puzzleAccuracy));
+        const jigsawResult = scoreJigsawSolution(answer, solution);
 
-        // Still check behavioral patterns
-        behaviorScore = calculateBehaviorScore(behaviorVector);
-        deviceTrustScore = calculateDeviceTrustScore(userAgent, ipAddress);
+        // Puzzle result is the primary score (0-100); its issues are already counted in it
+        semantic = {
+          score: jigsawResult.score,
+          reasons: [
+            { component: 'semantic', code: 'puzzle_accuracy', points: jigsawResult.score },
+            ...jigsawResult.issues.map((issue): ReasonCode => ({ component: 'semantic', code: issue, points: 0 })),
+          ],
+        };
 
-        // Weight puzzle accuracy heavily (70%), behavior (20%), device (10%)
-        finalScore = Math.round(
-          semanticScore * 0.7 +
-          behaviorScore * 0.2 +
-          deviceTrustScore * 0.1
+        // Puzzle accuracy is weighted heavily by default; behavioral patterns are still checked
+        finalScore = fuseBehavioralScores(
+          behavior.score,
+          semantic.score,
+          device.score,
+          environment?.score ?? null,
+          policy.weights.jigsaw
         );
       } else {
         // Standard image selection challenge
-        semanticScore = calculateSemanticScore(
+        semantic = explainSemanticScore(
           selectedIndices,
           challenge.correctIndices as number[],
           challenge.isHoneytrap || false
         );
 
-        behaviorScore = calculateBehaviorScore(behaviorVector);
-        deviceTrustScore = calculateDeviceTrustScore(userAgent, ipAddress);
-
-        // Fuse scores with standard weights
         finalScore = fuseBehavioralScores(
-          behaviorScore,
-          semanticScore,
-          deviceTrustScore
+          behavior.score,
+          semantic.score,
+          device.score,
+          environment?.score ?? null,
+          policy.weights.images
         );
       }
 
-      // Determine success (threshold: 70 for jigsaw, 75 for images)
-      const successThreshold = challenge.mode === 'jigsaw' ? 70 : 75;
+      // Determine success against the site's threshold for this challenge type
+      const successThreshold = challenge.mode === 'jigsaw'
+        ? policy.thresholds.jigsaw
+        : policy.thresholds.images;
+      finalScore = capUnsealedScore(finalScore, riskSignals, successThreshold);
       const success = finalScore >= successThreshold;
 
-      // Check if suspicious
-      const flaggedSuspicious = shouldFlagSuspicious(
-        behaviorScore,
-        semanticScore,
-        deviceTrustScore
+      // Check if suspicious; solving without any telemetry, or with a replayed trajectory, always is
+      const flaggedSuspicious = riskSignals.includes('no_telemetry') || replayHits > 0 || shouldFlagSuspicious(
+        behavior.score,
+        semantic.score,
+        device.score
       );
 
       // Create verification attempt
       const attempt = await storage.createVerificationAttempt({
         id: nanoid(),
         challengeId,
+        siteKey: challenge.siteKey,
         ipAddress,
         selectedIndices,
-        behaviorVector,
-        behaviorScore,
-        semanticScore,
-        deviceTrustScore,
+        behaviorVector: behaviorVector as any,
+        behaviorScore: behavior.score,
+        semanticScore: semantic.score,
+        deviceTrustScore: device.score,
+        environmentScore: environment?.score ?? null,
         finalScore,
         success,
         flaggedSuspicious,
+        trajectoryFingerprint,
+        replayHits,
+        reasonCodes: [
+          ...riskSignalReasons(riskSignals),
+          ...behavior.reasons,
+          ...semantic.reasons,
+          ...device.reasons,
+          ...(environment?.reasons ?? []),
+        ],
         userAgent,
       });
 
       if (success) {
         // Generate verify token
-        const verifyToken = generateVerifyToken(
+        const verifyToken = await generateSecureVerifyToken(
           challengeId,
-          challenge.siteKey,
-          finalScore
+          site.key,
+          finalScore,
+          site.secretKey,
+          policy.tokenTtlSeconds,
+          claims
         );
 
         // Store verify token
@@ -300,7 +760,9 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
           siteKey: challenge.siteKey,
           score: finalScore,
           used: false,
-          expiresAt: new Date(Date.now() + 180000), // 180 seconds
+          action: claims.action,
+          cData: claims.cData,
+          expiresAt: new Date(Date.now() + policy.tokenTtlSeconds * 1000),
         });
 
         reply.send({
@@ -327,12 +789,20 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
   // POST /api/incaptcha/turnstile/verify - Simplified Turnstile-style verification with Ed25519 JWT
   fastify.post('/api/incaptcha/turnstile/verify', async (request, reply) => {
     try {
-      const { siteKey, behaviorVector: rawBehaviorVector } = request.body as any;
+      const { siteKey, preferredChallenge } = request.body as any;
       const ipAddress = getClientIp(request);
+      const widgetAction = parseWidgetAction(request.body);
+      if (!widgetAction.success) {
+        return reply.status(400).send({
+          success: false,
+          error: widgetAction.error,
+        });
+      }
 
       // Check rate limit
-      const rateLimit = await checkRateLimit(ipAddress, 'solve');
+      const rateLimit = await checkRateLimit(ipAddress, 'turnstile', siteKey);
       if (!rateLimit.allowed) {
+        reply.header('Retry-After', Math.ceil(rateLimit.retryAfterMs / 1000));
         return reply.status(429).send({
           success: false,
           error: 'Too many verification attempts. Please try again later.',
@@ -356,62 +826,71 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
         });
       }
 
-      // Handle missing behavior vector - provide realistic human-like default for third-party integrations
-      // This allows integrations without telemetry to still verify with device trust scoring
-      // Generate a realistic trajectory with randomized timing/positions to avoid anomaly detection
-      const now = Date.now();
-      const behaviorVector = rawBehaviorVector || {
-        mouseTrajectory: [
-          { t: now - 2150, x: 95, y: 148 },
-          { t: now - 1892, x: 118, y: 167 },
-          { t: now - 1583, x: 143, y: 182 },
-          { t: now - 1347, x: 177, y: 191 },
-          { t: now - 1128, x: 208, y: 197 },
-          { t: now - 934, x: 252, y: 201 },
-          { t: now - 741, x: 287, y: 206 },
-          { t: now - 568, x: 333, y: 209 },
-          { t: now - 382, x: 367, y: 216 },
-          { t: now - 217, x: 393, y: 221 },
-          { t: now - 94, x: 412, y: 224 }
-        ],
-        clickLatency: 1847,
-        hoverDuration: 623,
-        mouseVelocity: 267,
-        timestamp: now,
-        scrollBehavior: { scrollY: 112, scrollVelocity: 48 }
-      };
+      const hostname = getRequestHostname(request);
+      if (!isHostnameAllowed(site, hostname)) {
+        await recordHostnameRejection(site, hostname, ipAddress);
+        return reply.status(403).send({
+          success: false,
+          error: 'Hostname not allowed for this site key',
+        });
+      }
 
-      // Log when behavior data is missing for monitoring
-      if (!rawBehaviorVector) {
-        console.log(`Turnstile verify: No behavior data provided from ${ipAddress}. Using fallback scoring.`);
+      const telemetry = await readTelemetry(request.body, site.key);
+      if (!telemetry.success) {
+        await recordTelemetryRejection(site.key, telemetry.reason, ipAddress, 'turnstile_verify');
+        return reply.status(400).send({
+          success: false,
+          error: 'Invalid telemetry',
+        });
       }
+      const { behaviorVector, riskSignals } = telemetry;
+
+      // The attempt is recorded under this ID, so its fingerprint can match later replays
+      const attemptChallengeId = 'turnstile_' + nanoid();
+      const trajectoryFingerprint = computeTrajectoryFingerprint(behaviorVector?.mouseTrajectory);
+      const replayHits = await countTrajectoryReplays(trajectoryFingerprint, attemptChallengeId);
 
       // Multi-layered AI-powered bot detection (inspired by Cloudflare Bot Management)
-      const behaviorScore = calculateBehaviorScore(behaviorVector);
-      const deviceTrustScore = calculateDeviceTrustScore(request.headers['user-agent'] || '', ipAddress);
+      const userAgent = request.headers['user-agent'] || '';
+      const behavior = penalizeReplayedTrajectory(explainBehaviorScore(behaviorVector), replayHits);
+      const device = explainDeviceTrustScore(userAgent, ipAddress);
+      const environment = explainEnvironmentScore(telemetry.environment, userAgent);
       const aiDetection = comprehensiveAIDetection(behaviorVector);
+      const reasonCodes = [
+        ...riskSignalReasons(riskSignals),
+        ...aiDetection.reasons,
+        ...behavior.reasons,
+        ...device.reasons,
+        ...(environment?.reasons ?? []),
+      ];
 
       // Enhanced fusion for Turnstile-style verification
-      // Prioritize AI detection (40%), behavioral analysis (35%), device trust (25%)
-      // This multi-layered approach provides robust bot protection
-      const finalScore = Math.round(
-        aiDetection.score * 0.40 +
-        behaviorScore * 0.35 +
-        deviceTrustScore * 0.25
+      // Defaults prioritize AI detection (35%), behavioral analysis (30%), device trust (20%), environment (15%)
+      const policy = await getSitePolicy(site.key);
+      const fusedScore = fuseTurnstileScores(
+        aiDetection.score,
+        behavior.score,
+        device.score,
+        environment?.score ?? null,
+        policy.weights.turnstile
       );
+      // Without telemetry there is nothing to judge the visitor by, so the
+      // request fails outright instead of being offered a challenge
+      const finalScore = capUnsealedScore(fusedScore, riskSignals, policy.thresholds.escalate);
 
       // Log AI detection results for monitoring
-      console.log(`AI Detection: score=${aiDetection.score}, confidence=${aiDetection.confidence}, isBot=${aiDetection.isBot}`);
-
-      // Risk-based challenge escalation (ENHANCED SECURITY)
-      // Stricter thresholds based on Cloudflare Turnstile best practices
-      // Score 0-50: Definite bot - fail immediately
-      // Score 50-80: Suspicious - require interactive puzzle challenge
-      // Score 80-100: High confidence human - allow checkbox pass
-      const RISK_THRESHOLD_HIGH = 50; // Below this = fail (increased from 40)
-      const RISK_THRESHOLD_MEDIUM = 80; // Below this = require puzzle (increased from 60)
-
-      if (finalScore < RISK_THRESHOLD_HIGH) {
+      console.log(`AI Detection: score=${aiDetection.score}, confidence=${aiDetection.confidence}, isBot=${aiDetection.isBot}, signals=${riskSignals.join(',') || 'none'}`);
+
+      // Risk-based challenge escalation (thresholds from the site policy)
+      // Below escalate (default 50): Definite bot - fail immediately
+      // Escalate to pass (default 50-80): Suspicious - require interactive puzzle challenge
+      // At or above pass (default 80): High confidence human - allow checkbox pass
+      if (finalScore < policy.thresholds.escalate) {
+        await recordCheckboxAttempt(attemptChallengeId, site.key, ipAddress, userAgent, {
+          behaviorVector, behaviorScore: behavior.score, deviceTrustScore: device.score,
+          environmentScore: environment?.score ?? null, finalScore, success: false, reasonCodes,
+          trajectoryFingerprint, replayHits,
+        });
         return reply.send({
           success: false,
           message: 'Verification failed. Please try again.',
@@ -419,20 +898,70 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
         });
       }
 
-      if (finalScore < RISK_THRESHOLD_MEDIUM) {
-        // Escalate to jigsaw puzzle challenge
+      if (finalScore < policy.thresholds.pass) {
+        // Widgets ask for proof-of-work when the user can't do the puzzle (e.g. keyboard or
+        // screen-reader activation); otherwise prefer the jigsaw and fall back to proof-of-work
+        const jigsawAllowed = isChallengeAllowed(policy, 'jigsaw');
+        const powAllowed = isChallengeAllowed(policy, 'pow');
+        const usePow = powAllowed && (preferredChallenge === 'pow' || !jigsawAllowed);
+
+        // Sites that disable every challenge type cannot escalate
+        if (!jigsawAllowed && !powAllowed) {
+          return reply.send({
+            success: false,
+            message: 'Verification failed. Please try again.',
+            riskLevel: 'medium',
+          });
+        }
+
         const challengeId = nanoid();
         const expiresAt = new Date(Date.now() + 120000); // 2 minutes
 
+        if (usePow) {
+          // Harder puzzles for traffic the AI model is less sure about
+          const pow = generatePowChallenge(aiDetection.score);
+
+          const challenge = await storage.createChallenge({
+            id: challengeId,
+            siteKey: site.key,
+            mode: 'pow',
+            prompt: 'Verifying your browser',
+            images: [],
+            correctIndices: [],
+            isHoneytrap: false,
+            metadata: { pow, riskScore: finalScore, riskSignals, reasonCodes, hostname, ...widgetAction.data },
+            expiresAt,
+          });
+
+          const challengeToken = generateChallengeToken(challengeId, site.key);
+
+          return reply.send({
+            success: false,
+            requiresChallenge: true,
+            challengeType: 'pow',
+            challengeId: challenge.id,
+            challengeToken,
+            pow,
+            riskScore: finalScore,
+            message: 'Additional verification required',
+          });
+        }
+
+        // Escalate to jigsaw puzzle challenge
+
+        // Generate puzzle geometry server-side; the answer never leaves the server
+        const puzzle = generateJigsawPuzzle();
+
         // Create jigsaw puzzle challenge
         const challenge = await storage.createChallenge({
           id: challengeId,
           siteKey: site.key,
           mode: 'jigsaw',
           prompt: 'Complete the puzzle to verify',
-          images: [], // Puzzle image will be generated client-side
+          images: [], // The background is rendered server-side and sent in the puzzle data
           correctIndices: [],
           isHoneytrap: false,
+          metadata: { jigsaw: puzzle, riskSignals, reasonCodes, hostname, ...widgetAction.data },
           expiresAt,
         });
 
@@ -444,13 +973,14 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
           challengeType: 'jigsaw',
           challengeId: challenge.id,
           challengeToken,
+          puzzle: getJigsawRenderData(puzzle),
           riskScore: finalScore,
           message: 'Additional verification required',
         });
       }
 
       // Score is good enough for checkbox verification
-      const challengeId = 'turnstile_' + nanoid();
+      const challengeId = attemptChallengeId;
 
       // Generate secure Ed25519 JWT token
       const { generateSecureVerifyToken } = await import('./crypto');
@@ -458,7 +988,9 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
         challengeId,
         site.key,
         finalScore,
-        site.secretKey
+        site.secretKey,
+        policy.tokenTtlSeconds,
+        { hostname, ...widgetAction.data }
       );
 
       // Store verify token (one token per verification)
@@ -468,7 +1000,14 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
         siteKey: site.key,
         score: finalScore,
         used: false,
-        expiresAt: new Date(Date.now() + 120000), // 2 minutes (120 seconds)
+        ...widgetAction.data,
+        expiresAt: new Date(Date.now() + policy.tokenTtlSeconds * 1000),
+      });
+
+      await recordCheckboxAttempt(challengeId, site.key, ipAddress, userAgent, {
+        behaviorVector, behaviorScore: behavior.score, deviceTrustScore: device.score,
+        environmentScore: environment?.score ?? null, finalScore, success: true, reasonCodes,
+        trajectoryFingerprint, replayHits,
       });
 
       return reply.send({
@@ -488,16 +1027,57 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
   // POST /api/incaptcha/verify - Verify a token with Ed25519 JWT (server-side only, public key verification)
   fastify.post('/api/incaptcha/verify', async (request, reply) => {
     try {
-      const { verifyToken } = request.body as any;
+      const { verifyToken, apiKey, secretKey, remoteIp, expectedAction, includeReasons } = request.body as any;
       const ipAddress = getClientIp(request);
 
-      // Rate limit verification attempts (prevent brute force)
-      const rateLimit = await checkRateLimit(ipAddress, 'solve');
-      if (!rateLimit.allowed) {
-        return reply.status(429).send({
-          valid: false,
-          message: 'Too many verification attempts. Please try again later.',
-        });
+      // Browsers redeem tokens from the IP they solved on; authenticated backends
+      // call from their own IP, so they pass the visitor's as remoteIp, or skip IP binding
+      let clientIp: string | null = ipAddress;
+      let clientApiKey: string | undefined;
+      // API clients only redeem their own organization's tokens
+      let organizationId: string | null | undefined;
+      if (apiKey !== undefined) {
+        // Authenticated backends are metered by their client's hourly quota instead of per IP
+        const client = await authenticateApiClient(apiKey, secretKey);
+        if (!client) {
+          await storage.createAuditLog({
+            id: nanoid(),
+            action: 'verify_token',
+            ipAddress,
+            success: false,
+            errorMessage: 'Invalid API client credentials',
+          });
+          return reply.status(401).send({
+            valid: false,
+            reason: 'invalid_client',
+            message: 'Invalid API client credentials',
+          });
+        }
+
+        const quota = await consumeClientQuota(client);
+        applyQuotaHeaders(reply, quota);
+        if (!quota.allowed) {
+          return reply.status(429).send({
+            valid: false,
+            reason: 'rate_limited',
+            message: 'Hourly quota exceeded for this API client',
+          });
+        }
+
+        clientIp = typeof remoteIp === 'string' && remoteIp ? remoteIp : null;
+        clientApiKey = client.apiKey;
+        organizationId = client.organizationId ?? null;
+      } else {
+        // Rate limit verification attempts (prevent brute force)
+        const rateLimit = await checkRateLimit(ipAddress, 'verify');
+        if (!rateLimit.allowed) {
+          reply.header('Retry-After', Math.ceil(rateLimit.retryAfterMs / 1000));
+          return reply.status(429).send({
+            valid: false,
+            reason: 'rate_limited',
+            message: 'Too many verification attempts. Please try again later.',
+          });
+        }
       }
 
       if (!verifyToken) {
@@ -510,180 +1090,641 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
         });
         return reply.status(400).send({
           valid: false,
+          reason: 'missing_token',
           message: 'Verify token is required',
         });
       }
 
-      // CRITICAL: Check if token exists in database FIRST
-      // This prevents attackers from using forged/external tokens
-      const storedToken = await storage.getVerifyToken(verifyToken);
-      if (!storedToken) {
-        await storage.createAuditLog({
-          id: nanoid(),
-          action: 'verify_token',
-          ipAddress,
-          success: false,
-          errorMessage: 'Token not found in database - possible forgery attempt',
-        });
+      const redemption = await redeemVerifyToken(verifyToken, {
+        auditAction: 'verify_token',
+        ipAddress,
+        clientIp,
+        apiKey: clientApiKey,
+        organizationId,
+        expectedAction,
+      });
+      if (!redemption.valid) {
         return reply.status(403).send({
           valid: false,
-          message: 'Token not found or invalid',
+          reason: redemption.reason,
+          message: redemption.message,
+          ...(redemption.reason === 'action_mismatch' ? { action: redemption.payload?.action ?? null } : {}),
         });
       }
 
-      // Check if token has been used (REPLAY ATTACK PREVENTION)
-      if (storedToken.used) {
+      const { storedToken, payload: tokenPayload } = redemption;
+      reply.send({
+        valid: true,
+        siteKey: storedToken.siteKey,
+        score: storedToken.score,
+        challengeId: tokenPayload.challengeId,
+        hostname: tokenPayload.hostname ?? null,
+        action: tokenPayload.action ?? null,
+        cData: tokenPayload.cData ?? null,
+        timestamp: storedToken.createdAt,
+        verified: true,
+        ...(includeReasons === true ? { reasons: await getTokenReasonCodes(tokenPayload.challengeId) } : {}),
+      });
+    } catch (error) {
+      console.error('Error in /api/incaptcha/verify:', error);
+      const ipAddress = getClientIp(request);
+      await storage.createAuditLog({
+        id: nanoid(),
+        action: 'verify_token',
+        ipAddress,
+        success: false,
+        errorMessage: 'Server error during verification',
+      });
+      reply.status(500).send({
+        valid: false,
+        message: 'Failed to verify token',
+      });
+    }
+  });
+
+  // POST /siteverify - reCAPTCHA/hCaptcha/Turnstile-compatible token verification
+  fastify.post('/siteverify', async (request, reply) => {
+    try {
+      const { secret, response, remoteip, sitekey } = (request.body ?? {}) as Record<string, unknown>;
+      const ipAddress = getClientIp(request);
+
+      if (typeof secret !== 'string' || !secret) {
+        return reply.send(siteverifyFailure('missing-input-secret'));
+      }
+
+      const credentials = parseSiteverifySecret(secret);
+      const client = credentials && await authenticateApiClient(credentials.apiKey, credentials.secretKey);
+      if (!client) {
         await storage.createAuditLog({
           id: nanoid(),
-          siteKey: storedToken.siteKey,
-          action: 'verify_token',
+          action: 'siteverify',
           ipAddress,
           success: false,
-          errorMessage: 'Token already used - replay attack attempt',
+          errorMessage: 'Invalid API client credentials',
         });
+        return reply.send(siteverifyFailure('invalid-input-secret'));
+      }
+
+      const quota = await consumeClientQuota(client);
+      applyQuotaHeaders(reply, quota);
+      if (!quota.allowed) {
+        return reply.status(429).send(siteverifyFailure('rate-limited'));
+      }
+
+      if (typeof response !== 'string' || !response) {
+        return reply.send(siteverifyFailure('missing-input-response'));
+      }
+      if ((remoteip !== undefined && typeof remoteip !== 'string') ||
+          (sitekey !== undefined && typeof sitekey !== 'string')) {
+        return reply.send(siteverifyFailure('bad-request'));
+      }
+
+      const redemption = await redeemVerifyToken(response, {
+        auditAction: 'siteverify',
+        ipAddress,
+        // The backend calls on the visitor's behalf, so IP binding uses remoteip when given
+        clientIp: remoteip || null,
+        apiKey: client.apiKey,
+        siteKey: sitekey || undefined,
+        organizationId: client.organizationId ?? null,
+      });
+      if (!redemption.valid) {
+        return reply.send(siteverifyFailure(getRejectionErrorCode(redemption.reason)));
+      }
+
+      reply.send(siteverifySuccess(redemption.storedToken, redemption.payload));
+    } catch (error) {
+      console.error('Error in /siteverify:', error);
+      reply.status(500).send(siteverifyFailure('internal-error'));
+    }
+  });
+
+  // GET /api/auth/me - Current operator, or whether the first owner still needs to be created
+  fastify.get('/api/auth/me', async (request, reply) => {
+    try {
+      const operatorId = request.session.operatorId;
+      const operator = operatorId ? await storage.getOperator(operatorId) : undefined;
+
+      if (operator && operator.active) {
+        return reply.send(await getSessionState(request, operator));
+      }
+
+      const operators = await storage.getAllOperators();
+      reply.send({ operator: null, organization: null, organizations: [], setupRequired: operators.length === 0 });
+    } catch (error) {
+      console.error('Error in /api/auth/me:', error);
+      reply.status(500).send({
+        error: 'Failed to load session',
+      });
+    }
+  });
+
+  // POST /api/auth/setup - Create the first owner account and organization (only while no operators exist)
+  fastify.post('/api/auth/setup', async (request, reply) => {
+    try {
+      const { email, name, password, organizationName } = request.body as any;
+
+      const operators = await storage.getAllOperators();
+      if (operators.length > 0) {
         return reply.status(403).send({
-          valid: false,
-          message: 'Token has already been used',
+          error: 'Setup has already been completed',
         });
       }
 
-      // Check if token has expired (TIME-BASED SECURITY)
-      if (new Date(storedToken.expiresAt) < new Date()) {
-        await storage.createAuditLog({
-          id: nanoid(),
-          siteKey: storedToken.siteKey,
-          action: 'verify_token',
-          ipAddress,
-          success: false,
-          errorMessage: 'Token expired',
+      const validationError = validateOperatorInput({ email, name, password });
+      if (validationError) {
+        return reply.status(400).send({ error: validationError });
+      }
+
+      const operator = await storage.createOperator({
+        id: nanoid(),
+        email: email.trim().toLowerCase(),
+        name: name.trim(),
+        passwordHash: await hashPassword(password),
+        role: 'owner',
+        active: true,
+      });
+
+      // Site keys and clients created before organizations existed belong to the first one
+      const organization = await storage.createOrganization({
+        id: nanoid(),
+        name: typeof organizationName === 'string' && organizationName.trim() ? organizationName.trim().slice(0, 100) : 'Default',
+      });
+      await storage.createMembership({
+        id: nanoid(),
+        organizationId: organization.id,
+        operatorId: operator.id,
+        role: 'owner',
+      });
+      await storage.claimUnownedResources(organization.id);
+
+      await request.session.regenerate();
+      request.session.operatorId = operator.id;
+      request.session.organizationId = organization.id;
+      request.operator = operator;
+      await recordOperatorAction(request, 'operator_setup', { metadata: { email: operator.email } });
+
+      reply.send(await getSessionState(request, operator));
+    } catch (error) {
+      console.error('Error in /api/auth/setup:', error);
+      reply.status(500).send({
+        error: 'Failed to create owner account',
+      });
+    }
+  });
+
+  // POST /api/auth/login - Sign in with email and password
+  fastify.post('/api/auth/login', async (request, reply) => {
+    try {
+      const { email, password } = request.body as any;
+      const ipAddress = getClientIp(request);
+
+      const rateLimit = await checkRateLimit(ipAddress, 'login');
+      if (!rateLimit.allowed) {
+        reply.header('Retry-After', Math.ceil(rateLimit.retryAfterMs / 1000));
+        return reply.status(429).send({
+          error: 'Too many login attempts. Please try again later.',
         });
-        return reply.status(403).send({
-          valid: false,
-          message: 'Token has expired',
+      }
+
+      if (typeof email !== 'string' || typeof password !== 'string') {
+        return reply.status(400).send({
+          error: 'Email and password are required',
         });
       }
 
-      // Get site and retrieve public key for verification
-      const site = await storage.getSiteKey(storedToken.siteKey);
-      if (!site || !site.active) {
-        await storage.createAuditLog({
-          id: nanoid(),
-          siteKey: storedToken.siteKey,
-          action: 'verify_token',
-          ipAddress,
+      const operator = await storage.getOperatorByEmail(email.trim().toLowerCase());
+      const passwordValid = operator ? await verifyPassword(password, operator.passwordHash) : false;
+
+      if (!operator || !passwordValid || !operator.active) {
+        await recordOperatorAction(request, 'operator_login', {
           success: false,
-          errorMessage: 'Invalid site key',
+          errorMessage: operator && passwordValid ? 'Account disabled' : 'Invalid credentials',
+          metadata: { email },
         });
-        return reply.status(403).send({
-          valid: false,
-          message: 'Invalid site key',
+        return reply.status(401).send({
+          error: 'Invalid email or password',
         });
       }
 
-      // Ensure site has public key configured
-      if (!site.publicKey) {
-        return reply.status(500).send({
-          valid: false,
-          message: 'Site public key not configured',
+      await request.session.regenerate();
+      request.session.operatorId = operator.id;
+      request.operator = operator;
+      await storage.updateOperator(operator.id, { lastLoginAt: new Date() });
+
+      const state = await getSessionState(request, operator);
+      await recordOperatorAction(request, 'operator_login');
+
+      reply.send(state);
+    } catch (error) {
+      console.error('Error in /api/auth/login:', error);
+      reply.status(500).send({
+        error: 'Failed to sign in',
+      });
+    }
+  });
+
+  // POST /api/auth/logout - End the current session
+  fastify.post('/api/auth/logout', async (request, reply) => {
+    try {
+      if (request.session.operatorId) {
+        await recordOperatorAction(request, 'operator_logout');
+        await request.session.destroy();
+      }
+
+      reply.send({ success: true });
+    } catch (error) {
+      console.error('Error in /api/auth/logout:', error);
+      reply.status(500).send({
+        error: 'Failed to sign out',
+      });
+    }
+  });
+
+  // PUT /api/auth/organization - Switch the session's active organization
+  fastify.put('/api/auth/organization', { preHandler: requireOperatorRole('viewer') }, async (request, reply) => {
+    try {
+      const { organizationId } = request.body as any;
+      const operator = request.operator!;
+
+      const role = typeof organizationId === 'string'
+        ? await getOrganizationRole(operator, organizationId)
+        : undefined;
+      if (!role) {
+        return reply.status(404).send({
+          error: 'Organization not found',
         });
       }
 
-      // Verify Ed25519 JWT signature using public key (CRYPTOGRAPHIC VALIDATION)
-      const { verifySecureToken } = await import('./crypto');
-      const tokenPayload = await verifySecureToken(verifyToken, site.publicKey);
+      request.session.organizationId = organizationId;
+      reply.send(await getSessionState(request, operator));
+    } catch (error) {
+      console.error('Error in /api/auth/organization:', error);
+      reply.status(500).send({
+        error: 'Failed to switch organization',
+      });
+    }
+  });
 
-      if (!tokenPayload) {
-        await storage.createAuditLog({
-          id: nanoid(),
-          siteKey: storedToken.siteKey,
-          action: 'verify_token',
-          ipAddress,
-          success: false,
-          errorMessage: 'Invalid cryptographic signature - forgery attempt',
+  // POST /api/organizations - Create an organization and switch to it
+  fastify.post('/api/organizations', { preHandler: requireOperatorRole('owner') }, async (request, reply) => {
+    try {
+      const { name } = request.body as any;
+      const operator = request.operator!;
+
+      if (!name || typeof name !== 'string' || name.trim().length < 1 || name.length > 100) {
+        return reply.status(400).send({
+          error: 'Invalid name: must be between 1 and 100 characters',
         });
-        return reply.status(403).send({
-          valid: false,
-          message: 'Invalid token signature',
+      }
+
+      const organization = await storage.createOrganization({
+        id: nanoid(),
+        name: name.trim(),
+      });
+      await storage.createMembership({
+        id: nanoid(),
+        organizationId: organization.id,
+        operatorId: operator.id,
+        role: 'owner',
+      });
+
+      request.session.organizationId = organization.id;
+      request.organizationId = organization.id;
+      await recordOperatorAction(request, 'organization_create', { metadata: { name: organization.name } });
+
+      reply.send(await getSessionState(request, operator));
+    } catch (error) {
+      console.error('Error in /api/organizations:', error);
+      reply.status(500).send({
+        error: 'Failed to create organization',
+      });
+    }
+  });
+
+  // GET /api/organization/members - Members of the active organization
+  fastify.get('/api/organization/members', { preHandler: requireRole('admin') }, async (request, reply) => {
+    try {
+      const memberships = await storage.getMembershipsByOrganization(request.organizationId!);
+      const members = await Promise.all(memberships.map(async m => {
+        const operator = await storage.getOperator(m.operatorId);
+        return operator && {
+          id: m.id,
+          operatorId: operator.id,
+          email: operator.email,
+          name: operator.name,
+          role: m.role,
+          active: operator.active,
+          createdAt: m.createdAt,
+        };
+      }));
+
+      reply.send(members.filter(Boolean));
+    } catch (error) {
+      console.error('Error in /api/organization/members:', error);
+      reply.status(500).send({
+        error: 'Failed to fetch members',
+      });
+    }
+  });
+
+  // POST /api/organization/members - Add an existing operator to the active organization
+  fastify.post('/api/organization/members', { preHandler: requireRole('owner') }, async (request, reply) => {
+    try {
+      const { email, role } = request.body as any;
+      const organizationId = request.organizationId!;
+
+      if (!OPERATOR_ROLES.includes(role)) {
+        return reply.status(400).send({
+          error: 'Invalid role: must be owner, admin or viewer',
         });
       }
 
-      // Additional validation: Ensure token payload matches stored data
-      if (tokenPayload.challengeId !== storedToken.challengeId ||
-          tokenPayload.siteKey !== storedToken.siteKey) {
-        await storage.createAuditLog({
-          id: nanoid(),
-          siteKey: storedToken.siteKey,
-          action: 'verify_token',
-          ipAddress,
-          success: false,
-          errorMessage: 'Token payload mismatch - tampering detected',
+      const operator = typeof email === 'string'
+        ? await storage.getOperatorByEmail(email.trim().toLowerCase())
+        : undefined;
+      if (!operator) {
+        return reply.status(404).send({
+          error: 'No operator with this email',
         });
-        return reply.status(403).send({
-          valid: false,
-          message: 'Token data inconsistency detected',
+      }
+
+      if (await storage.getMembership(organizationId, operator.id)) {
+        return reply.status(409).send({
+          error: 'Operator is already a member',
+        });
+      }
+
+      const membership = await storage.createMembership({
+        id: nanoid(),
+        organizationId,
+        operatorId: operator.id,
+        role,
+      });
+
+      await recordOperatorAction(request, 'member_add', {
+        metadata: { membershipId: membership.id, targetOperatorId: operator.id, role },
+      });
+
+      reply.send({
+        id: membership.id,
+        operatorId: operator.id,
+        email: operator.email,
+        name: operator.name,
+        role: membership.role,
+        active: operator.active,
+        createdAt: membership.createdAt,
+      });
+    } catch (error) {
+      console.error('Error in /api/organization/members:', error);
+      reply.status(500).send({
+        error: 'Failed to add member',
+      });
+    }
+  });
+
+  // PATCH /api/organization/members/:id - Change a member's role
+  fastify.patch('/api/organization/members/:id', { preHandler: requireRole('owner') }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const { role } = request.body as any;
+      const organizationId = request.organizationId!;
+
+      if (!OPERATOR_ROLES.includes(role)) {
+        return reply.status(400).send({
+          error: 'Invalid role: must be owner, admin or viewer',
+        });
+      }
+
+      const memberships = await storage.getMembershipsByOrganization(organizationId);
+      const membership = memberships.find(m => m.id === id);
+      if (!membership) {
+        return reply.status(404).send({
+          error: 'Member not found',
+        });
+      }
+
+      if (membership.role === 'owner' && role !== 'owner' && memberships.filter(m => m.role === 'owner').length <= 1) {
+        return reply.status(400).send({
+          error: 'Cannot demote the last owner of an organization',
+        });
+      }
+
+      await storage.updateMembershipRole(id, role);
+      await recordOperatorAction(request, 'member_update', {
+        metadata: { membershipId: id, targetOperatorId: membership.operatorId, role },
+      });
+
+      reply.send({ ...membership, role });
+    } catch (error) {
+      console.error('Error in /api/organization/members/:id:', error);
+      reply.status(500).send({
+        error: 'Failed to update member',
+      });
+    }
+  });
+
+  // DELETE /api/organization/members/:id - Remove a member from the active organization
+  fastify.delete('/api/organization/members/:id', { preHandler: requireRole('owner') }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const organizationId = request.organizationId!;
+
+      const memberships = await storage.getMembershipsByOrganization(organizationId);
+      const membership = memberships.find(m => m.id === id);
+      if (!membership) {
+        return reply.status(404).send({
+          error: 'Member not found',
+        });
+      }
+
+      if (membership.role === 'owner' && memberships.filter(m => m.role === 'owner').length <= 1) {
+        return reply.status(400).send({
+          error: 'Cannot remove the last owner of an organization',
+        });
+      }
+
+      await storage.deleteMembership(id);
+      await recordOperatorAction(request, 'member_remove', {
+        metadata: { membershipId: id, targetOperatorId: membership.operatorId },
+      });
+
+      reply.send({ success: true });
+    } catch (error) {
+      console.error('Error in /api/organization/members/:id:', error);
+      reply.status(500).send({
+        error: 'Failed to remove member',
+      });
+    }
+  });
+
+  // GET /api/operators - List operator accounts
+  fastify.get('/api/operators', { preHandler: requireOperatorRole('owner') }, async (request, reply) => {
+    try {
+      const operators = await storage.getAllOperators();
+      reply.send(operators.map(toPublicOperator));
+    } catch (error) {
+      console.error('Error in /api/operators:', error);
+      reply.status(500).send({
+        error: 'Failed to fetch operators',
+      });
+    }
+  });
+
+  // POST /api/operators - Invite an operator with an initial password
+  fastify.post('/api/operators', { preHandler: requireOperatorRole('owner') }, async (request, reply) => {
+    try {
+      const { email, name, password, role } = request.body as any;
+
+      const validationError = validateOperatorInput({ email, name, password, role });
+      if (validationError) {
+        return reply.status(400).send({ error: validationError });
+      }
+
+      const normalizedEmail = email.trim().toLowerCase();
+      if (await storage.getOperatorByEmail(normalizedEmail)) {
+        return reply.status(409).send({
+          error: 'An operator with this email already exists',
+        });
+      }
+
+      const operator = await storage.createOperator({
+        id: nanoid(),
+        email: normalizedEmail,
+        name: name.trim(),
+        passwordHash: await hashPassword(password),
+        role,
+        active: true,
+      });
+
+      await recordOperatorAction(request, 'operator_create', {
+        metadata: { targetOperatorId: operator.id, email: operator.email, role },
+      });
+
+      reply.send(toPublicOperator(operator));
+    } catch (error) {
+      console.error('Error in /api/operators:', error);
+      reply.status(500).send({
+        error: 'Failed to create operator',
+      });
+    }
+  });
+
+  // PATCH /api/operators/:id - Change an operator's role or disable the account
+  fastify.patch('/api/operators/:id', { preHandler: requireOperatorRole('owner') }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const { role, active } = request.body as any;
+
+      const operator = await storage.getOperator(id);
+      if (!operator) {
+        return reply.status(404).send({
+          error: 'Operator not found',
+        });
+      }
+
+      if (role !== undefined && !OPERATOR_ROLES.includes(role)) {
+        return reply.status(400).send({
+          error: 'Invalid role: must be owner, admin or viewer',
+        });
+      }
+      if (active !== undefined && typeof active !== 'boolean') {
+        return reply.status(400).send({
+          error: 'Invalid active flag',
+        });
+      }
+
+      // Always keep at least one active owner
+      const losesOwner = operator.role === 'owner' && operator.active && ((role && role !== 'owner') || active === false);
+      if (losesOwner && await countActiveOwners() <= 1) {
+        return reply.status(400).send({
+          error: 'Cannot demote or disable the last owner',
+        });
+      }
+
+      const updates = {
+        ...(role !== undefined && { role }),
+        ...(active !== undefined && { active }),
+      };
+      await storage.updateOperator(id, updates);
+
+      await recordOperatorAction(request, 'operator_update', {
+        metadata: { targetOperatorId: id, ...updates },
+      });
+
+      reply.send(toPublicOperator({ ...operator, ...updates }));
+    } catch (error) {
+      console.error('Error in /api/operators/:id:', error);
+      reply.status(500).send({
+        error: 'Failed to update operator',
+      });
+    }
+  });
+
+  // DELETE /api/operators/:id - Remove an operator account
+  fastify.delete('/api/operators/:id', { preHandler: requireOperatorRole('owner') }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+
+      const operator = await storage.getOperator(id);
+      if (!operator) {
+        return reply.status(404).send({
+          error: 'Operator not found',
         });
       }
 
-      // IP ADDRESS BINDING: Verify token is used from same IP that generated it
-      if (storedToken.ipAddress && storedToken.ipAddress !== ipAddress) {
-        await storage.createAuditLog({
-          id: nanoid(),
-          siteKey: storedToken.siteKey,
-          action: 'verify_token',
-          ipAddress,
-          success: false,
-          errorMessage: `IP mismatch - token from ${storedToken.ipAddress}, request from ${ipAddress}`,
+      if (id === request.operator?.id) {
+        return reply.status(400).send({
+          error: 'Cannot delete your own account',
         });
-        return reply.status(403).send({
-          valid: false,
-          message: 'Token cannot be used from different IP address',
+      }
+
+      if (operator.role === 'owner' && operator.active && await countActiveOwners() <= 1) {
+        return reply.status(400).send({
+          error: 'Cannot delete the last owner',
         });
       }
 
-      // Mark token as used (SINGLE-USE ENFORCEMENT)
-      await storage.markTokenAsUsed(verifyToken);
+      await storage.deleteOperator(id);
+      await storage.deleteMembershipsByOperator(id);
+      await recordOperatorAction(request, 'operator_delete', {
+        metadata: { targetOperatorId: id, email: operator.email },
+      });
 
-      // Log successful verification
-      await storage.createAuditLog({
-        id: nanoid(),
-        siteKey: storedToken.siteKey,
-        action: 'verify_token',
-        ipAddress,
-        success: true,
-        metadata: { score: storedToken.score, challengeId: tokenPayload.challengeId } as any,
+      reply.send({ success: true });
+    } catch (error) {
+      console.error('Error in /api/operators/:id:', error);
+      reply.status(500).send({
+        error: 'Failed to delete operator',
       });
+    }
+  });
 
-      reply.send({
-        valid: true,
-        siteKey: storedToken.siteKey,
-        score: storedToken.score,
-        challengeId: tokenPayload.challengeId,
-        timestamp: storedToken.createdAt,
-        verified: true,
+  // GET /api/admin/audit-logs - Recent audit log entries
+  fastify.get('/api/admin/audit-logs', { preHandler: requireRole('admin') }, async (request, reply) => {
+    try {
+      const { limit } = request.query as any;
+      const siteKeys = await storage.getAllSiteKeys(request.organizationId);
+      const logs = await storage.getRecentAuditLogs(Math.min(Number(limit) || 100, 500), {
+        organizationId: request.organizationId!,
+        siteKeys: siteKeys.map(k => k.key),
       });
+      reply.send(logs);
     } catch (error) {
-      console.error('Error in /api/incaptcha/verify:', error);
-      const ipAddress = getClientIp(request);
-      await storage.createAuditLog({
-        id: nanoid(),
-        action: 'verify_token',
-        ipAddress,
-        success: false,
-        errorMessage: 'Server error during verification',
-      });
+      console.error('Error in /api/admin/audit-logs:', error);
       reply.status(500).send({
-        valid: false,
-        message: 'Failed to verify token',
+        error: 'Failed to fetch audit logs',
       });
     }
   });
 
   // GET /api/admin/stats - Get admin statistics
-  fastify.get('/api/admin/stats', async (request, reply) => {
+  fastify.get('/api/admin/stats', { preHandler: requireRole('viewer') }, async (request, reply) => {
     try {
-      const recentAttempts = await storage.getRecentAttempts(20);
-      const allAttempts = await storage.getRecentAttempts(1000);
-      const allChallenges = await storage.getRecentAttempts(1000); // Proxy for challenges
+      const siteKeys = (await storage.getAllSiteKeys(request.organizationId)).map(k => k.key);
+      const recentAttempts = await storage.getRecentAttempts(20, siteKeys);
+      const allAttempts = await storage.getRecentAttempts(1000, siteKeys);
+      const allChallenges = await storage.getRecentAttempts(1000, siteKeys); // Proxy for challenges
 
       const totalAttempts = allAttempts.length;
       const successfulVerifications = allAttempts.filter(a => a.success).length;
@@ -707,6 +1748,16 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
           score: a.finalScore || 0,
           createdAt: a.createdAt,
           flaggedSuspicious: a.flaggedSuspicious,
+          challengeId: a.challengeId,
+          siteKey: a.siteKey,
+          behaviorScore: a.behaviorScore,
+          semanticScore: a.semanticScore,
+          deviceTrustScore: a.deviceTrustScore,
+          environmentScore: a.environmentScore,
+          replayHits: a.replayHits,
+          reasonCodes: a.reasonCodes ?? [],
+          reviewLabel: a.reviewLabel,
+          tokenOutcome: a.tokenOutcome,
         })),
       });
     } catch (error) {
@@ -717,10 +1768,52 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
     }
   });
 
+  // PUT /api/admin/attempts/:id/review - Label an attempt for bot classifier training
+  fastify.put('/api/admin/attempts/:id/review', { preHandler: requireRole('admin') }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+
+      const attempt = await storage.getVerificationAttempt(id);
+      if (!attempt || !attempt.siteKey || !(await getOrganizationSiteKey(request, attempt.siteKey))) {
+        return reply.status(404).send({
+          error: 'Attempt not found',
+        });
+      }
+
+      const parsed = attemptReviewSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({
+          error: 'Invalid review',
+          details: parsed.error.issues.map(issue => ({
+            path: issue.path.join('.'),
+            message: issue.message,
+          })),
+        });
+      }
+
+      await storage.updateAttemptReview(id, parsed.data.label);
+
+      await recordOperatorAction(request, 'attempt_review', {
+        siteKey: attempt.siteKey,
+        metadata: { attemptId: id, label: parsed.data.label },
+      });
+
+      reply.send({
+        id,
+        reviewLabel: parsed.data.label,
+      });
+    } catch (error) {
+      console.error('Error in /api/admin/attempts/:id/review:', error);
+      reply.status(500).send({
+        error: 'Failed to review attempt',
+      });
+    }
+  });
+
   // GET /api/keys - Get all API keys
-  fastify.get('/api/keys', async (request, reply) => {
+  fastify.get('/api/keys', { preHandler: requireRole('viewer') }, async (request, reply) => {
     try {
-      const keys = await storage.getAllSiteKeys();
+      const keys = await storage.getAllSiteKeys(request.organizationId);
 
       // Return keys with id mapped to key field
       reply.send(keys.map(k => ({
@@ -728,6 +1821,7 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
         name: k.name,
         key: k.key,
         publicKey: k.publicKey,
+        allowedHostnames: k.allowedHostnames ?? [],
         active: k.active,
         createdAt: k.createdAt,
       })));
@@ -740,7 +1834,7 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
   });
 
   // POST /api/keys/create - Create new API key
-  fastify.post('/api/keys/create', async (request, reply) => {
+  fastify.post('/api/keys/create', { preHandler: requireRole('admin') }, async (request, reply) => {
     try {
       const { name } = request.body as any;
 
@@ -763,7 +1857,10 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
         publicKey,
         name,
         active: true,
+        organizationId: request.organizationId,
       });
+      await recordActiveVersion(siteKey);
+      await recordOperatorAction(request, 'site_key_create', { siteKey: siteKey.key, metadata: { name } });
 
       // IMPORTANT: Return the secretKey only once on creation
       // The secretKey should be saved by the client immediately
@@ -773,6 +1870,7 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
         key: siteKey.key,
         publicKey: siteKey.publicKey,
         secretKey: siteKey.secretKey, // Only returned once!
+        allowedHostnames: siteKey.allowedHostnames ?? [],
         active: siteKey.active,
         createdAt: siteKey.createdAt,
       });
@@ -785,7 +1883,7 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
   });
 
   // DELETE /api/keys/:id - Delete API key
-  fastify.delete('/api/keys/:id', async (request, reply) => {
+  fastify.delete('/api/keys/:id', { preHandler: requireRole('admin') }, async (request, reply) => {
     try {
       const { id } = request.params as any;
 
@@ -796,7 +1894,7 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
       }
 
       // Check if key exists
-      const existingKey = await storage.getSiteKey(id);
+      const existingKey = await getOrganizationSiteKey(request, id);
       if (!existingKey) {
         return reply.status(404).send({
           error: 'API key not found',
@@ -811,6 +1909,9 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
       }
 
       await storage.deleteSiteKey(id);
+      await storage.deleteSitePolicy(id);
+      await storage.deleteSiteKeyVersions(id);
+      await recordOperatorAction(request, 'site_key_delete', { siteKey: id });
 
       reply.send({ success: true });
     } catch (error) {
@@ -821,16 +1922,225 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
     }
   });
 
+  // POST /api/keys/:id/rotate - Replace the signing key pair, keeping the old public key valid for a grace period
+  fastify.post('/api/keys/:id/rotate', { preHandler: requireRole('admin') }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+      const { gracePeriodSeconds = DEFAULT_ROTATION_GRACE_SECONDS } = (request.body as any) || {};
+
+      if (!Number.isInteger(gracePeriodSeconds) || gracePeriodSeconds < 0 || gracePeriodSeconds > MAX_ROTATION_GRACE_SECONDS) {
+        return reply.status(400).send({
+          error: `Invalid gracePeriodSeconds: must be an integer between 0 and ${MAX_ROTATION_GRACE_SECONDS}`,
+        });
+      }
+
+      const existingKey = await getOrganizationSiteKey(request, id);
+      if (!existingKey) {
+        return reply.status(404).send({
+          error: 'API key not found',
+        });
+      }
+
+      const { active, retired } = await rotateSiteKey(existingKey, gracePeriodSeconds);
+
+      await recordOperatorAction(request, 'site_key_rotate', {
+        siteKey: id,
+        metadata: { kid: active.kid, version: active.version, retiredKid: retired?.kid, gracePeriodSeconds },
+      });
+
+      reply.send({
+        id,
+        publicKey: active.publicKey,
+        kid: active.kid,
+        version: active.version,
+        previousKid: retired?.kid ?? null,
+        previousValidUntil: retired?.validUntil ?? null,
+      });
+    } catch (error) {
+      console.error('Error in /api/keys/:id/rotate:', error);
+      reply.status(500).send({
+        error: 'Failed to rotate API key',
+      });
+    }
+  });
+
+  // GET /api/keys/:id/versions - Rotation history for a site key
+  fastify.get('/api/keys/:id/versions', { preHandler: requireRole('viewer') }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+
+      const existingKey = await getOrganizationSiteKey(request, id);
+      if (!existingKey) {
+        return reply.status(404).send({
+          error: 'API key not found',
+        });
+      }
+
+      const now = new Date();
+      const versions = await storage.getSiteKeyVersions(id);
+
+      reply.send(versions.map(v => ({
+        id: v.id,
+        version: v.version,
+        kid: v.kid,
+        status: v.status,
+        verifying: isVersionVerifying(v, now),
+        createdAt: v.createdAt,
+        retiredAt: v.retiredAt,
+        validUntil: v.validUntil,
+      })));
+    } catch (error) {
+      console.error('Error in /api/keys/:id/versions:', error);
+      reply.status(500).send({
+        error: 'Failed to fetch key versions',
+      });
+    }
+  });
+
+  // PUT /api/keys/:id/hostnames - Replace the hostname allowlist for a site key
+  fastify.put('/api/keys/:id/hostnames', { preHandler: requireRole('admin') }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+
+      const existingKey = await getOrganizationSiteKey(request, id);
+      if (!existingKey) {
+        return reply.status(404).send({
+          error: 'API key not found',
+        });
+      }
+
+      const parsed = allowedHostnamesSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({
+          error: 'Invalid hostnames',
+          details: parsed.error.issues.map(issue => ({
+            path: issue.path.join('.'),
+            message: issue.message,
+          })),
+        });
+      }
+
+      await storage.updateSiteKeyHostnames(id, parsed.data);
+
+      await recordOperatorAction(request, 'site_key_hostnames_update', {
+        siteKey: id,
+        metadata: { allowedHostnames: parsed.data },
+      });
+
+      reply.send({
+        id,
+        allowedHostnames: parsed.data,
+      });
+    } catch (error) {
+      console.error('Error in /api/keys/:id/hostnames:', error);
+      reply.status(500).send({
+        error: 'Failed to update allowed hostnames',
+      });
+    }
+  });
+
+  // GET /api/keys/:id/policy - Get the scoring policy for a site key
+  fastify.get('/api/keys/:id/policy', { preHandler: requireRole('viewer') }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+
+      const existingKey = await getOrganizationSiteKey(request, id);
+      if (!existingKey) {
+        return reply.status(404).send({
+          error: 'API key not found',
+        });
+      }
+
+      reply.send(await getSitePolicy(id));
+    } catch (error) {
+      console.error('Error in /api/keys/:id/policy:', error);
+      reply.status(500).send({
+        error: 'Failed to fetch site policy',
+      });
+    }
+  });
+
+  // PUT /api/keys/:id/policy - Replace the scoring policy for a site key
+  fastify.put('/api/keys/:id/policy', { preHandler: requireRole('admin') }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+
+      const existingKey = await getOrganizationSiteKey(request, id);
+      if (!existingKey) {
+        return reply.status(404).send({
+          error: 'API key not found',
+        });
+      }
+
+      const parsed = sitePolicyUpdateSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({
+          error: 'Invalid policy',
+          details: parsed.error.issues.map(issue => ({
+            path: issue.path.join('.'),
+            message: issue.message,
+          })),
+        });
+      }
+
+      await storage.upsertSitePolicy({
+        siteKey: id,
+        ...parsed.data,
+      });
+
+      await recordOperatorAction(request, 'site_policy_update', { siteKey: id });
+
+      reply.send(await getSitePolicy(id));
+    } catch (error) {
+      console.error('Error in /api/keys/:id/policy:', error);
+      reply.status(500).send({
+        error: 'Failed to update site policy',
+      });
+    }
+  });
+
+  // DELETE /api/keys/:id/policy - Reset a site key to the default policy
+  fastify.delete('/api/keys/:id/policy', { preHandler: requireRole('admin') }, async (request, reply) => {
+    try {
+      const { id } = request.params as any;
+
+      const existingKey = await getOrganizationSiteKey(request, id);
+      if (!existingKey) {
+        return reply.status(404).send({
+          error: 'API key not found',
+        });
+      }
+
+      await storage.deleteSitePolicy(id);
+
+      await recordOperatorAction(request, 'site_policy_reset', { siteKey: id });
+
+      reply.send(await getSitePolicy(id));
+    } catch (error) {
+      console.error('Error in /api/keys/:id/policy:', error);
+      reply.status(500).send({
+        error: 'Failed to reset site policy',
+      });
+    }
+  });
+
   // POST /api/captcha/checkbox/init - Initialize a checkbox challenge session
   fastify.post('/api/captcha/checkbox/init', async (request, reply) => {
     try {
-      const { siteKey } = request.body as any;
+      const { siteKey, telemetryKey: clientTelemetryKey } = request.body as any;
       const ipAddress = getClientIp(request);
       const userAgent = request.headers['user-agent'] || '';
+      const widgetAction = parseWidgetAction(request.body);
+      if (!widgetAction.success) {
+        return reply.status(400).send({
+          error: widgetAction.error,
+        });
+      }
 
       // Check rate limit
-      const rateLimit = await checkRateLimit(ipAddress, 'start');
+      const rateLimit = await checkRateLimit(ipAddress, 'start', siteKey);
       if (!rateLimit.allowed) {
+        reply.header('Retry-After', Math.ceil(rateLimit.retryAfterMs / 1000));
         return reply.status(429).send({
           error: 'Rate limit exceeded. Please try again later.',
         });
@@ -858,11 +2168,32 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
         });
       }
 
+      const hostname = getRequestHostname(request);
+      if (!isHostnameAllowed(site, hostname)) {
+        await recordHostnameRejection(site, hostname, ipAddress);
+        return reply.status(403).send({
+          error: 'Hostname not allowed for this site key',
+        });
+      }
+
       // Generate nonce for session
       const nonce = nanoid(32);
       const sessionId = nanoid();
       const expiresAt = new Date(Date.now() + 300000); // 5 minutes
 
+      // Widgets that seal their telemetry send an ECDH public key; the derived key is bound to the nonce
+      let telemetryExchange: ReturnType<typeof negotiateTelemetryKey> = null;
+      if (clientTelemetryKey !== undefined) {
+        telemetryExchange = typeof clientTelemetryKey === 'string'
+          ? negotiateTelemetryKey(clientTelemetryKey, nonce)
+          : null;
+        if (!telemetryExchange) {
+          return reply.status(400).send({
+            error: 'Invalid telemetry key',
+          });
+        }
+      }
+
       // Create widget session
       const session = await storage.createWidgetSession({
         id: sessionId,
@@ -870,6 +2201,8 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
         nonce,
         ipAddress,
         userAgent,
+        telemetryKey: telemetryExchange?.key,
+        metadata: { hostname, ...widgetAction.data } as any,
         expiresAt,
       });
 
@@ -885,6 +2218,7 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
         sessionId: session.id,
         nonce: session.nonce,
         expiresAt: session.expiresAt,
+        telemetryKey: telemetryExchange?.serverPublicKey,
       });
     } catch (error) {
       console.error('Error in /api/captcha/checkbox/init:', error);
@@ -897,19 +2231,10 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
   // POST /api/captcha/checkbox/verify - Verify checkbox interaction
   fastify.post('/api/captcha/checkbox/verify', async (request, reply) => {
     try {
-      const { nonce, behaviorVector } = request.body as any;
+      const { nonce } = request.body as any;
       const ipAddress = getClientIp(request);
       const userAgent = request.headers['user-agent'] || '';
 
-      // Check rate limit
-      const rateLimit = await checkRateLimit(ipAddress, 'solve');
-      if (!rateLimit.allowed) {
-        return reply.status(429).send({
-          success: false,
-          error: 'Too many verification attempts. Please wait before trying again.',
-        });
-      }
-
       if (!nonce) {
         return reply.status(400).send({
           success: false,
@@ -919,6 +2244,17 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
 
       // Get session by nonce
       const session = await storage.getWidgetSessionByNonce(nonce);
+
+      // Check rate limit (the session's site key selects the site's rate limit)
+      const rateLimit = await checkRateLimit(ipAddress, 'solve', session?.siteKey);
+      if (!rateLimit.allowed) {
+        reply.header('Retry-After', Math.ceil(rateLimit.retryAfterMs / 1000));
+        return reply.status(429).send({
+          success: false,
+          error: 'Too many verification attempts. Please wait before trying again.',
+        });
+      }
+
       if (!session) {
         await storage.createAuditLog({
           id: nanoid(),
@@ -983,13 +2319,51 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
         });
       }
 
+      // Telemetry must be sealed with this session's own key
+      const telemetry = await readTelemetry(request.body, site.key);
+      if (!telemetry.success || (telemetry.session && telemetry.session.id !== session.id)) {
+        await recordTelemetryRejection(site.key, telemetry.success ? 'session_mismatch' : telemetry.reason, ipAddress, 'checkbox_verify');
+        return reply.status(400).send({
+          success: false,
+          error: 'Invalid telemetry',
+        });
+      }
+      const { riskSignals } = telemetry;
+
+      // The attempt is recorded under this ID, so its fingerprint can match later replays
+      const attemptChallengeId = 'checkbox_' + nanoid();
+      const trajectoryFingerprint = computeTrajectoryFingerprint(telemetry.behaviorVector?.mouseTrajectory);
+      const replayHits = await countTrajectoryReplays(trajectoryFingerprint, attemptChallengeId);
+
       // Calculate behavior score with server-side validation
-      const behaviorScore = calculateBehaviorScore(behaviorVector);
-      const deviceTrustScore = calculateDeviceTrustScore(userAgent, ipAddress);
-      const finalScore = Math.round((behaviorScore * 0.6) + (deviceTrustScore * 0.4));
+      const behavior = penalizeReplayedTrajectory(explainBehaviorScore(telemetry.behaviorVector), replayHits);
+      const device = explainDeviceTrustScore(userAgent, ipAddress);
+      const environment = explainEnvironmentScore(telemetry.environment, userAgent);
+      const policy = await getSitePolicy(site.key);
+      const finalScore = capUnsealedScore(
+        fuseCheckboxScores(behavior.score, device.score, environment?.score ?? null, policy.weights.checkbox),
+        riskSignals,
+        policy.thresholds.checkbox
+      );
+      const attempt = {
+        behaviorVector: telemetry.behaviorVector,
+        behaviorScore: behavior.score,
+        deviceTrustScore: device.score,
+        environmentScore: environment?.score ?? null,
+        finalScore,
+        reasonCodes: [
+          ...riskSignalReasons(riskSignals),
+          ...behavior.reasons,
+          ...device.reasons,
+          ...(environment?.reasons ?? []),
+        ],
+        trajectoryFingerprint,
+        replayHits,
+      };
 
       // Require minimum score threshold
-      if (finalScore < 60) {
+      if (finalScore < policy.thresholds.checkbox) {
+        await recordCheckboxAttempt(attemptChallengeId, site.key, ipAddress, userAgent, { ...attempt, success: false });
         await storage.createAuditLog({
           id: nanoid(),
           siteKey: session.siteKey,
@@ -997,7 +2371,7 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
           ipAddress,
           success: false,
           errorMessage: 'Score too low',
-          metadata: { score: finalScore } as any,
+          metadata: { score: finalScore, riskSignals } as any,
         });
         return reply.status(400).send({
           success: false,
@@ -1007,12 +2381,15 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
 
       // Generate verify token
       const { generateSecureVerifyToken } = await import('./crypto');
-      const challengeId = 'checkbox_' + nanoid();
+      const challengeId = attemptChallengeId;
+      const claims = getTokenClaims(session.metadata);
       const verifyToken = await generateSecureVerifyToken(
         challengeId,
         site.key,
         finalScore,
-        site.secretKey
+        site.secretKey,
+        policy.tokenTtlSeconds,
+        claims
       );
 
       // Store verify token with IP binding
@@ -1022,7 +2399,9 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
         siteKey: site.key,
         score: finalScore,
         used: false,
-        expiresAt: new Date(Date.now() + 120000), // 2 minutes
+        action: claims.action,
+        cData: claims.cData,
+        expiresAt: new Date(Date.now() + policy.tokenTtlSeconds * 1000),
         ipAddress, // Bind token to IP address
       });
 
@@ -1032,6 +2411,7 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
         verifyToken,
         challengeId,
       });
+      await recordCheckboxAttempt(challengeId, site.key, ipAddress, userAgent, { ...attempt, success: true });
 
       await storage.createAuditLog({
         id: nanoid(),
@@ -1039,7 +2419,7 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
         action: 'checkbox_verify',
         ipAddress,
         success: true,
-        metadata: { score: finalScore } as any,
+        metadata: { score: finalScore, riskSignals } as any,
       });
 
       reply.send({
@@ -1068,27 +2448,11 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
         });
       }
 
-      // Authenticate request (API key or secret key)
-      let authenticated = false;
-      let clientApiKey: string | undefined;
-
-      if (apiKey && secretKey) {
-        const client = await storage.getApiClient(apiKey);
-        if (client && client.active) {
-          const bcrypt = await import('bcryptjs');
-          const valid = await bcrypt.compare(secretKey, client.secretKeyHash);
-          if (valid) {
-            authenticated = true;
-            clientApiKey = apiKey;
-            await storage.updateApiClientLastUsed(apiKey);
-          }
-        }
-      }
-
-      if (!authenticated) {
+      // Authenticate request (API key and secret key)
+      const client = await authenticateApiClient(apiKey, secretKey);
+      if (!client) {
         await storage.createAuditLog({
           id: nanoid(),
-          apiKey: clientApiKey,
           action: 'token_introspect',
           ipAddress: getClientIp(request),
           success: false,
@@ -1099,42 +2463,32 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
           error: 'Unauthorized',
         });
       }
+      const clientApiKey = client.apiKey;
 
-      // Get token from storage
-      const storedToken = await storage.getVerifyToken(token);
-      if (!storedToken) {
-        await storage.createAuditLog({
-          id: nanoid(),
-          apiKey: clientApiKey,
-          action: 'token_introspect',
-          ipAddress: getClientIp(request),
-          success: false,
-          errorMessage: 'Token not found',
-        });
-        return reply.send({
-          valid: false,
-          error: 'Token not found',
-        });
-      }
-
-      // Verify token signature
-      const site = await storage.getSiteKey(storedToken.siteKey);
-      if (!site || !site.publicKey) {
-        return reply.send({
+      // Hourly quota for this client
+      const quota = await consumeClientQuota(client);
+      applyQuotaHeaders(reply, quota);
+      if (!quota.allowed) {
+        return reply.status(429).send({
           valid: false,
-          error: 'Site key not found',
+          error: 'Hourly quota exceeded for this API client',
         });
       }
 
-      const { verifySecureToken } = await import('./crypto');
-      const tokenPayload = await verifySecureToken(token, site.publicKey);
-
-      if (!tokenPayload) {
+      // Only the client's own organization's tokens can be looked up
+      const inspection = await inspectVerifyToken(token, {
+        auditAction: 'token_introspect',
+        ipAddress: getClientIp(request),
+        apiKey: clientApiKey,
+        organizationId: client.organizationId ?? null,
+      });
+      if (!inspection.valid) {
         return reply.send({
           valid: false,
-          error: 'Invalid token signature',
+          error: inspection.message,
         });
       }
+      const { storedToken, payload: tokenPayload } = inspection;
 
       // Check if used or expired
       const isUsed = storedToken.used;
@@ -1155,6 +2509,9 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
           challengeId: tokenPayload.challengeId,
           siteKey: storedToken.siteKey,
           score: storedToken.score,
+          hostname: tokenPayload.hostname ?? null,
+          action: tokenPayload.action ?? null,
+          cData: tokenPayload.cData ?? null,
           used: isUsed,
           expired: isExpired,
           createdAt: storedToken.createdAt,
@@ -1171,19 +2528,27 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
   });
 
   // GET /api/clients - Get all API clients
-  fastify.get('/api/clients', async (request, reply) => {
+  fastify.get('/api/clients', { preHandler: requireRole('viewer') }, async (request, reply) => {
     try {
-      const clients = await storage.getAllApiClients();
-
-      reply.send(clients.map(c => ({
-        id: c.id,
-        apiKey: c.apiKey,
-        name: c.name,
-        domain: c.domain,
-        rateLimitPerHour: c.rateLimitPerHour,
-        active: c.active,
-        createdAt: c.createdAt,
-        lastUsedAt: c.lastUsedAt,
+      const clients = await storage.getAllApiClients(request.organizationId);
+
+      reply.send(await Promise.all(clients.map(async c => {
+        const quota = await getClientQuotaStatus(c);
+        return {
+          id: c.id,
+          apiKey: c.apiKey,
+          name: c.name,
+          domain: c.domain,
+          rateLimitPerHour: c.rateLimitPerHour,
+          usage: {
+            used: quota.used,
+            remaining: quota.remaining,
+            resetAt: quota.resetAt,
+          },
+          active: c.active,
+          createdAt: c.createdAt,
+          lastUsedAt: c.lastUsedAt,
+        };
       })));
     } catch (error) {
       console.error('Error in /api/clients:', error);
@@ -1194,7 +2559,7 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
   });
 
   // POST /api/clients - Create a new API client
-  fastify.post('/api/clients', async (request, reply) => {
+  fastify.post('/api/clients', { preHandler: requireRole('admin') }, async (request, reply) => {
     try {
       const { name, domain, rateLimitPerHour } = request.body as any;
 
@@ -1204,6 +2569,13 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
         });
       }
 
+      if (rateLimitPerHour !== undefined &&
+          (!Number.isInteger(rateLimitPerHour) || rateLimitPerHour < 1 || rateLimitPerHour > MAX_CLIENT_QUOTA_PER_HOUR)) {
+        return reply.status(400).send({
+          error: `Invalid rateLimitPerHour: must be an integer between 1 and ${MAX_CLIENT_QUOTA_PER_HOUR}`,
+        });
+      }
+
       const bcrypt = await import('bcryptjs');
 
       // Generate API key and secret
@@ -1217,15 +2589,18 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
         secretKeyHash,
         name,
         domain: domain || null,
-        rateLimitPerHour: rateLimitPerHour || 1000,
+        rateLimitPerHour: rateLimitPerHour ?? 1000,
         active: true,
+        organizationId: request.organizationId,
       });
+      await recordOperatorAction(request, 'api_client_create', { metadata: { clientId: client.id, name } });
 
       // Return secret key only once
       reply.send({
         id: client.id,
         apiKey: client.apiKey,
         secretKey, // Only returned once!
+        siteverifySecret: `${client.apiKey}.${secretKey}`,
         name: client.name,
         domain: client.domain,
         rateLimitPerHour: client.rateLimitPerHour,
@@ -1241,7 +2616,7 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
   });
 
   // DELETE /api/clients/:id - Delete an API client
-  fastify.delete('/api/clients/:id', async (request, reply) => {
+  fastify.delete('/api/clients/:id', { preHandler: requireRole('admin') }, async (request, reply) => {
     try {
       const { id } = request.params as any;
 
@@ -1251,7 +2626,16 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
         });
       }
 
+      const client = await storage.getApiClientById(id);
+      if (!client || client.organizationId !== request.organizationId) {
+        return reply.status(404).send({
+          error: 'API client not found',
+        });
+      }
+
       await storage.deleteApiClient(id);
+      await storage.deleteApiClientUsage(id);
+      await recordOperatorAction(request, 'api_client_delete', { metadata: { clientId: id } });
 
       reply.send({ success: true });
     } catch (error) {
@@ -1268,6 +2652,7 @@ export async function registerRoutes(fastify: FastifyInstance): Promise<void> {
       await storage.deleteExpiredChallenges();
       await storage.deleteExpiredTokens();
       await storage.deleteExpiredWidgetSessions();
+      await cleanupExpiredQuotaUsage();
     } catch (error) {
       console.error('Error cleaning up expired data:', error);
     }
@@ -1,9 +1,10 @@
-import { db } from './db';
-import { siteKeys } from '@shared/schema';
+import { getDatabase } from './db';
 import { generateEd25519KeyPair } from './crypto';
 import { eq } from 'drizzle-orm';
 
 async function seedKeys() {
+  const { db, tables: { siteKeys } } = getDatabase();
+
   console.log('Generating Ed25519 key pair for demo site...');
   
   const { publicKey, secretKey } = await generateEd25519KeyPair();
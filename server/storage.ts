@@ -1,13 +1,4 @@
 import {
-  challenges,
-  verificationAttempts,
-  verifyTokens,
-  assets,
-  rateLimits,
-  siteKeys,
-  apiClients,
-  widgetSessions,
-  auditLogs,
   type Challenge,
   type InsertChallenge,
   type VerificationAttempt,
@@ -17,18 +8,33 @@ import {
   type Asset,
   type InsertAsset,
   type RateLimit,
-  type InsertRateLimit,
   type SiteKey,
   type InsertSiteKey,
   type ApiClient,
   type InsertApiClient,
+  type ApiClientUsage,
   type WidgetSession,
   type InsertWidgetSession,
   type AuditLog,
   type InsertAuditLog,
+  type SitePolicy,
+  type InsertSitePolicy,
+  type SiteKeyVersion,
+  type InsertSiteKeyVersion,
+  type Operator,
+  type InsertOperator,
+  type Organization,
+  type InsertOrganization,
+  type OrganizationMembership,
+  type InsertOrganizationMembership,
+  type OperatorRole,
+  type ReasonCode,
+  type AttemptLabel,
+  type TokenOutcome,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, gte, lte, desc } from "drizzle-orm";
+import { getDatabase } from "./db";
+import { eq, and, or, gte, lt, lte, desc, inArray, isNull, sql } from "drizzle-orm";
+import { nanoid } from "nanoid";
 
 export interface IStorage {
   // Challenges
@@ -39,12 +45,16 @@ export interface IStorage {
   // Verification Attempts
   createVerificationAttempt(attempt: InsertVerificationAttempt): Promise<VerificationAttempt>;
   getAttemptsByChallenge(challengeId: string): Promise<VerificationAttempt[]>;
-  getRecentAttempts(limit: number): Promise<VerificationAttempt[]>;
+  getRecentAttempts(limit: number, siteKeys?: string[]): Promise<VerificationAttempt[]>;
+  getAttemptsByTrajectoryBands(bands: string[], since: Date): Promise<VerificationAttempt[]>;
+  getVerificationAttempt(id: string): Promise<VerificationAttempt | undefined>;
+  updateAttemptReview(id: string, label: AttemptLabel | null): Promise<void>;
+  setAttemptTokenOutcome(challengeId: string, outcome: TokenOutcome): Promise<void>;
 
   // Verify Tokens
   createVerifyToken(token: InsertVerifyToken): Promise<VerifyToken>;
   getVerifyToken(token: string): Promise<VerifyToken | undefined>;
-  markTokenAsUsed(token: string): Promise<void>;
+  markTokenAsUsed(token: string): Promise<boolean>;
   deleteExpiredTokens(): Promise<void>;
 
   // Assets
@@ -53,307 +63,1280 @@ export interface IStorage {
   getAllAssets(): Promise<Asset[]>;
 
   // Rate Limits
-  getRateLimit(ipAddress: string, action: string): Promise<RateLimit | undefined>;
-  createOrUpdateRateLimit(rateLimit: InsertRateLimit): Promise<RateLimit>;
+  incrementRateLimitCounter(key: string, windowStart: number, amount: number, expiresAt: Date): Promise<number>;
+  getRateLimitCounter(key: string, windowStart: number): Promise<number>;
+  takeRateLimitToken(key: string, now: number, intervalMs: number, burstMs: number, expiresAt: Date): Promise<RateLimitTokenResult>;
   deleteExpiredRateLimits(): Promise<void>;
 
   // Site Keys
   createSiteKey(siteKey: InsertSiteKey): Promise<SiteKey>;
   getSiteKey(key: string): Promise<SiteKey | undefined>;
-  getAllSiteKeys(): Promise<SiteKey[]>;
+  getAllSiteKeys(organizationId?: string): Promise<SiteKey[]>;
   updateSiteKeyKeys(key: string, secretKey: string, publicKey: string): Promise<void>;
+  updateSiteKeyHostnames(key: string, allowedHostnames: string[]): Promise<void>;
   deleteSiteKey(key: string): Promise<void>;
 
+  // Site Key Versions
+  createSiteKeyVersion(version: InsertSiteKeyVersion): Promise<SiteKeyVersion>;
+  getSiteKeyVersions(siteKey: string): Promise<SiteKeyVersion[]>;
+  retireSiteKeyVersion(id: string, validUntil: Date): Promise<void>;
+  deleteSiteKeyVersions(siteKey: string): Promise<void>;
+
+  // Site Policies
+  getSitePolicy(siteKey: string): Promise<SitePolicy | undefined>;
+  upsertSitePolicy(policy: InsertSitePolicy): Promise<SitePolicy>;
+  deleteSitePolicy(siteKey: string): Promise<void>;
+
   // API Clients
   createApiClient(client: InsertApiClient): Promise<ApiClient>;
   getApiClient(apiKey: string): Promise<ApiClient | undefined>;
-  getAllApiClients(): Promise<ApiClient[]>;
+  getApiClientById(id: string): Promise<ApiClient | undefined>;
+  getAllApiClients(organizationId?: string): Promise<ApiClient[]>;
   updateApiClientLastUsed(apiKey: string): Promise<void>;
   deleteApiClient(id: string): Promise<void>;
 
+  // API Client Usage
+  incrementApiClientUsage(apiClientId: string, windowStart: Date): Promise<number>;
+  getApiClientUsage(apiClientId: string, windowStart: Date): Promise<number>;
+  deleteApiClientUsage(apiClientId: string): Promise<void>;
+  deleteApiClientUsageBefore(windowStart: Date): Promise<void>;
+
   // Widget Sessions
   createWidgetSession(session: InsertWidgetSession): Promise<WidgetSession>;
   getWidgetSession(id: string): Promise<WidgetSession | undefined>;
   getWidgetSessionByNonce(nonce: string): Promise<WidgetSession | undefined>;
   updateWidgetSession(id: string, updates: Partial<InsertWidgetSession>): Promise<void>;
+  advanceTelemetrySeq(id: string, seq: number): Promise<boolean>;
   deleteExpiredWidgetSessions(): Promise<void>;
 
   // Audit Logs
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
   getAuditLogsByApiKey(apiKey: string, limit?: number): Promise<AuditLog[]>;
-  getRecentAuditLogs(limit: number): Promise<AuditLog[]>;
+  getRecentAuditLogs(limit: number, scope?: AuditLogScope): Promise<AuditLog[]>;
+
+  // Operators
+  createOperator(operator: InsertOperator): Promise<Operator>;
+  getOperator(id: string): Promise<Operator | undefined>;
+  getOperatorByEmail(email: string): Promise<Operator | undefined>;
+  getAllOperators(): Promise<Operator[]>;
+  updateOperator(id: string, updates: Partial<InsertOperator>): Promise<void>;
+  deleteOperator(id: string): Promise<void>;
+
+  // Organizations
+  createOrganization(organization: InsertOrganization): Promise<Organization>;
+  getOrganization(id: string): Promise<Organization | undefined>;
+  getAllOrganizations(): Promise<Organization[]>;
+  claimUnownedResources(organizationId: string): Promise<void>;
+
+  // Organization Memberships
+  createMembership(membership: InsertOrganizationMembership): Promise<OrganizationMembership>;
+  getMembership(organizationId: string, operatorId: string): Promise<OrganizationMembership | undefined>;
+  getMembershipsByOperator(operatorId: string): Promise<OrganizationMembership[]>;
+  getMembershipsByOrganization(organizationId: string): Promise<OrganizationMembership[]>;
+  updateMembershipRole(id: string, role: OperatorRole): Promise<void>;
+  deleteMembership(id: string): Promise<void>;
+  deleteMembershipsByOperator(operatorId: string): Promise<void>;
+}
+
+// Outcome of a token-bucket take; tat is the bucket's theoretical arrival time (epoch ms)
+export interface RateLimitTokenResult {
+  allowed: boolean;
+  tat: number;
+}
+
+// Audit logs visible to an organization: its own dashboard actions plus
+// verification events for its site keys
+export interface AuditLogScope {
+  organizationId: string;
+  siteKeys: string[];
 }
 
 export class DatabaseStorage implements IStorage {
+  private get db() {
+    return getDatabase().db;
+  }
+
+  private get tables() {
+    return getDatabase().tables;
+  }
+
   // Challenges
   async createChallenge(insertChallenge: InsertChallenge): Promise<Challenge> {
-    const [challenge] = await db
-      .insert(challenges)
+    const [challenge] = await this.db
+      .insert(this.tables.challenges)
       .values(insertChallenge)
       .returning();
     return challenge;
   }
 
   async getChallenge(id: string): Promise<Challenge | undefined> {
-    const [challenge] = await db
+    const [challenge] = await this.db
       .select()
-      .from(challenges)
-      .where(eq(challenges.id, id));
+      .from(this.tables.challenges)
+      .where(eq(this.tables.challenges.id, id));
     return challenge || undefined;
   }
 
   async deleteExpiredChallenges(): Promise<void> {
-    await db
-      .delete(challenges)
-      .where(lte(challenges.expiresAt, new Date()));
+    await this.db
+      .delete(this.tables.challenges)
+      .where(lte(this.tables.challenges.expiresAt, new Date()));
   }
 
   // Verification Attempts
   async createVerificationAttempt(insertAttempt: InsertVerificationAttempt): Promise<VerificationAttempt> {
-    const [attempt] = await db
-      .insert(verificationAttempts)
+    const [attempt] = await this.db
+      .insert(this.tables.verificationAttempts)
       .values(insertAttempt)
       .returning();
     return attempt;
   }
 
   async getAttemptsByChallenge(challengeId: string): Promise<VerificationAttempt[]> {
-    return db
+    return this.db
       .select()
-      .from(verificationAttempts)
-      .where(eq(verificationAttempts.challengeId, challengeId));
+      .from(this.tables.verificationAttempts)
+      .where(eq(this.tables.verificationAttempts.challengeId, challengeId));
   }
 
-  async getRecentAttempts(limit: number): Promise<VerificationAttempt[]> {
-    return db
+  async getRecentAttempts(limit: number, siteKeys?: string[]): Promise<VerificationAttempt[]> {
+    if (siteKeys && siteKeys.length === 0) return [];
+
+    return this.db
       .select()
-      .from(verificationAttempts)
-      .orderBy(desc(verificationAttempts.createdAt))
+      .from(this.tables.verificationAttempts)
+      .where(siteKeys ? inArray(this.tables.verificationAttempts.siteKey, siteKeys) : undefined)
+      .orderBy(desc(this.tables.verificationAttempts.createdAt))
       .limit(limit);
   }
 
+  // Candidates sharing any LSH band with the fingerprint; the caller checks the full distance
+  async getAttemptsByTrajectoryBands(bands: string[], since: Date): Promise<VerificationAttempt[]> {
+    const fingerprint = this.tables.verificationAttempts.trajectoryFingerprint;
+    const width = bands[0]?.length ?? 0;
+    if (width === 0) return [];
+
+    return this.db
+      .select()
+      .from(this.tables.verificationAttempts)
+      .where(and(
+        gte(this.tables.verificationAttempts.createdAt, since),
+        or(...bands.map((band, i) => sql`substr(${fingerprint}, ${i * width + 1}, ${width}) = ${band}`))
+      ));
+  }
+  async getVerificationAttempt(id: string): Promise<VerificationAttempt | undefined> {
+    const [attempt] = await this.db
+      .select()
+      .from(this.tables.verificationAttempts)
+      .where(eq(this.tables.verificationAttempts.id, id));
+    return attempt || undefined;
+  }
+
+  async updateAttemptReview(id: string, label: AttemptLabel | null): Promise<void> {
+    await this.db
+      .update(this.tables.verificationAttempts)
+      .set({ reviewLabel: label })
+      .where(eq(this.tables.verificationAttempts.id, id));
+  }
+
+  // Only the successful attempt was issued the token
+  async setAttemptTokenOutcome(challengeId: string, outcome: TokenOutcome): Promise<void> {
+    await this.db
+      .update(this.tables.verificationAttempts)
+      .set({ tokenOutcome: outcome })
+      .where(and(
+        eq(this.tables.verificationAttempts.challengeId, challengeId),
+        eq(this.tables.verificationAttempts.success, true)
+      ));
+  }
+
+
   // Verify Tokens
   async createVerifyToken(insertToken: InsertVerifyToken): Promise<VerifyToken> {
-    const [token] = await db
-      .insert(verifyTokens)
+    const [token] = await this.db
+      .insert(this.tables.verifyTokens)
       .values(insertToken)
       .returning();
     return token;
   }
 
   async getVerifyToken(token: string): Promise<VerifyToken | undefined> {
-    const [verifyToken] = await db
+    const [verifyToken] = await this.db
       .select()
-      .from(verifyTokens)
-      .where(eq(verifyTokens.token, token));
+      .from(this.tables.verifyTokens)
+      .where(eq(this.tables.verifyTokens.token, token));
     return verifyToken || undefined;
   }
 
-  async markTokenAsUsed(token: string): Promise<void> {
-    await db
-      .update(verifyTokens)
+  // A single conditional update, so two concurrent redemptions cannot both mark the token
+  async markTokenAsUsed(token: string): Promise<boolean> {
+    const updated = await this.db
+      .update(this.tables.verifyTokens)
       .set({ used: true })
-      .where(eq(verifyTokens.token, token));
+      .where(and(eq(this.tables.verifyTokens.token, token), eq(this.tables.verifyTokens.used, false)))
+      .returning({ token: this.tables.verifyTokens.token });
+    return updated.length > 0;
   }
 
   async deleteExpiredTokens(): Promise<void> {
-    await db
-      .delete(verifyTokens)
-      .where(lte(verifyTokens.expiresAt, new Date()));
+    await this.db
+      .delete(this.tables.verifyTokens)
+      .where(lte(this.tables.verifyTokens.expiresAt, new Date()));
   }
 
   // Assets
   async createAsset(insertAsset: InsertAsset): Promise<Asset> {
-    const [asset] = await db
-      .insert(assets)
+    const [asset] = await this.db
+      .insert(this.tables.assets)
       .values(insertAsset)
       .returning();
     return asset;
   }
 
   async getAssetsByCategory(category: string, limit: number = 50): Promise<Asset[]> {
-    return db
+    return this.db
       .select()
-      .from(assets)
-      .where(eq(assets.category, category))
+      .from(this.tables.assets)
+      .where(eq(this.tables.assets.category, category))
       .limit(limit);
   }
 
   async getAllAssets(): Promise<Asset[]> {
-    return db.select().from(assets);
+    return this.db.select().from(this.tables.assets);
   }
 
   // Rate Limits
-  async getRateLimit(ipAddress: string, action: string): Promise<RateLimit | undefined> {
-    const [rateLimit] = await db
+  async incrementRateLimitCounter(key: string, windowStart: number, amount: number, expiresAt: Date): Promise<number> {
+    const [counter] = await this.db
+      .insert(this.tables.rateLimits)
+      .values({ id: nanoid(), key, windowStart, count: amount, expiresAt })
+      .onConflictDoUpdate({
+        target: [this.tables.rateLimits.key, this.tables.rateLimits.windowStart],
+        set: { count: sql`${this.tables.rateLimits.count} + ${amount}` },
+      })
+      .returning();
+    return counter.count;
+  }
+
+  async getRateLimitCounter(key: string, windowStart: number): Promise<number> {
+    const [counter] = await this.db
       .select()
-      .from(rateLimits)
+      .from(this.tables.rateLimits)
       .where(
         and(
-          eq(rateLimits.ipAddress, ipAddress),
-          eq(rateLimits.action, action),
-          gte(rateLimits.expiresAt, new Date())
+          eq(this.tables.rateLimits.key, key),
+          eq(this.tables.rateLimits.windowStart, windowStart)
         )
       );
-    return rateLimit || undefined;
+    return counter?.count ?? 0;
   }
 
-  async createOrUpdateRateLimit(insertRateLimit: InsertRateLimit): Promise<RateLimit> {
-    const existing = await this.getRateLimit(insertRateLimit.ipAddress, insertRateLimit.action);
-    
-    if (existing) {
-      const [updated] = await db
-        .update(rateLimits)
-        .set({ count: insertRateLimit.count })
-        .where(eq(rateLimits.id, existing.id))
-        .returning();
-      return updated;
-    } else {
-      const [created] = await db
-        .insert(rateLimits)
-        .values(insertRateLimit)
-        .returning();
-      return created;
+  async takeRateLimitToken(key: string, now: number, intervalMs: number, burstMs: number, expiresAt: Date): Promise<RateLimitTokenResult> {
+    const { rateLimits } = this.tables;
+    const bucket = and(eq(rateLimits.key, key), eq(rateLimits.windowStart, 0));
+
+    await this.db
+      .insert(rateLimits)
+      .values({ id: nanoid(), key, windowStart: 0, count: 0, tat: now, expiresAt })
+      .onConflictDoNothing({ target: [rateLimits.key, rateLimits.windowStart] });
+
+    // Advance the arrival time only while it stays inside the burst allowance,
+    // in one statement so concurrent requests cannot both take the last token
+    const nextTat = sql`(CASE WHEN ${rateLimits.tat} > ${now} THEN ${rateLimits.tat} ELSE ${now} END) + ${intervalMs}`;
+    const [taken] = await this.db
+      .update(rateLimits)
+      .set({ tat: nextTat, expiresAt })
+      .where(and(bucket, sql`${nextTat} - ${burstMs} <= ${now}`))
+      .returning();
+    if (taken) {
+      return { allowed: true, tat: Number(taken.tat) };
     }
+
+    const [current] = await this.db.select().from(rateLimits).where(bucket);
+    return { allowed: false, tat: Number(current?.tat ?? now) };
   }
 
   async deleteExpiredRateLimits(): Promise<void> {
-    await db
-      .delete(rateLimits)
-      .where(lte(rateLimits.expiresAt, new Date()));
+    await this.db
+      .delete(this.tables.rateLimits)
+      .where(lte(this.tables.rateLimits.expiresAt, new Date()));
   }
 
   // Site Keys
   async createSiteKey(insertSiteKey: InsertSiteKey): Promise<SiteKey> {
-    const [siteKey] = await db
-      .insert(siteKeys)
+    const [siteKey] = await this.db
+      .insert(this.tables.siteKeys)
       .values(insertSiteKey)
       .returning();
     return siteKey;
   }
 
   async getSiteKey(key: string): Promise<SiteKey | undefined> {
-    const [siteKey] = await db
+    const [siteKey] = await this.db
       .select()
-      .from(siteKeys)
-      .where(eq(siteKeys.key, key));
+      .from(this.tables.siteKeys)
+      .where(eq(this.tables.siteKeys.key, key));
     return siteKey || undefined;
   }
 
-  async getAllSiteKeys(): Promise<SiteKey[]> {
-    return db.select().from(siteKeys);
+  async getAllSiteKeys(organizationId?: string): Promise<SiteKey[]> {
+    return this.db
+      .select()
+      .from(this.tables.siteKeys)
+      .where(organizationId ? eq(this.tables.siteKeys.organizationId, organizationId) : undefined);
   }
 
   async updateSiteKeyKeys(key: string, secretKey: string, publicKey: string): Promise<void> {
-    await db
-      .update(siteKeys)
+    await this.db
+      .update(this.tables.siteKeys)
       .set({ secretKey, publicKey })
-      .where(eq(siteKeys.key, key));
+      .where(eq(this.tables.siteKeys.key, key));
+  }
+
+  async updateSiteKeyHostnames(key: string, allowedHostnames: string[]): Promise<void> {
+    await this.db
+      .update(this.tables.siteKeys)
+      .set({ allowedHostnames })
+      .where(eq(this.tables.siteKeys.key, key));
   }
 
   async deleteSiteKey(key: string): Promise<void> {
-    await db
-      .delete(siteKeys)
-      .where(eq(siteKeys.key, key));
+    await this.db
+      .delete(this.tables.siteKeys)
+      .where(eq(this.tables.siteKeys.key, key));
+  }
+
+  // Site Key Versions
+  async createSiteKeyVersion(insertVersion: InsertSiteKeyVersion): Promise<SiteKeyVersion> {
+    const [version] = await this.db
+      .insert(this.tables.siteKeyVersions)
+      .values(insertVersion)
+      .returning();
+    return version;
+  }
+
+  async getSiteKeyVersions(siteKey: string): Promise<SiteKeyVersion[]> {
+    return this.db
+      .select()
+      .from(this.tables.siteKeyVersions)
+      .where(eq(this.tables.siteKeyVersions.siteKey, siteKey))
+      .orderBy(desc(this.tables.siteKeyVersions.version));
+  }
+
+  async retireSiteKeyVersion(id: string, validUntil: Date): Promise<void> {
+    await this.db
+      .update(this.tables.siteKeyVersions)
+      .set({ status: 'retired', retiredAt: new Date(), validUntil })
+      .where(eq(this.tables.siteKeyVersions.id, id));
+  }
+
+  async deleteSiteKeyVersions(siteKey: string): Promise<void> {
+    await this.db
+      .delete(this.tables.siteKeyVersions)
+      .where(eq(this.tables.siteKeyVersions.siteKey, siteKey));
+  }
+
+  // Site Policies
+  async getSitePolicy(siteKey: string): Promise<SitePolicy | undefined> {
+    const [policy] = await this.db
+      .select()
+      .from(this.tables.sitePolicies)
+      .where(eq(this.tables.sitePolicies.siteKey, siteKey));
+    return policy || undefined;
+  }
+
+  async upsertSitePolicy(insertPolicy: InsertSitePolicy): Promise<SitePolicy> {
+    const existing = await this.getSitePolicy(insertPolicy.siteKey);
+
+    if (existing) {
+      const [updated] = await this.db
+        .update(this.tables.sitePolicies)
+        .set({ ...insertPolicy, updatedAt: new Date() })
+        .where(eq(this.tables.sitePolicies.siteKey, insertPolicy.siteKey))
+        .returning();
+      return updated;
+    } else {
+      const [created] = await this.db
+        .insert(this.tables.sitePolicies)
+        .values(insertPolicy)
+        .returning();
+      return created;
+    }
+  }
+
+  async deleteSitePolicy(siteKey: string): Promise<void> {
+    await this.db
+      .delete(this.tables.sitePolicies)
+      .where(eq(this.tables.sitePolicies.siteKey, siteKey));
   }
 
   // API Clients
   async createApiClient(insertClient: InsertApiClient): Promise<ApiClient> {
-    const [client] = await db
-      .insert(apiClients)
+    const [client] = await this.db
+      .insert(this.tables.apiClients)
       .values(insertClient)
       .returning();
     return client;
   }
 
   async getApiClient(apiKey: string): Promise<ApiClient | undefined> {
-    const [client] = await db
+    const [client] = await this.db
       .select()
-      .from(apiClients)
-      .where(eq(apiClients.apiKey, apiKey));
+      .from(this.tables.apiClients)
+      .where(eq(this.tables.apiClients.apiKey, apiKey));
     return client || undefined;
   }
 
-  async getAllApiClients(): Promise<ApiClient[]> {
-    return db.select().from(apiClients);
+  async getApiClientById(id: string): Promise<ApiClient | undefined> {
+    const [client] = await this.db
+      .select()
+      .from(this.tables.apiClients)
+      .where(eq(this.tables.apiClients.id, id));
+    return client || undefined;
+  }
+
+  async getAllApiClients(organizationId?: string): Promise<ApiClient[]> {
+    return this.db
+      .select()
+      .from(this.tables.apiClients)
+      .where(organizationId ? eq(this.tables.apiClients.organizationId, organizationId) : undefined);
   }
 
   async updateApiClientLastUsed(apiKey: string): Promise<void> {
-    await db
-      .update(apiClients)
+    await this.db
+      .update(this.tables.apiClients)
       .set({ lastUsedAt: new Date() })
-      .where(eq(apiClients.apiKey, apiKey));
+      .where(eq(this.tables.apiClients.apiKey, apiKey));
   }
 
   async deleteApiClient(id: string): Promise<void> {
-    await db
-      .delete(apiClients)
-      .where(eq(apiClients.id, id));
+    await this.db
+      .delete(this.tables.apiClients)
+      .where(eq(this.tables.apiClients.id, id));
+  }
+
+  // API Client Usage
+  async incrementApiClientUsage(apiClientId: string, windowStart: Date): Promise<number> {
+    // Single upsert so concurrent requests cannot both read the same count
+    const [usage] = await this.db
+      .insert(this.tables.apiClientUsage)
+      .values({ id: nanoid(), apiClientId, windowStart, count: 1 })
+      .onConflictDoUpdate({
+        target: [this.tables.apiClientUsage.apiClientId, this.tables.apiClientUsage.windowStart],
+        set: { count: sql`${this.tables.apiClientUsage.count} + 1` },
+      })
+      .returning();
+    return usage.count;
+  }
+
+  async getApiClientUsage(apiClientId: string, windowStart: Date): Promise<number> {
+    const [usage] = await this.db
+      .select()
+      .from(this.tables.apiClientUsage)
+      .where(
+        and(
+          eq(this.tables.apiClientUsage.apiClientId, apiClientId),
+          eq(this.tables.apiClientUsage.windowStart, windowStart)
+        )
+      );
+    return usage?.count ?? 0;
+  }
+
+  async deleteApiClientUsage(apiClientId: string): Promise<void> {
+    await this.db
+      .delete(this.tables.apiClientUsage)
+      .where(eq(this.tables.apiClientUsage.apiClientId, apiClientId));
+  }
+
+  async deleteApiClientUsageBefore(windowStart: Date): Promise<void> {
+    await this.db
+      .delete(this.tables.apiClientUsage)
+      .where(lt(this.tables.apiClientUsage.windowStart, windowStart));
   }
 
   // Widget Sessions
   async createWidgetSession(insertSession: InsertWidgetSession): Promise<WidgetSession> {
-    const [session] = await db
-      .insert(widgetSessions)
+    const [session] = await this.db
+      .insert(this.tables.widgetSessions)
       .values(insertSession)
       .returning();
     return session;
   }
 
   async getWidgetSession(id: string): Promise<WidgetSession | undefined> {
-    const [session] = await db
+    const [session] = await this.db
       .select()
-      .from(widgetSessions)
-      .where(eq(widgetSessions.id, id));
+      .from(this.tables.widgetSessions)
+      .where(eq(this.tables.widgetSessions.id, id));
     return session || undefined;
   }
 
   async getWidgetSessionByNonce(nonce: string): Promise<WidgetSession | undefined> {
-    const [session] = await db
+    const [session] = await this.db
       .select()
-      .from(widgetSessions)
-      .where(eq(widgetSessions.nonce, nonce));
+      .from(this.tables.widgetSessions)
+      .where(eq(this.tables.widgetSessions.nonce, nonce));
     return session || undefined;
   }
 
   async updateWidgetSession(id: string, updates: Partial<InsertWidgetSession>): Promise<void> {
-    await db
-      .update(widgetSessions)
+    await this.db
+      .update(this.tables.widgetSessions)
       .set(updates)
-      .where(eq(widgetSessions.id, id));
+      .where(eq(this.tables.widgetSessions.id, id));
+  }
+
+  // A single conditional update, so two envelopes with the same sequence number cannot both be accepted
+  async advanceTelemetrySeq(id: string, seq: number): Promise<boolean> {
+    const updated = await this.db
+      .update(this.tables.widgetSessions)
+      .set({ telemetrySeq: seq })
+      .where(and(eq(this.tables.widgetSessions.id, id), lt(this.tables.widgetSessions.telemetrySeq, seq)))
+      .returning({ id: this.tables.widgetSessions.id });
+    return updated.length > 0;
   }
 
   async deleteExpiredWidgetSessions(): Promise<void> {
-    await db
-      .delete(widgetSessions)
-      .where(lte(widgetSessions.expiresAt, new Date()));
+    await this.db
+      .delete(this.tables.widgetSessions)
+      .where(lte(this.tables.widgetSessions.expiresAt, new Date()));
   }
 
   // Audit Logs
   async createAuditLog(insertLog: InsertAuditLog): Promise<AuditLog> {
-    const [log] = await db
-      .insert(auditLogs)
+    const [log] = await this.db
+      .insert(this.tables.auditLogs)
       .values(insertLog)
       .returning();
     return log;
   }
 
   async getAuditLogsByApiKey(apiKey: string, limit: number = 100): Promise<AuditLog[]> {
-    return db
+    return this.db
       .select()
-      .from(auditLogs)
-      .where(eq(auditLogs.apiKey, apiKey))
-      .orderBy(desc(auditLogs.createdAt))
+      .from(this.tables.auditLogs)
+      .where(eq(this.tables.auditLogs.apiKey, apiKey))
+      .orderBy(desc(this.tables.auditLogs.createdAt))
       .limit(limit);
   }
 
-  async getRecentAuditLogs(limit: number): Promise<AuditLog[]> {
-    return db
+  async getRecentAuditLogs(limit: number, scope?: AuditLogScope): Promise<AuditLog[]> {
+    const logs = this.tables.auditLogs;
+    const scopeFilter = scope && (scope.siteKeys.length > 0
+      ? or(eq(logs.organizationId, scope.organizationId), inArray(logs.siteKey, scope.siteKeys))
+      : eq(logs.organizationId, scope.organizationId));
+
+    return this.db
       .select()
-      .from(auditLogs)
-      .orderBy(desc(auditLogs.createdAt))
+      .from(logs)
+      .where(scopeFilter)
+      .orderBy(desc(logs.createdAt))
       .limit(limit);
   }
+
+  // Operators
+  async createOperator(insertOperator: InsertOperator): Promise<Operator> {
+    const [operator] = await this.db
+      .insert(this.tables.operators)
+      .values(insertOperator)
+      .returning();
+    return operator;
+  }
+
+  async getOperator(id: string): Promise<Operator | undefined> {
+    const [operator] = await this.db
+      .select()
+      .from(this.tables.operators)
+      .where(eq(this.tables.operators.id, id));
+    return operator || undefined;
+  }
+
+  async getOperatorByEmail(email: string): Promise<Operator | undefined> {
+    const [operator] = await this.db
+      .select()
+      .from(this.tables.operators)
+      .where(eq(this.tables.operators.email, email));
+    return operator || undefined;
+  }
+
+  async getAllOperators(): Promise<Operator[]> {
+    return this.db
+      .select()
+      .from(this.tables.operators)
+      .orderBy(this.tables.operators.createdAt);
+  }
+
+  async updateOperator(id: string, updates: Partial<InsertOperator>): Promise<void> {
+    await this.db
+      .update(this.tables.operators)
+      .set(updates)
+      .where(eq(this.tables.operators.id, id));
+  }
+
+  async deleteOperator(id: string): Promise<void> {
+    await this.db
+      .delete(this.tables.operators)
+      .where(eq(this.tables.operators.id, id));
+  }
+
+  // Organizations
+  async createOrganization(insertOrganization: InsertOrganization): Promise<Organization> {
+    const [organization] = await this.db
+      .insert(this.tables.organizations)
+      .values(insertOrganization)
+      .returning();
+    return organization;
+  }
+
+  async getOrganization(id: string): Promise<Organization | undefined> {
+    const [organization] = await this.db
+      .select()
+      .from(this.tables.organizations)
+      .where(eq(this.tables.organizations.id, id));
+    return organization || undefined;
+  }
+
+  async getAllOrganizations(): Promise<Organization[]> {
+    return this.db
+      .select()
+      .from(this.tables.organizations)
+      .orderBy(this.tables.organizations.createdAt);
+  }
+
+  async claimUnownedResources(organizationId: string): Promise<void> {
+    await this.db
+      .update(this.tables.siteKeys)
+      .set({ organizationId })
+      .where(isNull(this.tables.siteKeys.organizationId));
+    await this.db
+      .update(this.tables.apiClients)
+      .set({ organizationId })
+      .where(isNull(this.tables.apiClients.organizationId));
+  }
+
+  // Organization Memberships
+  async createMembership(insertMembership: InsertOrganizationMembership): Promise<OrganizationMembership> {
+    const [membership] = await this.db
+      .insert(this.tables.organizationMemberships)
+      .values(insertMembership)
+      .returning();
+    return membership;
+  }
+
+  async getMembership(organizationId: string, operatorId: string): Promise<OrganizationMembership | undefined> {
+    const [membership] = await this.db
+      .select()
+      .from(this.tables.organizationMemberships)
+      .where(and(
+        eq(this.tables.organizationMemberships.organizationId, organizationId),
+        eq(this.tables.organizationMemberships.operatorId, operatorId)
+      ));
+    return membership || undefined;
+  }
+
+  async getMembershipsByOperator(operatorId: string): Promise<OrganizationMembership[]> {
+    return this.db
+      .select()
+      .from(this.tables.organizationMemberships)
+      .where(eq(this.tables.organizationMemberships.operatorId, operatorId))
+      .orderBy(this.tables.organizationMemberships.createdAt);
+  }
+
+  async getMembershipsByOrganization(organizationId: string): Promise<OrganizationMembership[]> {
+    return this.db
+      .select()
+      .from(this.tables.organizationMemberships)
+      .where(eq(this.tables.organizationMemberships.organizationId, organizationId))
+      .orderBy(this.tables.organizationMemberships.createdAt);
+  }
+
+  async updateMembershipRole(id: string, role: OperatorRole): Promise<void> {
+    await this.db
+      .update(this.tables.organizationMemberships)
+      .set({ role })
+      .where(eq(this.tables.organizationMemberships.id, id));
+  }
+
+  async deleteMembership(id: string): Promise<void> {
+    await this.db
+      .delete(this.tables.organizationMemberships)
+      .where(eq(this.tables.organizationMemberships.id, id));
+  }
+
+  async deleteMembershipsByOperator(operatorId: string): Promise<void> {
+    await this.db
+      .delete(this.tables.organizationMemberships)
+      .where(eq(this.tables.organizationMemberships.operatorId, operatorId));
+  }
+}
+
+// In-memory storage for local development and tests (no database required)
+// Mirrors DatabaseStorage semantics: column defaults, expiry filtering and ordering
+export class MemoryStorage implements IStorage {
+  private challenges = new Map<string, Challenge>();
+  private attempts = new Map<string, VerificationAttempt>();
+  private tokens = new Map<string, VerifyToken>();
+  private assets = new Map<string, Asset>();
+  private rateLimits = new Map<string, RateLimit>();
+  private siteKeys = new Map<string, SiteKey>();
+  private sitePolicies = new Map<string, SitePolicy>();
+  private siteKeyVersions = new Map<string, SiteKeyVersion>();
+  private apiClients = new Map<string, ApiClient>();
+  private apiClientUsage = new Map<string, ApiClientUsage>();
+  private widgetSessions = new Map<string, WidgetSession>();
+  private auditLogs = new Map<string, AuditLog>();
+  private operators = new Map<string, Operator>();
+  private organizations = new Map<string, Organization>();
+  private memberships = new Map<string, OrganizationMembership>();
+
+  private newestFirst<T extends { createdAt: Date }>(rows: T[]): T[] {
+    return rows.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  // Challenges
+  async createChallenge(insertChallenge: InsertChallenge): Promise<Challenge> {
+    const challenge: Challenge = {
+      ...insertChallenge,
+      images: insertChallenge.images as string[],
+      correctIndices: (insertChallenge.correctIndices as number[] | null | undefined) ?? null,
+      isHoneytrap: insertChallenge.isHoneytrap ?? false,
+      metadata: insertChallenge.metadata ?? null,
+      createdAt: new Date(),
+    };
+    this.challenges.set(challenge.id, challenge);
+    return challenge;
+  }
+
+  async getChallenge(id: string): Promise<Challenge | undefined> {
+    return this.challenges.get(id);
+  }
+
+  async deleteExpiredChallenges(): Promise<void> {
+    const now = new Date();
+    for (const [id, challenge] of Array.from(this.challenges)) {
+      if (challenge.expiresAt <= now) this.challenges.delete(id);
+    }
+  }
+
+  // Verification Attempts
+  async createVerificationAttempt(insertAttempt: InsertVerificationAttempt): Promise<VerificationAttempt> {
+    const attempt: VerificationAttempt = {
+      ...insertAttempt,
+      siteKey: insertAttempt.siteKey ?? null,
+      ipAddress: insertAttempt.ipAddress ?? null,
+      selectedIndices: (insertAttempt.selectedIndices as number[] | null | undefined) ?? null,
+      behaviorVector: (insertAttempt.behaviorVector as number[] | null | undefined) ?? null,
+      behaviorScore: insertAttempt.behaviorScore ?? null,
+      semanticScore: insertAttempt.semanticScore ?? null,
+      deviceTrustScore: insertAttempt.deviceTrustScore ?? null,
+      environmentScore: insertAttempt.environmentScore ?? null,
+      finalScore: insertAttempt.finalScore ?? null,
+      flaggedSuspicious: insertAttempt.flaggedSuspicious ?? false,
+      trajectoryFingerprint: insertAttempt.trajectoryFingerprint ?? null,
+      replayHits: insertAttempt.replayHits ?? 0,
+      reasonCodes: (insertAttempt.reasonCodes as ReasonCode[] | null | undefined) ?? null,
+      reviewLabel: (insertAttempt.reviewLabel as AttemptLabel | null | undefined) ?? null,
+      tokenOutcome: (insertAttempt.tokenOutcome as TokenOutcome | null | undefined) ?? null,
+      userAgent: insertAttempt.userAgent ?? null,
+      createdAt: new Date(),
+    };
+    this.attempts.set(attempt.id, attempt);
+    return attempt;
+  }
+
+  async getAttemptsByChallenge(challengeId: string): Promise<VerificationAttempt[]> {
+    return Array.from(this.attempts.values()).filter(a => a.challengeId === challengeId);
+  }
+
+  async getRecentAttempts(limit: number, siteKeys?: string[]): Promise<VerificationAttempt[]> {
+    const attempts = Array.from(this.attempts.values())
+      .filter(a => !siteKeys || (a.siteKey !== null && siteKeys.includes(a.siteKey)));
+    return this.newestFirst(attempts).slice(0, limit);
+  }
+
+  async getAttemptsByTrajectoryBands(bands: string[], since: Date): Promise<VerificationAttempt[]> {
+    const width = bands[0]?.length ?? 0;
+    if (width === 0) return [];
+
+    return Array.from(this.attempts.values()).filter(a =>
+      a.trajectoryFingerprint !== null &&
+      a.createdAt >= since &&
+      bands.some((band, i) => a.trajectoryFingerprint!.slice(i * width, (i + 1) * width) === band)
+    );
+  }
+  async getVerificationAttempt(id: string): Promise<VerificationAttempt | undefined> {
+    return this.attempts.get(id);
+  }
+
+  async updateAttemptReview(id: string, label: AttemptLabel | null): Promise<void> {
+    const existing = this.attempts.get(id);
+    if (existing) existing.reviewLabel = label;
+  }
+
+  async setAttemptTokenOutcome(challengeId: string, outcome: TokenOutcome): Promise<void> {
+    for (const attempt of Array.from(this.attempts.values())) {
+      if (attempt.challengeId === challengeId && attempt.success) attempt.tokenOutcome = outcome;
+    }
+  }
+
+
+  // Verify Tokens
+  async createVerifyToken(insertToken: InsertVerifyToken): Promise<VerifyToken> {
+    const token: VerifyToken = {
+      ...insertToken,
+      used: insertToken.used ?? false,
+      ipAddress: insertToken.ipAddress ?? null,
+      action: insertToken.action ?? null,
+      cData: insertToken.cData ?? null,
+      createdAt: new Date(),
+    };
+    this.tokens.set(token.token, token);
+    return token;
+  }
+
+  async getVerifyToken(token: string): Promise<VerifyToken | undefined> {
+    return this.tokens.get(token);
+  }
+
+  async markTokenAsUsed(token: string): Promise<boolean> {
+    const existing = this.tokens.get(token);
+    if (!existing || existing.used) return false;
+    existing.used = true;
+    return true;
+  }
+
+  async deleteExpiredTokens(): Promise<void> {
+    const now = new Date();
+    for (const [key, token] of Array.from(this.tokens)) {
+      if (token.expiresAt <= now) this.tokens.delete(key);
+    }
+  }
+
+  // Assets
+  async createAsset(insertAsset: InsertAsset): Promise<Asset> {
+    const asset: Asset = {
+      ...insertAsset,
+      subcategory: insertAsset.subcategory ?? null,
+      tags: (insertAsset.tags as string[] | null | undefined) ?? null,
+      localeTags: (insertAsset.localeTags as string[] | null | undefined) ?? null,
+      safeForKids: insertAsset.safeForKids ?? true,
+      width: insertAsset.width ?? null,
+      height: insertAsset.height ?? null,
+      metadata: insertAsset.metadata ?? null,
+      createdAt: new Date(),
+    };
+    this.assets.set(asset.id, asset);
+    return asset;
+  }
+
+  async getAssetsByCategory(category: string, limit: number = 50): Promise<Asset[]> {
+    return Array.from(this.assets.values())
+      .filter(a => a.category === category)
+      .slice(0, limit);
+  }
+
+  async getAllAssets(): Promise<Asset[]> {
+    return Array.from(this.assets.values());
+  }
+
+  // Rate Limits
+  async incrementRateLimitCounter(key: string, windowStart: number, amount: number, expiresAt: Date): Promise<number> {
+    const id = `${key}@${windowStart}`;
+    const counter = this.rateLimits.get(id);
+    if (counter) {
+      counter.count += amount;
+      return counter.count;
+    }
+    this.rateLimits.set(id, { id, key, windowStart, count: amount, tat: null, expiresAt });
+    return amount;
+  }
+
+  async getRateLimitCounter(key: string, windowStart: number): Promise<number> {
+    return this.rateLimits.get(`${key}@${windowStart}`)?.count ?? 0;
+  }
+
+  async takeRateLimitToken(key: string, now: number, intervalMs: number, burstMs: number, expiresAt: Date): Promise<RateLimitTokenResult> {
+    const id = `${key}@0`;
+    let bucket = this.rateLimits.get(id);
+    if (!bucket) {
+      bucket = { id, key, windowStart: 0, count: 0, tat: now, expiresAt };
+      this.rateLimits.set(id, bucket);
+    }
+
+    const nextTat = Math.max(bucket.tat ?? now, now) + intervalMs;
+    if (nextTat - burstMs > now) {
+      return { allowed: false, tat: bucket.tat ?? now };
+    }
+    bucket.tat = nextTat;
+    bucket.expiresAt = expiresAt;
+    return { allowed: true, tat: nextTat };
+  }
+
+  async deleteExpiredRateLimits(): Promise<void> {
+    const now = new Date();
+    for (const [id, rateLimit] of Array.from(this.rateLimits)) {
+      if (rateLimit.expiresAt <= now) this.rateLimits.delete(id);
+    }
+  }
+
+  // Site Keys
+  async createSiteKey(insertSiteKey: InsertSiteKey): Promise<SiteKey> {
+    const siteKey: SiteKey = {
+      ...insertSiteKey,
+      secretKey: insertSiteKey.secretKey ?? null,
+      publicKey: insertSiteKey.publicKey ?? null,
+      domain: insertSiteKey.domain ?? null,
+      allowedHostnames: insertSiteKey.allowedHostnames ?? null,
+      active: insertSiteKey.active ?? true,
+      organizationId: insertSiteKey.organizationId ?? null,
+      createdAt: new Date(),
+    };
+    this.siteKeys.set(siteKey.key, siteKey);
+    return siteKey;
+  }
+
+  async getSiteKey(key: string): Promise<SiteKey | undefined> {
+    return this.siteKeys.get(key);
+  }
+
+  async getAllSiteKeys(organizationId?: string): Promise<SiteKey[]> {
+    return Array.from(this.siteKeys.values())
+      .filter(k => !organizationId || k.organizationId === organizationId);
+  }
+
+  async updateSiteKeyKeys(key: string, secretKey: string, publicKey: string): Promise<void> {
+    const existing = this.siteKeys.get(key);
+    if (existing) {
+      existing.secretKey = secretKey;
+      existing.publicKey = publicKey;
+    }
+  }
+
+  async updateSiteKeyHostnames(key: string, allowedHostnames: string[]): Promise<void> {
+    const existing = this.siteKeys.get(key);
+    if (existing) {
+      existing.allowedHostnames = allowedHostnames;
+    }
+  }
+
+  async deleteSiteKey(key: string): Promise<void> {
+    this.siteKeys.delete(key);
+  }
+
+  // Site Key Versions
+  async createSiteKeyVersion(insertVersion: InsertSiteKeyVersion): Promise<SiteKeyVersion> {
+    const version: SiteKeyVersion = {
+      ...insertVersion,
+      retiredAt: insertVersion.retiredAt ?? null,
+      validUntil: insertVersion.validUntil ?? null,
+      createdAt: new Date(),
+    };
+    this.siteKeyVersions.set(version.id, version);
+    return version;
+  }
+
+  async getSiteKeyVersions(siteKey: string): Promise<SiteKeyVersion[]> {
+    return Array.from(this.siteKeyVersions.values())
+      .filter(v => v.siteKey === siteKey)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async retireSiteKeyVersion(id: string, validUntil: Date): Promise<void> {
+    const existing = this.siteKeyVersions.get(id);
+    if (existing) {
+      existing.status = 'retired';
+      existing.retiredAt = new Date();
+      existing.validUntil = validUntil;
+    }
+  }
+
+  async deleteSiteKeyVersions(siteKey: string): Promise<void> {
+    for (const [id, version] of Array.from(this.siteKeyVersions)) {
+      if (version.siteKey === siteKey) this.siteKeyVersions.delete(id);
+    }
+  }
+
+  // Site Policies
+  async getSitePolicy(siteKey: string): Promise<SitePolicy | undefined> {
+    return this.sitePolicies.get(siteKey);
+  }
+
+  async upsertSitePolicy(insertPolicy: InsertSitePolicy): Promise<SitePolicy> {
+    const policy: SitePolicy = {
+      ...insertPolicy,
+      tokenTtlSeconds: insertPolicy.tokenTtlSeconds ?? 120,
+      rateLimits: insertPolicy.rateLimits ?? null,
+      updatedAt: new Date(),
+    };
+    this.sitePolicies.set(policy.siteKey, policy);
+    return policy;
+  }
+
+  async deleteSitePolicy(siteKey: string): Promise<void> {
+    this.sitePolicies.delete(siteKey);
+  }
+
+  // API Clients
+  async createApiClient(insertClient: InsertApiClient): Promise<ApiClient> {
+    if (Array.from(this.apiClients.values()).some(c => c.apiKey === insertClient.apiKey)) {
+      throw new Error(`Duplicate API key: ${insertClient.apiKey}`);
+    }
+
+    const client: ApiClient = {
+      ...insertClient,
+      domain: insertClient.domain ?? null,
+      rateLimitPerHour: insertClient.rateLimitPerHour ?? 1000,
+      active: insertClient.active ?? true,
+      organizationId: insertClient.organizationId ?? null,
+      lastUsedAt: insertClient.lastUsedAt ?? null,
+      createdAt: new Date(),
+    };
+    this.apiClients.set(client.id, client);
+    return client;
+  }
+
+  async getApiClient(apiKey: string): Promise<ApiClient | undefined> {
+    return Array.from(this.apiClients.values()).find(c => c.apiKey === apiKey);
+  }
+
+  async getApiClientById(id: string): Promise<ApiClient | undefined> {
+    return this.apiClients.get(id);
+  }
+
+  async getAllApiClients(organizationId?: string): Promise<ApiClient[]> {
+    return Array.from(this.apiClients.values())
+      .filter(c => !organizationId || c.organizationId === organizationId);
+  }
+
+  async updateApiClientLastUsed(apiKey: string): Promise<void> {
+    const client = await this.getApiClient(apiKey);
+    if (client) client.lastUsedAt = new Date();
+  }
+
+  async deleteApiClient(id: string): Promise<void> {
+    this.apiClients.delete(id);
+  }
+
+  // API Client Usage
+  private usageKey(apiClientId: string, windowStart: Date): string {
+    return `${apiClientId}:${windowStart.getTime()}`;
+  }
+
+  async incrementApiClientUsage(apiClientId: string, windowStart: Date): Promise<number> {
+    const key = this.usageKey(apiClientId, windowStart);
+    const usage = this.apiClientUsage.get(key);
+    if (usage) {
+      usage.count += 1;
+      return usage.count;
+    }
+    this.apiClientUsage.set(key, { id: nanoid(), apiClientId, windowStart, count: 1 });
+    return 1;
+  }
+
+  async getApiClientUsage(apiClientId: string, windowStart: Date): Promise<number> {
+    return this.apiClientUsage.get(this.usageKey(apiClientId, windowStart))?.count ?? 0;
+  }
+
+  async deleteApiClientUsage(apiClientId: string): Promise<void> {
+    for (const [key, usage] of Array.from(this.apiClientUsage.entries())) {
+      if (usage.apiClientId === apiClientId) this.apiClientUsage.delete(key);
+    }
+  }
+
+  async deleteApiClientUsageBefore(windowStart: Date): Promise<void> {
+    for (const [key, usage] of Array.from(this.apiClientUsage.entries())) {
+      if (usage.windowStart < windowStart) this.apiClientUsage.delete(key);
+    }
+  }
+
+  // Widget Sessions
+  async createWidgetSession(insertSession: InsertWidgetSession): Promise<WidgetSession> {
+    if (await this.getWidgetSessionByNonce(insertSession.nonce)) {
+      throw new Error('Duplicate widget session nonce');
+    }
+
+    const session: WidgetSession = {
+      ...insertSession,
+      fingerprintHash: insertSession.fingerprintHash ?? null,
+      ipAddress: insertSession.ipAddress ?? null,
+      userAgent: insertSession.userAgent ?? null,
+      challengeId: insertSession.challengeId ?? null,
+      verified: insertSession.verified ?? false,
+      verifyToken: insertSession.verifyToken ?? null,
+      telemetryKey: insertSession.telemetryKey ?? null,
+      telemetrySeq: insertSession.telemetrySeq ?? 0,
+      metadata: insertSession.metadata ?? null,
+      createdAt: new Date(),
+    };
+    this.widgetSessions.set(session.id, session);
+    return session;
+  }
+
+  async getWidgetSession(id: string): Promise<WidgetSession | undefined> {
+    return this.widgetSessions.get(id);
+  }
+
+  async getWidgetSessionByNonce(nonce: string): Promise<WidgetSession | undefined> {
+    return Array.from(this.widgetSessions.values()).find(s => s.nonce === nonce);
+  }
+
+  async updateWidgetSession(id: string, updates: Partial<InsertWidgetSession>): Promise<void> {
+    const session = this.widgetSessions.get(id);
+    if (session) {
+      Object.assign(session, updates);
+    }
+  }
+
+  async advanceTelemetrySeq(id: string, seq: number): Promise<boolean> {
+    const session = this.widgetSessions.get(id);
+    if (!session || seq <= session.telemetrySeq) return false;
+    session.telemetrySeq = seq;
+    return true;
+  }
+
+  async deleteExpiredWidgetSessions(): Promise<void> {
+    const now = new Date();
+    for (const [id, session] of Array.from(this.widgetSessions)) {
+      if (session.expiresAt <= now) this.widgetSessions.delete(id);
+    }
+  }
+
+  // Audit Logs
+  async createAuditLog(insertLog: InsertAuditLog): Promise<AuditLog> {
+    const log: AuditLog = {
+      ...insertLog,
+      apiKey: insertLog.apiKey ?? null,
+      siteKey: insertLog.siteKey ?? null,
+      ipAddress: insertLog.ipAddress ?? null,
+      errorMessage: insertLog.errorMessage ?? null,
+      metadata: insertLog.metadata ?? null,
+      operatorId: insertLog.operatorId ?? null,
+      organizationId: insertLog.organizationId ?? null,
+      createdAt: new Date(),
+    };
+    this.auditLogs.set(log.id, log);
+    return log;
+  }
+
+  async getAuditLogsByApiKey(apiKey: string, limit: number = 100): Promise<AuditLog[]> {
+    return this.newestFirst(Array.from(this.auditLogs.values()).filter(l => l.apiKey === apiKey)).slice(0, limit);
+  }
+
+  async getRecentAuditLogs(limit: number, scope?: AuditLogScope): Promise<AuditLog[]> {
+    const logs = Array.from(this.auditLogs.values()).filter(l => !scope ||
+      l.organizationId === scope.organizationId ||
+      (l.siteKey !== null && scope.siteKeys.includes(l.siteKey)));
+    return this.newestFirst(logs).slice(0, limit);
+  }
+
+  // Operators
+  async createOperator(insertOperator: InsertOperator): Promise<Operator> {
+    if (await this.getOperatorByEmail(insertOperator.email)) {
+      throw new Error('Duplicate operator email');
+    }
+
+    const operator: Operator = {
+      ...insertOperator,
+      active: insertOperator.active ?? true,
+      lastLoginAt: insertOperator.lastLoginAt ?? null,
+      createdAt: new Date(),
+    };
+    this.operators.set(operator.id, operator);
+    return operator;
+  }
+
+  async getOperator(id: string): Promise<Operator | undefined> {
+    return this.operators.get(id);
+  }
+
+  async getOperatorByEmail(email: string): Promise<Operator | undefined> {
+    return Array.from(this.operators.values()).find(o => o.email === email);
+  }
+
+  async getAllOperators(): Promise<Operator[]> {
+    return Array.from(this.operators.values());
+  }
+
+  async updateOperator(id: string, updates: Partial<InsertOperator>): Promise<void> {
+    const operator = this.operators.get(id);
+    if (operator) {
+      Object.assign(operator, updates);
+    }
+  }
+
+  async deleteOperator(id: string): Promise<void> {
+    this.operators.delete(id);
+  }
+
+  // Organizations
+  async createOrganization(insertOrganization: InsertOrganization): Promise<Organization> {
+    const organization: Organization = {
+      ...insertOrganization,
+      createdAt: new Date(),
+    };
+    this.organizations.set(organization.id, organization);
+    return organization;
+  }
+
+  async getOrganization(id: string): Promise<Organization | undefined> {
+    return this.organizations.get(id);
+  }
+
+  async getAllOrganizations(): Promise<Organization[]> {
+    return Array.from(this.organizations.values());
+  }
+
+  async claimUnownedResources(organizationId: string): Promise<void> {
+    for (const siteKey of Array.from(this.siteKeys.values())) {
+      if (!siteKey.organizationId) siteKey.organizationId = organizationId;
+    }
+    for (const client of Array.from(this.apiClients.values())) {
+      if (!client.organizationId) client.organizationId = organizationId;
+    }
+  }
+
+  // Organization Memberships
+  async createMembership(insertMembership: InsertOrganizationMembership): Promise<OrganizationMembership> {
+    const membership: OrganizationMembership = {
+      ...insertMembership,
+      createdAt: new Date(),
+    };
+    this.memberships.set(membership.id, membership);
+    return membership;
+  }
+
+  async getMembership(organizationId: string, operatorId: string): Promise<OrganizationMembership | undefined> {
+    return Array.from(this.memberships.values())
+      .find(m => m.organizationId === organizationId && m.operatorId === operatorId);
+  }
+
+  async getMembershipsByOperator(operatorId: string): Promise<OrganizationMembership[]> {
+    return Array.from(this.memberships.values()).filter(m => m.operatorId === operatorId);
+  }
+
+  async getMembershipsByOrganization(organizationId: string): Promise<OrganizationMembership[]> {
+    return Array.from(this.memberships.values()).filter(m => m.organizationId === organizationId);
+  }
+
+  async updateMembershipRole(id: string, role: OperatorRole): Promise<void> {
+    const membership = this.memberships.get(id);
+    if (membership) {
+      membership.role = role;
+    }
+  }
+
+  async deleteMembership(id: string): Promise<void> {
+    this.memberships.delete(id);
+  }
+
+  async deleteMembershipsByOperator(operatorId: string): Promise<void> {
+    for (const [id, membership] of Array.from(this.memberships)) {
+      if (membership.operatorId === operatorId) this.memberships.delete(id);
+    }
+  }
 }
 
-export const storage = new DatabaseStorage();
+// STORAGE_DRIVER=memory boots without a database (local development, CI)
+export const storage: IStorage = process.env.STORAGE_DRIVER === 'memory'
+  ? new MemoryStorage()
+  : new DatabaseStorage();
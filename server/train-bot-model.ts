@@ -0,0 +1,218 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { storage } from './storage';
+import { extractAIFeatures } from './lib/aiDetection';
+import { areaUnderCurve, loadLabeledSamples } from './lib/evaluation';
+import { BOT_MODEL_DIR, BOT_MODEL_FEATURES, REDEEMED_LABEL_BIAS, attemptTrainingLabel, type BotModel } from './lib/botModel';
+
+// Bot classifier training
+//
+//   npm run train:bot-model -- [--model logistic|mlp] [--epochs <n>] [--limit <n>]
+//                              [--export-features <features.jsonl>] [<samples.jsonl>...]
+//
+// Features come from the newest --limit stored verification attempts that have
+// a label (operator review, decoys selected on a honeytrap or redeemed token;
+// --limit 0 skips them), plus any labeled JSONL files in the eval:scoring
+// format. A fifth of the samples is held out to report validation AUC. The
+// model is written to models/bot-classifier/<version>.json and picked up on
+// the next server start.
+//
+// Attempt labels are biased: unless an operator reviewed it, an attempt is
+// only labeled human when its token was redeemed, i.e. when the scoring in
+// production at the time passed it. Humans that scoring blocked never become
+// samples, so a model trained on attempts alone learns to reproduce it. Add
+// reviewed attempts or labeled JSONL files to correct for this; the model's
+// training.labelBias records it whenever attempts were used.
+
+const USAGE = 'Usage: npm run train:bot-model -- [--model logistic|mlp] [--epochs <n>] [--limit <n>] [--export-features <file>] [<samples.jsonl>...]';
+const MIN_SAMPLES_PER_CLASS = 10;
+const VALIDATION_SPLIT = 0.2;
+const MLP_HIDDEN_UNITS = 8;
+
+interface TrainingArgs {
+  kind: BotModel['kind'];
+  epochs: number;
+  limit: number;
+  exportPath?: string;
+  files: string[];
+}
+
+interface TrainingSample {
+  features: number[];
+  bot: boolean;
+  source: string;
+}
+
+function parseArgs(argv: string[]): TrainingArgs {
+  const args: TrainingArgs = { kind: 'logistic', epochs: 300, limit: 10000, files: [] };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--model' || arg === '--epochs' || arg === '--limit' || arg === '--export-features') {
+      const value = argv[++i];
+      if (!value) throw new Error(`${arg} needs a value`);
+      if (arg === '--model') {
+        if (value !== 'logistic' && value !== 'mlp') throw new Error('--model must be logistic or mlp');
+        args.kind = value;
+      } else if (arg === '--export-features') {
+        args.exportPath = value;
+      } else {
+        const n = Number(value);
+        if (!Number.isInteger(n) || n < 0) throw new Error(`${arg} must be a non-negative integer`);
+        if (arg === '--epochs') args.epochs = n;
+        else args.limit = n;
+      }
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option ${arg}`);
+    } else {
+      args.files.push(arg);
+    }
+  }
+
+  if (args.epochs === 0) throw new Error('--epochs must be at least 1');
+  return args;
+}
+
+// The native binding is much faster, but the pure JS backend gives the same model
+async function loadTensorFlow(): Promise<typeof import('@tensorflow/tfjs')> {
+  try {
+    return await import('@tensorflow/tfjs-node') as unknown as typeof import('@tensorflow/tfjs');
+  } catch {
+    console.log('@tensorflow/tfjs-node is unavailable, training on the pure JS backend');
+    return import('@tensorflow/tfjs');
+  }
+}
+
+async function collectSamples(args: TrainingArgs): Promise<TrainingSample[]> {
+  const samples: TrainingSample[] = [];
+
+  if (args.limit > 0) {
+    const attempts = await storage.getRecentAttempts(args.limit);
+    for (const attempt of attempts) {
+      const label = attemptTrainingLabel(attempt);
+      if (!label) continue;
+      samples.push({ features: extractAIFeatures(attempt.behaviorVector as any), bot: label === 'bot', source: 'attempts' });
+    }
+  }
+
+  for (const sample of await loadLabeledSamples(args.files)) {
+    samples.push({ features: extractAIFeatures(sample.behaviorVector), bot: sample.label === 'bot', source: 'samples' });
+  }
+
+  return samples;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+async function main() {
+  let args: TrainingArgs;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(USAGE);
+    process.exit(2);
+  }
+
+  const samples = await collectSamples(args);
+  const bots = samples.filter(s => s.bot).length;
+  const humans = samples.length - bots;
+  console.log(`${samples.length} labeled samples: ${humans} human, ${bots} bot`);
+
+  if (args.exportPath) {
+    await writeFile(args.exportPath, samples.map(s => JSON.stringify({ label: s.bot ? 'bot' : 'human', features: s.features, source: s.source })).join('\n') + '\n');
+    console.log(`Features written to ${args.exportPath}`);
+  }
+
+  if (humans < MIN_SAMPLES_PER_CLASS || bots < MIN_SAMPLES_PER_CLASS) {
+    console.error(`Need at least ${MIN_SAMPLES_PER_CLASS} samples of each label to train`);
+    process.exit(1);
+  }
+
+  const shuffled = shuffle(samples);
+  const validationSize = Math.floor(shuffled.length * VALIDATION_SPLIT);
+  const validation = shuffled.slice(0, validationSize);
+  const training = shuffled.slice(validationSize);
+
+  const tf = await loadTensorFlow();
+  const model = tf.sequential();
+  if (args.kind === 'mlp') {
+    model.add(tf.layers.dense({ inputShape: [BOT_MODEL_FEATURES], units: MLP_HIDDEN_UNITS, activation: 'relu' }));
+    model.add(tf.layers.dense({ units: 1, activation: 'sigmoid' }));
+  } else {
+    model.add(tf.layers.dense({ inputShape: [BOT_MODEL_FEATURES], units: 1, activation: 'sigmoid' }));
+  }
+  model.compile({ optimizer: tf.train.adam(0.05), loss: 'binaryCrossentropy' });
+
+  // Weight the classes so an unbalanced export does not just learn the majority label
+  const trainingBots = training.filter(s => s.bot).length;
+  const xs = tf.tensor2d(training.map(s => s.features));
+  const ys = tf.tensor2d(training.map(s => [s.bot ? 1 : 0]));
+  await model.fit(xs, ys, {
+    epochs: args.epochs,
+    batchSize: 32,
+    shuffle: true,
+    verbose: 0,
+    classWeight: {
+      0: training.length / (2 * Math.max(1, training.length - trainingBots)),
+      1: training.length / (2 * Math.max(1, trainingBots)),
+    },
+  });
+
+  const layers: BotModel['layers'] = model.layers.map((layer, index) => {
+    const [kernel, bias] = layer.getWeights();
+    return {
+      weights: kernel.arraySync() as number[][],
+      bias: bias.arraySync() as number[],
+      activation: index === model.layers.length - 1 ? 'sigmoid' : 'relu',
+    };
+  });
+
+  let validationAuc: number | null = null;
+  if (validation.length > 0) {
+    const predictions = model.predict(tf.tensor2d(validation.map(s => s.features))) as import('@tensorflow/tfjs').Tensor;
+    const probabilities = predictions.dataSync();
+    // Scored as a human score like eval:scoring, so 1.0 is perfect separation
+    const auc = areaUnderCurve(validation.map((s, i) => ({ human: !s.bot, score: 1 - probabilities[i] })));
+    validationAuc = Number.isNaN(auc) ? null : auc;
+  }
+
+  const createdAt = new Date().toISOString();
+  const version = createdAt.replace(/[:.]/g, '-');
+  const output: BotModel = {
+    version,
+    kind: args.kind,
+    createdAt,
+    features: BOT_MODEL_FEATURES,
+    layers,
+    training: {
+      samples: training.length,
+      humans: training.length - trainingBots,
+      bots: trainingBots,
+      epochs: args.epochs,
+      validationAuc,
+      sources: Array.from(new Set(samples.map(s => s.source))),
+      labelBias: samples.some(s => s.source === 'attempts') ? REDEEMED_LABEL_BIAS : undefined,
+    },
+  };
+
+  await mkdir(BOT_MODEL_DIR, { recursive: true });
+  const file = path.join(BOT_MODEL_DIR, `${version}.json`);
+  await writeFile(file, JSON.stringify(output, null, 2) + '\n');
+
+  console.log(`Validation AUC: ${validationAuc === null ? 'n/a' : validationAuc.toFixed(3)} on ${validation.length} held-out samples`);
+  console.log(`Model ${version} written to ${path.relative(process.cwd(), file)}; restart the server to load it`);
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
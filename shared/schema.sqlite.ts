@@ -0,0 +1,230 @@
+import { sqliteTable, text, integer, index, uniqueIndex } from "drizzle-orm/sqlite-core";
+import type { AttemptLabel, ChallengeType, OperatorRole, ReasonCode, SitePolicyThresholds, SitePolicyWeights, SiteRateLimits, TokenOutcome } from "./schema";
+
+// SQLite dialect of shared/schema.ts
+// Column names, nullability and defaults must stay in sync with the Postgres tables;
+// jsonb maps to JSON text, timestamps to epoch milliseconds and booleans to 0/1.
+
+const createdAt = () => integer("created_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date());
+
+export const challenges = sqliteTable("challenges", {
+  id: text("id").primaryKey(),
+  siteKey: text("site_key").notNull(),
+  mode: text("mode", { length: 20 }).notNull(),
+  prompt: text("prompt").notNull(),
+  images: text("images", { mode: "json" }).notNull().$type<string[]>(),
+  correctIndices: text("correct_indices", { mode: "json" }).$type<number[]>(),
+  isHoneytrap: integer("is_honeytrap", { mode: "boolean" }).default(false).notNull(),
+  metadata: text("metadata", { mode: "json" }).$type<Record<string, any>>(),
+  createdAt: createdAt(),
+  expiresAt: integer("expires_at", { mode: "timestamp_ms" }).notNull(),
+}, (table) => ({
+  siteKeyIdx: index("challenges_site_key_idx").on(table.siteKey),
+  expiresAtIdx: index("challenges_expires_at_idx").on(table.expiresAt),
+}));
+
+export const verificationAttempts = sqliteTable("verification_attempts", {
+  id: text("id").primaryKey(),
+  challengeId: text("challenge_id").notNull(),
+  siteKey: text("site_key"),
+  ipAddress: text("ip_address"),
+  selectedIndices: text("selected_indices", { mode: "json" }).$type<number[]>(),
+  behaviorVector: text("behavior_vector", { mode: "json" }).$type<number[]>(),
+  behaviorScore: integer("behavior_score"),
+  semanticScore: integer("semantic_score"),
+  deviceTrustScore: integer("device_trust_score"),
+  environmentScore: integer("environment_score"),
+  finalScore: integer("final_score"),
+  success: integer("success", { mode: "boolean" }).notNull(),
+  flaggedSuspicious: integer("flagged_suspicious", { mode: "boolean" }).default(false).notNull(),
+  trajectoryFingerprint: text("trajectory_fingerprint"),
+  replayHits: integer("replay_hits").default(0).notNull(),
+  reasonCodes: text("reason_codes", { mode: "json" }).$type<ReasonCode[]>(),
+  reviewLabel: text("review_label").$type<AttemptLabel>(),
+  tokenOutcome: text("token_outcome").$type<TokenOutcome>(),
+  userAgent: text("user_agent"),
+  createdAt: createdAt(),
+}, (table) => ({
+  challengeIdIdx: index("attempts_challenge_id_idx").on(table.challengeId),
+  siteKeyIdx: index("attempts_site_key_idx").on(table.siteKey),
+  ipAddressIdx: index("attempts_ip_address_idx").on(table.ipAddress),
+  createdAtIdx: index("attempts_created_at_idx").on(table.createdAt),
+}));
+
+export const verifyTokens = sqliteTable("verify_tokens", {
+  token: text("token").primaryKey(),
+  challengeId: text("challenge_id").notNull(),
+  siteKey: text("site_key").notNull(),
+  score: integer("score").notNull(),
+  used: integer("used", { mode: "boolean" }).default(false).notNull(),
+  ipAddress: text("ip_address"),
+  action: text("action"),
+  cData: text("c_data"),
+  createdAt: createdAt(),
+  expiresAt: integer("expires_at", { mode: "timestamp_ms" }).notNull(),
+}, (table) => ({
+  expiresAtIdx: index("verify_tokens_expires_at_idx").on(table.expiresAt),
+  ipAddressIdx: index("verify_tokens_ip_address_idx").on(table.ipAddress),
+}));
+
+export const assets = sqliteTable("assets", {
+  id: text("id").primaryKey(),
+  url: text("url").notNull(),
+  category: text("category", { length: 50 }).notNull(),
+  subcategory: text("subcategory", { length: 50 }),
+  tags: text("tags", { mode: "json" }).$type<string[]>(),
+  localeTags: text("locale_tags", { mode: "json" }).$type<string[]>(),
+  safeForKids: integer("safe_for_kids", { mode: "boolean" }).default(true).notNull(),
+  width: integer("width"),
+  height: integer("height"),
+  metadata: text("metadata", { mode: "json" }).$type<Record<string, any>>(),
+  createdAt: createdAt(),
+}, (table) => ({
+  categoryIdx: index("assets_category_idx").on(table.category),
+}));
+
+export const rateLimits = sqliteTable("rate_limits", {
+  id: text("id").primaryKey(),
+  key: text("key").notNull(),
+  windowStart: integer("window_start").notNull(),
+  count: integer("count").default(0).notNull(),
+  tat: integer("tat"),
+  expiresAt: integer("expires_at", { mode: "timestamp_ms" }).notNull(),
+}, (table) => ({
+  keyWindowIdx: uniqueIndex("rate_limits_key_window_idx").on(table.key, table.windowStart),
+  expiresAtIdx: index("rate_limits_expires_at_idx").on(table.expiresAt),
+}));
+
+export const siteKeys = sqliteTable("site_keys", {
+  key: text("key").primaryKey(),
+  secretKey: text("secret_key"),
+  publicKey: text("public_key"),
+  name: text("name").notNull(),
+  domain: text("domain"),
+  allowedHostnames: text("allowed_hostnames", { mode: "json" }).$type<string[]>(),
+  active: integer("active", { mode: "boolean" }).default(true).notNull(),
+  organizationId: text("organization_id"),
+  createdAt: createdAt(),
+}, (table) => ({
+  organizationIdx: index("site_keys_organization_idx").on(table.organizationId),
+}));
+
+export const siteKeyVersions = sqliteTable("site_key_versions", {
+  id: text("id").primaryKey(),
+  siteKey: text("site_key").notNull(),
+  version: integer("version").notNull(),
+  kid: text("kid").notNull(),
+  publicKey: text("public_key").notNull(),
+  status: text("status", { length: 20 }).notNull(),
+  createdAt: createdAt(),
+  retiredAt: integer("retired_at", { mode: "timestamp_ms" }),
+  validUntil: integer("valid_until", { mode: "timestamp_ms" }),
+}, (table) => ({
+  siteKeyIdx: index("site_key_versions_site_key_idx").on(table.siteKey),
+  kidIdx: index("site_key_versions_kid_idx").on(table.kid),
+}));
+
+export const apiClients = sqliteTable("api_clients", {
+  id: text("id").primaryKey(),
+  apiKey: text("api_key").notNull().unique(),
+  secretKeyHash: text("secret_key_hash").notNull(),
+  name: text("name").notNull(),
+  domain: text("domain"),
+  rateLimitPerHour: integer("rate_limit_per_hour").default(1000).notNull(),
+  active: integer("active", { mode: "boolean" }).default(true).notNull(),
+  organizationId: text("organization_id"),
+  createdAt: createdAt(),
+  lastUsedAt: integer("last_used_at", { mode: "timestamp_ms" }),
+}, (table) => ({
+  apiKeyIdx: index("api_clients_api_key_idx").on(table.apiKey),
+  organizationIdx: index("api_clients_organization_idx").on(table.organizationId),
+}));
+
+export const apiClientUsage = sqliteTable("api_client_usage", {
+  id: text("id").primaryKey(),
+  apiClientId: text("api_client_id").notNull(),
+  windowStart: integer("window_start", { mode: "timestamp_ms" }).notNull(),
+  count: integer("count").default(0).notNull(),
+}, (table) => ({
+  clientWindowIdx: uniqueIndex("api_client_usage_client_window_idx").on(table.apiClientId, table.windowStart),
+}));
+
+export const widgetSessions = sqliteTable("widget_sessions", {
+  id: text("id").primaryKey(),
+  siteKey: text("site_key").notNull(),
+  nonce: text("nonce").notNull().unique(),
+  fingerprintHash: text("fingerprint_hash"),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  challengeId: text("challenge_id"),
+  verified: integer("verified", { mode: "boolean" }).default(false).notNull(),
+  verifyToken: text("verify_token"),
+  telemetryKey: text("telemetry_key"),
+  telemetrySeq: integer("telemetry_seq").default(0).notNull(),
+  metadata: text("metadata", { mode: "json" }).$type<Record<string, any>>(),
+  createdAt: createdAt(),
+  expiresAt: integer("expires_at", { mode: "timestamp_ms" }).notNull(),
+}, (table) => ({
+  nonceIdx: index("widget_sessions_nonce_idx").on(table.nonce),
+  siteKeyIdx: index("widget_sessions_site_key_idx").on(table.siteKey),
+  expiresAtIdx: index("widget_sessions_expires_at_idx").on(table.expiresAt),
+}));
+
+export const auditLogs = sqliteTable("audit_logs", {
+  id: text("id").primaryKey(),
+  apiKey: text("api_key"),
+  siteKey: text("site_key"),
+  action: text("action", { length: 50 }).notNull(),
+  ipAddress: text("ip_address"),
+  success: integer("success", { mode: "boolean" }).notNull(),
+  errorMessage: text("error_message"),
+  metadata: text("metadata", { mode: "json" }).$type<Record<string, any>>(),
+  operatorId: text("operator_id"),
+  organizationId: text("organization_id"),
+  createdAt: createdAt(),
+}, (table) => ({
+  apiKeyIdx: index("audit_logs_api_key_idx").on(table.apiKey),
+  siteKeyIdx: index("audit_logs_site_key_idx").on(table.siteKey),
+  organizationIdx: index("audit_logs_organization_idx").on(table.organizationId),
+  createdAtIdx: index("audit_logs_created_at_idx").on(table.createdAt),
+}));
+
+export const operators = sqliteTable("operators", {
+  id: text("id").primaryKey(),
+  email: text("email").notNull().unique(),
+  name: text("name").notNull(),
+  passwordHash: text("password_hash").notNull(),
+  role: text("role", { length: 20 }).notNull().$type<OperatorRole>(),
+  active: integer("active", { mode: "boolean" }).default(true).notNull(),
+  createdAt: createdAt(),
+  lastLoginAt: integer("last_login_at", { mode: "timestamp_ms" }),
+}, (table) => ({
+  emailIdx: index("operators_email_idx").on(table.email),
+}));
+
+export const organizations = sqliteTable("organizations", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  createdAt: createdAt(),
+});
+
+export const organizationMemberships = sqliteTable("organization_memberships", {
+  id: text("id").primaryKey(),
+  organizationId: text("organization_id").notNull(),
+  operatorId: text("operator_id").notNull(),
+  role: text("role", { length: 20 }).notNull().$type<OperatorRole>(),
+  createdAt: createdAt(),
+}, (table) => ({
+  organizationIdx: index("memberships_organization_idx").on(table.organizationId),
+  operatorIdx: index("memberships_operator_idx").on(table.operatorId),
+}));
+
+export const sitePolicies = sqliteTable("site_policies", {
+  siteKey: text("site_key").primaryKey(),
+  weights: text("weights", { mode: "json" }).notNull().$type<SitePolicyWeights>(),
+  thresholds: text("thresholds", { mode: "json" }).notNull().$type<SitePolicyThresholds>(),
+  allowedChallengeTypes: text("allowed_challenge_types", { mode: "json" }).notNull().$type<ChallengeType[]>(),
+  tokenTtlSeconds: integer("token_ttl_seconds").default(120).notNull(),
+  rateLimits: text("rate_limits", { mode: "json" }).$type<SiteRateLimits>(),
+  updatedAt: integer("updated_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+});
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, jsonb, boolean, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, bigint, jsonb, boolean, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -7,7 +7,7 @@ import { z } from "zod";
 export const challenges = pgTable("challenges", {
   id: varchar("id").primaryKey(),
   siteKey: varchar("site_key").notNull(),
-  mode: varchar("mode", { length: 20 }).notNull(), // "puzzle" or "images"
+  mode: varchar("mode", { length: 20 }).notNull(), // "images", "jigsaw" or "pow"
   prompt: text("prompt").notNull(),
   images: jsonb("images").notNull().$type<string[]>(),
   correctIndices: jsonb("correct_indices").$type<number[]>(),
@@ -20,7 +20,11 @@ export const challenges = pgTable("challenges", {
   expiresAtIdx: index("challenges_expires_at_idx").on(table.expiresAt),
 }));
 
-export const insertChallengeSchema = createInsertSchema(challenges).omit({
+export const insertChallengeSchema = createInsertSchema(challenges, {
+  images: z.array(z.string()),
+  correctIndices: z.array(z.number()).nullable().optional(),
+  metadata: z.record(z.any()).nullable().optional(),
+}).omit({
   createdAt: true,
 });
 
@@ -28,22 +32,44 @@ export type InsertChallenge = z.infer<typeof insertChallengeSchema>;
 export type Challenge = typeof challenges.$inferSelect;
 
 // Verification attempts - stores solve attempts with behavioral data
+// Scoring component a reason code comes from (server/lib/verification.ts, server/lib/aiDetection.ts)
+export type ReasonComponent = "behavior" | "semantic" | "device" | "environment" | "ai" | "anomaly" | "heuristics" | "telemetry";
+
+export interface ReasonCode {
+  component: ReasonComponent;
+  code: string; // e.g. "perfect_timing", "instant_click"
+  points: number; // Added to the component's base score
+}
+
+// Training labels for the bot classifier (server/lib/botModel.ts)
+export type AttemptLabel = "human" | "bot";
+// What became of the verify token issued for a successful attempt
+export type TokenOutcome = "redeemed" | "replayed" | "ip_mismatch";
+
 export const verificationAttempts = pgTable("verification_attempts", {
   id: varchar("id").primaryKey(),
   challengeId: varchar("challenge_id").notNull(),
+  siteKey: varchar("site_key"), // Kept after the challenge expires, for per-organization stats
   ipAddress: varchar("ip_address"),
   selectedIndices: jsonb("selected_indices").$type<number[]>(),
   behaviorVector: jsonb("behavior_vector").$type<number[]>(),
   behaviorScore: integer("behavior_score"), // 0-100
   semanticScore: integer("semantic_score"), // 0-100
   deviceTrustScore: integer("device_trust_score"), // 0-100
+  environmentScore: integer("environment_score"), // 0-100, null when the request carried no telemetry
   finalScore: integer("final_score"), // 0-100
   success: boolean("success").notNull(),
   flaggedSuspicious: boolean("flagged_suspicious").default(false).notNull(),
+  trajectoryFingerprint: varchar("trajectory_fingerprint"), // SimHash of the mouse trajectory (server/lib/verification.ts)
+  replayHits: integer("replay_hits").default(0).notNull(), // Near-duplicate trajectories from other sessions
+  reasonCodes: jsonb("reason_codes").$type<ReasonCode[]>(),
+  reviewLabel: varchar("review_label").$type<AttemptLabel>(), // Set by an operator in the admin dashboard
+  tokenOutcome: varchar("token_outcome").$type<TokenOutcome>(),
   userAgent: text("user_agent"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
   challengeIdIdx: index("attempts_challenge_id_idx").on(table.challengeId),
+  siteKeyIdx: index("attempts_site_key_idx").on(table.siteKey),
   ipAddressIdx: index("attempts_ip_address_idx").on(table.ipAddress),
   createdAtIdx: index("attempts_created_at_idx").on(table.createdAt),
 }));
@@ -63,6 +89,8 @@ export const verifyTokens = pgTable("verify_tokens", {
   score: integer("score").notNull(),
   used: boolean("used").default(false).notNull(),
   ipAddress: varchar("ip_address"),
+  action: varchar("action", { length: 32 }),
+  cData: varchar("c_data", { length: 255 }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   expiresAt: timestamp("expires_at").notNull(),
 }, (table) => ({
@@ -101,22 +129,23 @@ export const insertAssetSchema = createInsertSchema(assets).omit({
 export type InsertAsset = z.infer<typeof insertAssetSchema>;
 export type Asset = typeof assets.$inferSelect;
 
-// Rate limit tracking - stores IP-based rate limits
+// Rate limit state - one row per limiter key and window
+// Sliding-window counters keep a row per fixed window (windowStart in epoch ms);
+// token buckets keep a single row with windowStart 0 and the bucket's theoretical
+// arrival time (GCRA) in tat, also in epoch ms.
 export const rateLimits = pgTable("rate_limits", {
   id: varchar("id").primaryKey(),
-  ipAddress: varchar("ip_address").notNull(),
-  action: varchar("action", { length: 20 }).notNull(), // "start" or "solve"
+  key: varchar("key").notNull(), // e.g. "solve:203.0.113.7" or "start:sk_abc:2001:db8:1:2::/64"
+  windowStart: bigint("window_start", { mode: "number" }).notNull(),
   count: integer("count").default(0).notNull(),
-  windowStart: timestamp("window_start").defaultNow().notNull(),
+  tat: bigint("tat", { mode: "number" }),
   expiresAt: timestamp("expires_at").notNull(),
 }, (table) => ({
-  ipActionIdx: index("rate_limits_ip_action_idx").on(table.ipAddress, table.action),
+  keyWindowIdx: uniqueIndex("rate_limits_key_window_idx").on(table.key, table.windowStart),
   expiresAtIdx: index("rate_limits_expires_at_idx").on(table.expiresAt),
 }));
 
-export const insertRateLimitSchema = createInsertSchema(rateLimits).omit({
-  windowStart: true,
-});
+export const insertRateLimitSchema = createInsertSchema(rateLimits);
 
 export type InsertRateLimit = z.infer<typeof insertRateLimitSchema>;
 export type RateLimit = typeof rateLimits.$inferSelect;
@@ -128,17 +157,49 @@ export const siteKeys = pgTable("site_keys", {
   publicKey: varchar("public_key"),
   name: text("name").notNull(),
   domain: text("domain"),
+  // Hostnames allowed to embed the widget; "*.example.com" matches subdomains. Empty allows any.
+  allowedHostnames: jsonb("allowed_hostnames").$type<string[]>(),
   active: boolean("active").default(true).notNull(),
+  organizationId: varchar("organization_id"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => ({
+  organizationIdx: index("site_keys_organization_idx").on(table.organizationId),
+}));
 
-export const insertSiteKeySchema = createInsertSchema(siteKeys).omit({
+export const insertSiteKeySchema = createInsertSchema(siteKeys, {
+  allowedHostnames: z.array(z.string()).nullable().optional(),
+}).omit({
   createdAt: true,
 });
 
 export type InsertSiteKey = z.infer<typeof insertSiteKeySchema>;
 export type SiteKey = typeof siteKeys.$inferSelect;
 
+// Site key versions - public key history for rotation
+// The active version's key pair is mirrored on site_keys; retired versions keep
+// verifying tokens until validUntil so outstanding tokens survive a rotation.
+export const siteKeyVersions = pgTable("site_key_versions", {
+  id: varchar("id").primaryKey(),
+  siteKey: varchar("site_key").notNull(),
+  version: integer("version").notNull(),
+  kid: varchar("kid").notNull(),
+  publicKey: varchar("public_key").notNull(),
+  status: varchar("status", { length: 20 }).notNull(), // "active" or "retired"
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  retiredAt: timestamp("retired_at"),
+  validUntil: timestamp("valid_until"),
+}, (table) => ({
+  siteKeyIdx: index("site_key_versions_site_key_idx").on(table.siteKey),
+  kidIdx: index("site_key_versions_kid_idx").on(table.kid),
+}));
+
+export const insertSiteKeyVersionSchema = createInsertSchema(siteKeyVersions).omit({
+  createdAt: true,
+});
+
+export type InsertSiteKeyVersion = z.infer<typeof insertSiteKeyVersionSchema>;
+export type SiteKeyVersion = typeof siteKeyVersions.$inferSelect;
+
 // API clients - stores API keys for programmatic access
 export const apiClients = pgTable("api_clients", {
   id: varchar("id").primaryKey(),
@@ -148,10 +209,12 @@ export const apiClients = pgTable("api_clients", {
   domain: text("domain"),
   rateLimitPerHour: integer("rate_limit_per_hour").default(1000).notNull(),
   active: boolean("active").default(true).notNull(),
+  organizationId: varchar("organization_id"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   lastUsedAt: timestamp("last_used_at"),
 }, (table) => ({
   apiKeyIdx: index("api_clients_api_key_idx").on(table.apiKey),
+  organizationIdx: index("api_clients_organization_idx").on(table.organizationId),
 }));
 
 export const insertApiClientSchema = createInsertSchema(apiClients).omit({
@@ -161,6 +224,21 @@ export const insertApiClientSchema = createInsertSchema(apiClients).omit({
 export type InsertApiClient = z.infer<typeof insertApiClientSchema>;
 export type ApiClient = typeof apiClients.$inferSelect;
 
+// API client usage - request counts per client per hourly quota window
+export const apiClientUsage = pgTable("api_client_usage", {
+  id: varchar("id").primaryKey(),
+  apiClientId: varchar("api_client_id").notNull(),
+  windowStart: timestamp("window_start").notNull(),
+  count: integer("count").default(0).notNull(),
+}, (table) => ({
+  clientWindowIdx: uniqueIndex("api_client_usage_client_window_idx").on(table.apiClientId, table.windowStart),
+}));
+
+export const insertApiClientUsageSchema = createInsertSchema(apiClientUsage);
+
+export type InsertApiClientUsage = z.infer<typeof insertApiClientUsageSchema>;
+export type ApiClientUsage = typeof apiClientUsage.$inferSelect;
+
 // Widget sessions - stores checkbox challenge sessions
 export const widgetSessions = pgTable("widget_sessions", {
   id: varchar("id").primaryKey(),
@@ -172,6 +250,10 @@ export const widgetSessions = pgTable("widget_sessions", {
   challengeId: varchar("challenge_id"),
   verified: boolean("verified").default(false).notNull(),
   verifyToken: varchar("verify_token"),
+  // AES-256-GCM key for sealed telemetry, negotiated at init (base64)
+  telemetryKey: varchar("telemetry_key"),
+  // Highest telemetry sequence number accepted so far
+  telemetrySeq: integer("telemetry_seq").default(0).notNull(),
   metadata: jsonb("metadata").$type<Record<string, any>>(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   expiresAt: timestamp("expires_at").notNull(),
@@ -198,10 +280,13 @@ export const auditLogs = pgTable("audit_logs", {
   success: boolean("success").notNull(),
   errorMessage: text("error_message"),
   metadata: jsonb("metadata").$type<Record<string, any>>(),
+  operatorId: varchar("operator_id"), // Set for dashboard actions
+  organizationId: varchar("organization_id"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
   apiKeyIdx: index("audit_logs_api_key_idx").on(table.apiKey),
   siteKeyIdx: index("audit_logs_site_key_idx").on(table.siteKey),
+  organizationIdx: index("audit_logs_organization_idx").on(table.organizationId),
   createdAtIdx: index("audit_logs_created_at_idx").on(table.createdAt),
 }));
 
@@ -210,4 +295,121 @@ export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
 });
 
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
-export type AuditLog = typeof auditLogs.$inferSelect;
\ No newline at end of file
+export type AuditLog = typeof auditLogs.$inferSelect;
+
+// Operators - dashboard accounts for admin and key management
+export type OperatorRole = "owner" | "admin" | "viewer";
+
+export const operators = pgTable("operators", {
+  id: varchar("id").primaryKey(),
+  email: varchar("email").notNull().unique(),
+  name: text("name").notNull(),
+  passwordHash: varchar("password_hash").notNull(),
+  role: varchar("role", { length: 20 }).notNull().$type<OperatorRole>(),
+  active: boolean("active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastLoginAt: timestamp("last_login_at"),
+}, (table) => ({
+  emailIdx: index("operators_email_idx").on(table.email),
+}));
+
+export const insertOperatorSchema = createInsertSchema(operators, {
+  role: z.enum(["owner", "admin", "viewer"]),
+}).omit({
+  createdAt: true,
+});
+
+export type InsertOperator = z.infer<typeof insertOperatorSchema>;
+export type Operator = typeof operators.$inferSelect;
+
+// Organizations - teams that own site keys and API clients
+export const organizations = pgTable("organizations", {
+  id: varchar("id").primaryKey(),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertOrganizationSchema = createInsertSchema(organizations).omit({
+  createdAt: true,
+});
+
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type Organization = typeof organizations.$inferSelect;
+
+// Organization memberships - an operator's role within one organization
+export const organizationMemberships = pgTable("organization_memberships", {
+  id: varchar("id").primaryKey(),
+  organizationId: varchar("organization_id").notNull(),
+  operatorId: varchar("operator_id").notNull(),
+  role: varchar("role", { length: 20 }).notNull().$type<OperatorRole>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  organizationIdx: index("memberships_organization_idx").on(table.organizationId),
+  operatorIdx: index("memberships_operator_idx").on(table.operatorId),
+}));
+
+export const insertOrganizationMembershipSchema = createInsertSchema(organizationMemberships, {
+  role: z.enum(["owner", "admin", "viewer"]),
+}).omit({
+  createdAt: true,
+});
+
+export type InsertOrganizationMembership = z.infer<typeof insertOrganizationMembershipSchema>;
+export type OrganizationMembership = typeof organizationMemberships.$inferSelect;
+// Site policies - per-site scoring weights, thresholds and challenge settings
+// Sites without a row use DEFAULT_SITE_POLICY (server/lib/policy.ts)
+export type ChallengeType = "images" | "jigsaw" | "pow";
+
+export type RateLimitAction = "start" | "solve" | "turnstile" | "verify" | "login";
+export type RateLimitAlgorithm = "sliding-window" | "token-bucket";
+
+export interface RateLimitRule {
+  algorithm: RateLimitAlgorithm;
+  limit: number; // Requests per window, or bucket capacity
+  windowMs: number; // Window length, or time to refill an empty bucket
+}
+
+// Per-site overrides of the instance rate limits; login is never per site
+export type SiteRateLimits = Partial<Record<Exclude<RateLimitAction, "login">, RateLimitRule>>;
+
+// Without an environment report, the environment weight is spread over the others
+export interface SitePolicyWeights {
+  images: { behavior: number; semantic: number; device: number; environment: number };
+  jigsaw: { behavior: number; semantic: number; device: number; environment: number };
+  turnstile: { ai: number; behavior: number; device: number; environment: number };
+  checkbox: { behavior: number; device: number; environment: number };
+}
+
+export interface SitePolicyThresholds {
+  pass: number; // Turnstile: at or above passes without a challenge
+  escalate: number; // Turnstile: at or above (below pass) requires a challenge, below fails
+  images: number; // Minimum final score for an image challenge
+  jigsaw: number; // Minimum final score for a jigsaw challenge
+  checkbox: number; // Minimum final score for checkbox verification
+}
+
+export const sitePolicies = pgTable("site_policies", {
+  siteKey: varchar("site_key").primaryKey(),
+  weights: jsonb("weights").notNull().$type<SitePolicyWeights>(),
+  thresholds: jsonb("thresholds").notNull().$type<SitePolicyThresholds>(),
+  allowedChallengeTypes: jsonb("allowed_challenge_types").notNull().$type<ChallengeType[]>(),
+  tokenTtlSeconds: integer("token_ttl_seconds").default(120).notNull(),
+  rateLimits: jsonb("rate_limits").$type<SiteRateLimits>(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+const rateLimitRuleSchema = z.object({
+  algorithm: z.enum(["sliding-window", "token-bucket"]),
+  limit: z.number().int(),
+  windowMs: z.number().int(),
+});
+
+export const insertSitePolicySchema = createInsertSchema(sitePolicies, {
+  allowedChallengeTypes: z.array(z.enum(["images", "jigsaw", "pow"])),
+  rateLimits: z.record(z.enum(["start", "solve", "turnstile", "verify"]), rateLimitRuleSchema).nullable().optional(),
+}).omit({
+  updatedAt: true,
+});
+
+export type InsertSitePolicy = z.infer<typeof insertSitePolicySchema>;
+export type SitePolicy = typeof sitePolicies.$inferSelect;